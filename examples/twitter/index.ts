@@ -1,26 +1,42 @@
 /**
- * Twitter Example Using Generated Statically Typed Implementation
+ * Twitter Example Using Statically Typed Workflow Input and Output
  *
- * This file demonstrates how to use the generated statically typed Twitter implementation.
+ * This file demonstrates how to run the Twitter workflow with a WorkflowRun handle.
  * It showcases the benefits of using TypeScript interfaces for workflow inputs and outputs.
  *
  */
 
-import {
-  TwitterMonitoringPostsWorkflowInput,
-  TwitterMonitoringPostsWorkflowOutput,
-} from "../../src/flows/twitter";
 import * as dotenv from "dotenv";
 import { connectSocket } from "../../src/socket/connect";
+import { runWorkflow } from "../../src/socket/workflow";
+import { createConsoleLogger, createSilentLogger } from "../../src/logger";
 import { generateHtmlReport, saveHtmlReport } from "./template-utils";
-import { Socket } from "socket.io-client";
+import { PocketFlowConnection } from "../../src/socket/connection";
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Input of the `twitter` workflow, as `pocketflow generate` types it
+ */
+export interface TwitterMonitoringPostsWorkflowInput {
+  prompt: string;
+  project_description: string;
+  limit: number;
+  min_likes: number;
+  min_retweets: number;
+}
+
+/**
+ * Output of the `twitter` workflow
+ */
+export interface TwitterMonitoringPostsWorkflowOutput {
+  tweets: any[];
+}
+
 // Extended output type for internal use that includes the socket
 interface ExtendedTwitterOutput extends TwitterMonitoringPostsWorkflowOutput {
-  socket?: Socket;
+  socket?: PocketFlowConnection;
 }
 
 /**
@@ -46,27 +62,16 @@ export interface TwitterAnalysisOptions {
 export async function runTwitterAnalysis(
   options: TwitterAnalysisOptions
 ): Promise<ExtendedTwitterOutput> {
-  let socket: any = null;
+  let socket: PocketFlowConnection | undefined;
   const authToken = options.authToken || process.env.POCKETFLOW_API_KEY;
   const saveResults =
     options.saveResults !== undefined ? options.saveResults : true;
   const verbose = options.verbose !== undefined ? options.verbose : false;
 
-  // Suppress debug logs by intercepting console.log
-  // This is a workaround to avoid debug logs without changing environment variables
-  const originalConsoleLog = console.log;
-  if (!verbose) {
-    console.log = function (...args) {
-      // Only show logs that don't start with "DEBUG:" or "=== DEBUG:" prefix
-      const firstArg = args[0];
-      if (typeof firstArg === "string") {
-        if (firstArg.includes("DEBUG:") || firstArg.includes("=== DEBUG:")) {
-          return; // Suppress debug logs
-        }
-      }
-      originalConsoleLog.apply(console, args);
-    };
-  }
+  // Only show the SDK's diagnostics in verbose mode
+  const logger = verbose
+    ? createConsoleLogger({ level: "debug" })
+    : createSilentLogger();
 
   try {
     // Only log the start message
@@ -98,15 +103,13 @@ export async function runTwitterAnalysis(
       );
     }
 
-    // Import runWorkflow
-    const { runWorkflow } = await import("../../src/socket/workflow");
-
     // Create a shared result reference we can update from the stream output handler
     const sharedResult: TwitterMonitoringPostsWorkflowOutput = { tweets: [] };
 
     // Connect to the socket server - minimize logging in handlers
     socket = await connectSocket(serverUrl, {
       token: authToken,
+      logger,
       handleConnection: () => {}, // No logging for connection
       handleDisconnection: (reason: string) => {}, // No logging for disconnection
       handleLog: (data: any) => {}, // No logging for workflow logs
@@ -118,199 +121,149 @@ export async function runTwitterAnalysis(
       throw new Error("Failed to connect to PocketFlow server");
     }
 
-    // Create a promise to be resolved when the workflow completes
-    return new Promise<ExtendedTwitterOutput>((resolve, reject) => {
-      // Set a flag to track if the workflow has completed
-      let isCompleted = false;
-      let result = { ...sharedResult }; // Use the shared result reference
-
-      // Set a timeout to prevent the workflow from running indefinitely
-      const timeoutId = setTimeout(() => {
-        if (!isCompleted) {
-          isCompleted = true;
-          console.error(
-            "Workflow timed out after 5 minutes without completing"
-          );
-          reject(new Error("Workflow timed out after 5 minutes"));
-        }
-      }, 5 * 60 * 1000); // 5 minutes timeout
-
-      // Store the last known tweets from stream events
-      let lastKnownTweets: any[] = [];
-
-      // Define handlers for workflow events - minimize logging
-      const handlers = {
-        // Track tweets from stream events
-        stream_output: (data: any) => {
-          // If this is a node_update, check for tweets
-          if (data.type === "node_update" && data.state) {
-            // If we have tweets, store them
-            if (data.state.tweets && Array.isArray(data.state.tweets)) {
-              if (verbose) {
-                console.log(
-                  `Found ${data.state.tweets.length} tweets in stream_output event`
-                );
-              }
-              lastKnownTweets = data.state.tweets;
-            }
-          }
-        },
+    // Store the last known tweets from stream events
+    let lastKnownTweets: any[] = [];
+
+    // Run the workflow with the handlers
+    if (verbose) {
+      console.log("Running workflow with ID 'twitter'");
+      console.log("Workflow input:", JSON.stringify(input, null, 2));
+    }
 
-        // Handle workflow completion
-        run_complete: (data: any) => {
+    const run = runWorkflow(socket, "twitter", authToken, input, {
+      // Empty handlers for events to prevent default logging
+      handlers: {
+        run_complete: () => {},
+        run_error: () => {},
+        run_start: () => {},
+        run_warning: () => {},
+        node_error: () => {},
+      },
+      prettyLogs: false, // Disable pretty logs
+      verbose: false, // Disable verbose logging
+      logger,
+      // Fail instead of waiting forever if the workflow stops making progress
+      watchdog: {
+        deadline: 5 * 60 * 1000, // 5 minutes for the whole run
+        idleTimeout: 2 * 60 * 1000, // 2 minutes without node output
+      },
+    });
+
+    // Track tweets from stream events
+    run.on("stream_output", (data) => {
+      // If this is a node_update, check for tweets
+      if (data.type === "node_update" && data.state) {
+        // If we have tweets, store them
+        if (data.state.tweets && Array.isArray(data.state.tweets)) {
           if (verbose) {
-            console.log("Workflow completed with data:", data);
-          } else {
-            console.log("✅ Workflow completed successfully!");
+            console.log(
+              `Found ${data.state.tweets.length} tweets in stream_output event`
+            );
           }
-          clearTimeout(timeoutId);
+          lastKnownTweets = data.state.tweets;
+        }
+      }
+    });
 
-          // Extract tweets from the final state
-          let tweetsData: any[] = [];
+    // Wait for the workflow to complete; the watchdog bounds the wait
+    const data = await run.result;
 
-          try {
-            // Check for output first (new consolidated event format)
-            if (data.output && Array.isArray(data.output.tweets)) {
-              tweetsData = data.output.tweets;
-              console.log(`Found ${tweetsData.length} tweets in output.tweets`);
-            }
-            // Try direct output if it's an array
-            else if (data.output && Array.isArray(data.output)) {
-              tweetsData = data.output;
-              console.log(`Found ${tweetsData.length} tweets in output array`);
-            }
-            // Fallback to checking state (for backwards compatibility)
-            else if (data && data.state) {
-              if (typeof data.state === "object" && data.state.tweets) {
-                // If data.state is an object with tweets property
-                tweetsData = data.state.tweets;
-                console.log(`Found ${tweetsData.length} tweets in results`);
-              } else if (
-                typeof data.state === "object" &&
-                Array.isArray(data.state)
-              ) {
-                // If data.state is an array
-                tweetsData = data.state;
-                console.log(
-                  `Found ${tweetsData.length} tweets in results (array)`
-                );
-              }
-            }
-            // Fall back to the captured data from stream_output events
-            else if (lastKnownTweets.length > 0) {
-              console.log(
-                `Falling back to captured ${lastKnownTweets.length} tweets from stream_output events`
-              );
-              tweetsData = lastKnownTweets;
-            }
-
-            // Update the shared result with the extracted tweets
-            if (tweetsData && tweetsData.length > 0) {
-              sharedResult.tweets = tweetsData;
-
-              console.log("\n📊 Analysis Results:");
-              console.log(`Found ${tweetsData.length} relevant tweets:`);
-              // Only log the first 3 tweets to reduce output
-              const displayLimit = Math.min(3, tweetsData.length);
-              tweetsData.slice(0, displayLimit).forEach((tweet, index) => {
-                console.log(`\nTweet #${index + 1}:`);
-                console.log(
-                  `Text: ${tweet.text || tweet.content || tweet.title}`
-                );
-                console.log(
-                  `User: ${tweet.username || tweet.author || "Unknown"}`
-                );
-                console.log(`Score: ${tweet.score || "N/A"}`);
-                if (tweet.reason) console.log(`Reason: ${tweet.reason}`);
-                console.log(`URL: ${tweet.url || "N/A"}`);
-              });
-
-              if (tweetsData.length > displayLimit) {
-                console.log(
-                  `\n... and ${tweetsData.length - displayLimit} more tweets`
-                );
-              }
-
-              // Generate and save HTML report if requested
-              if (saveResults) {
-                try {
-                  console.log("\n📝 Generating HTML report...");
-
-                  // Extract query from input or data
-                  const query =
-                    (input as any).query ||
-                    (typeof data.state === "object" && data.state.query) ||
-                    input.prompt ||
-                    "Twitter analysis";
-
-                  // Generate HTML report using the template utility
-                  const htmlContent = generateHtmlReport({
-                    prompt: input.prompt || "AI assistants for developers",
-                    project_description:
-                      input.project_description || "Twitter analysis",
-                    limit: input.limit || 10,
-                    query: query,
-                    tweets: tweetsData,
-                    success: true,
-                  });
-
-                  // Save the HTML report
-                  const reportPath = saveHtmlReport(htmlContent);
-                  console.log(`📊 Report saved to: ${reportPath}`);
-                } catch (reportError) {
-                  console.error("Error generating HTML report:", reportError);
-                }
-              }
-            }
-          } catch (error) {
-            console.error("Error extracting tweets from final state:", error);
-          }
+    if (verbose) {
+      console.log("Workflow completed with data:", data);
+    } else {
+      console.log("✅ Workflow completed successfully!");
+    }
 
-          if (!isCompleted) {
-            isCompleted = true;
-            // Resolve with the results
-            resolve({ ...sharedResult, socket });
+    // Extract tweets from the final state
+    let tweetsData: any[] = [];
 
-            // Just disconnect without logging
-            if (socket && typeof socket.disconnect === "function") {
-              socket.disconnect();
-            }
-          }
-        },
-        run_error: (error: any) => {
-          console.error("❌ Error:", error.message);
-          clearTimeout(timeoutId);
-          if (!isCompleted) {
-            isCompleted = true;
-
-            // Disconnect socket without logging
-            if (socket && typeof socket.disconnect === "function") {
-              socket.disconnect();
-            }
-
-            reject(new Error(error.message || "Workflow execution failed"));
+    try {
+      // Check for output first (new consolidated event format)
+      if (data.output && Array.isArray(data.output.tweets)) {
+        tweetsData = data.output.tweets;
+        console.log(`Found ${tweetsData.length} tweets in output.tweets`);
+      }
+      // Try direct output if it's an array
+      else if (data.output && Array.isArray(data.output)) {
+        tweetsData = data.output;
+        console.log(`Found ${tweetsData.length} tweets in output array`);
+      }
+      // Fallback to checking state (for backwards compatibility)
+      else if (Array.isArray(data.state.tweets)) {
+        tweetsData = data.state.tweets;
+        console.log(`Found ${tweetsData.length} tweets in results`);
+      }
+      // Fall back to the captured data from stream_output events
+      else if (lastKnownTweets.length > 0) {
+        console.log(
+          `Falling back to captured ${lastKnownTweets.length} tweets from stream_output events`
+        );
+        tweetsData = lastKnownTweets;
+      }
+
+      // Update the shared result with the extracted tweets
+      if (tweetsData && tweetsData.length > 0) {
+        sharedResult.tweets = tweetsData;
+
+        console.log("\n📊 Analysis Results:");
+        console.log(`Found ${tweetsData.length} relevant tweets:`);
+        // Only log the first 3 tweets to reduce output
+        const displayLimit = Math.min(3, tweetsData.length);
+        tweetsData.slice(0, displayLimit).forEach((tweet, index) => {
+          console.log(`\nTweet #${index + 1}:`);
+          console.log(
+            `Text: ${tweet.text || tweet.content || tweet.title}`
+          );
+          console.log(
+            `User: ${tweet.username || tweet.author || "Unknown"}`
+          );
+          console.log(`Score: ${tweet.score || "N/A"}`);
+          if (tweet.reason) console.log(`Reason: ${tweet.reason}`);
+          console.log(`URL: ${tweet.url || "N/A"}`);
+        });
+
+        if (tweetsData.length > displayLimit) {
+          console.log(
+            `\n... and ${tweetsData.length - displayLimit} more tweets`
+          );
+        }
+
+        // Generate and save HTML report if requested
+        if (saveResults) {
+          try {
+            console.log("\n📝 Generating HTML report...");
+
+            // Extract query from input or data
+            const query =
+              (input as any).query ||
+              (typeof data.state.query === "string" && data.state.query) ||
+              input.prompt ||
+              "Twitter analysis";
+
+            // Generate HTML report using the template utility
+            const htmlContent = generateHtmlReport({
+              prompt: input.prompt || "AI assistants for developers",
+              project_description:
+                input.project_description || "Twitter analysis",
+              limit: input.limit || 10,
+              query: query,
+              tweets: tweetsData,
+              success: true,
+            });
+
+            // Save the HTML report
+            const reportPath = saveHtmlReport(htmlContent);
+            console.log(`📊 Report saved to: ${reportPath}`);
+          } catch (reportError) {
+            console.error("Error generating HTML report:", reportError);
           }
-        },
-        // Empty handlers for other events to prevent default logging
-        handleLog: (data: any) => {},
-        handleStreamOutput: (data: any) => {},
-        run_start: (data: any) => {},
-        run_warning: (data: any) => {},
-        node_error: (data: any) => {},
-      };
-
-      // Run the workflow with the handlers
-      if (verbose) {
-        console.log("Running workflow with ID 'twitter'");
-        console.log("Workflow input:", JSON.stringify(input, null, 2));
+        }
       }
+    } catch (error) {
+      console.error("Error extracting tweets from final state:", error);
+    }
 
-      runWorkflow(socket, "twitter", authToken, input, {
-        handlers,
-        prettyLogs: false, // Disable pretty logs
-        verbose: false, // Disable verbose logging
-      });
-    });
+    return { ...sharedResult, socket };
   } catch (error) {
     console.error(
       "❌ Error running Twitter analysis:",
@@ -323,9 +276,6 @@ export async function runTwitterAnalysis(
     }
 
     throw error; // Re-throw the error for the caller to handle
-  } finally {
-    // Restore the original console.log function
-    console.log = originalConsoleLog;
   }
 }
 
@@ -333,7 +283,7 @@ export async function runTwitterAnalysis(
  * Main function to run the example
  */
 async function main() {
-  let socket: any = null;
+  let socket: PocketFlowConnection | undefined;
 
   try {
     console.log("🔄 Starting Twitter analysis example...");
@@ -352,23 +302,13 @@ async function main() {
       `Using server URL: ${serverUrl || "https://api.pocketflow.ai"}`
     );
 
-    // Set a timeout to ensure the example doesn't run indefinitely
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error("Workflow timed out after 5 minutes"));
-      }, 5 * 60 * 1000); // 5 minutes timeout
+    // Run the analysis; the run's watchdog keeps it from running indefinitely
+    console.log("Running Twitter analysis...");
+    const result: ExtendedTwitterOutput = await runTwitterAnalysis({
+      authToken: apiKey,
+      saveResults: true,
     });
 
-    // Run the analysis with a timeout
-    console.log("Running Twitter analysis with timeout...");
-    const result = await Promise.race<ExtendedTwitterOutput>([
-      runTwitterAnalysis({
-        authToken: apiKey,
-        saveResults: true,
-      }),
-      timeoutPromise,
-    ]);
-
     // Save the socket for later disconnection
     socket = result.socket;
     delete result.socket; // Remove socket from result to avoid circular references
@@ -383,11 +323,10 @@ async function main() {
       console.log("No tweets were returned from the workflow.");
     }
 
-    // Socket should already be disconnected by the completion handlers
-    // No need to disconnect here, but let's check to be sure
-    if (socket && typeof socket.disconnect === "function" && socket.connected) {
-      console.log("Socket still connected, disconnecting now...");
-      socket.disconnect();
+    // The socket stays open after the run so it can be reused; close it now
+    if (socket) {
+      console.log("Disconnecting socket...");
+      await socket.close();
     } else {
       console.log("Socket already disconnected or not available.");
     }
@@ -418,10 +357,8 @@ async function main() {
     if (socket) {
       console.log("Disconnecting socket before exiting due to error...");
       try {
-        if (typeof socket.disconnect === "function") {
-          socket.disconnect();
-          console.log("Socket disconnected successfully");
-        }
+        await socket.close({ drain: false });
+        console.log("Socket disconnected successfully");
       } catch (disconnectError) {
         console.error("Error disconnecting socket:", disconnectError);
       }
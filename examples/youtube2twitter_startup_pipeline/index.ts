@@ -9,19 +9,41 @@
  */
 
 import * as dotenv from "dotenv";
-import { runTwitterMonitoringPostsWorkflow } from "../../src/flows/twitter";
-import { runYoutubeSummarizerWorkflow } from "../../src/flows/youtube_summarizer";
+import { PocketFlowConnection } from "../../src/socket/connection";
+import { runWorkflow } from "../../src/socket/workflow";
 import { extractStartupIdeas } from "./anthropic-utils";
 import { generateHtmlReport, saveHtmlReport } from "./template-utils";
 
-// Custom wrapper for YouTube summarizer workflow to handle consolidated events
+/**
+ * Input of the `youtube_summarizer` workflow
+ */
+interface YoutubeSummarizerInput {
+  videoUrl: string;
+  summaryLength: string;
+}
+
+/**
+ * Input of the `twitter` workflow
+ */
+interface TwitterMonitoringInput {
+  prompt: string;
+  project_description: string;
+  limit: number;
+  min_likes: number;
+  min_retweets: number;
+}
+
+// Fail a run instead of waiting forever once it stops making progress
+const watchdog = {
+  deadline: 5 * 60 * 1000, // 5 minutes for the whole run
+  idleTimeout: 2 * 60 * 1000, // 2 minutes without node output
+};
+
+// Run the YouTube summarizer, falling back to the data seen in stream events
 async function runYoutubeSummarizerWithFallback(
-  input: {
-    videoUrl: string;
-    summaryLength: string;
-  },
+  input: YoutubeSummarizerInput,
   authToken: string,
-  socket: any
+  connection: PocketFlowConnection
 ): Promise<{
   summary: string;
   keyPoints: any[];
@@ -31,95 +53,40 @@ async function runYoutubeSummarizerWithFallback(
   let lastKnownSummary: string | undefined;
   let lastKnownKeyPoints: any[] = [];
   let lastKnownMetadata: Record<string, any> = {};
-  let completionPromise: Promise<any>;
-
-  // Create a promise to handle the workflow result
-  const runCompletePromise = new Promise((resolve, reject) => {
-    // Add our own event handlers on top of the socket
-    const originalOn = socket.on.bind(socket);
-    socket.on = function (
-      eventName: string,
-      callback: (...args: any[]) => void
-    ) {
-      if (eventName === "stream_output") {
-        originalOn(eventName, (data: any) => {
-          // Track summary and key points from stream events
-          if (data.type === "node_update" && data.state) {
-            if (data.state.summary) {
-              console.log("Found summary in stream_output event");
-              lastKnownSummary = data.state.summary;
-            }
-            if (data.state.keyPoints) {
-              console.log("Found keyPoints in stream_output event");
-              lastKnownKeyPoints = data.state.keyPoints;
-            }
-            if (data.state.metadata) {
-              console.log("Found metadata in stream_output event");
-              lastKnownMetadata = data.state.metadata;
-            }
-          }
-          callback(data);
-        });
-      } else if (eventName === "run_complete") {
-        originalOn(eventName, (data: any) => {
-          console.log(
-            "Received run_complete event. Data has output:",
-            !!data.output
-          );
 
-          // Check if output field exists in run_complete event
-          if (data.output) {
-            if (data.output.summary) {
-              console.log("Found summary in run_complete output");
-              lastKnownSummary = data.output.summary;
-            }
-            if (data.output.keyPoints) {
-              console.log("Found keyPoints in run_complete output");
-              lastKnownKeyPoints = data.output.keyPoints;
-            }
-            if (data.output.metadata) {
-              console.log("Found metadata in run_complete output");
-              lastKnownMetadata = data.output.metadata;
-            }
-          }
-
-          callback(data);
-
-          // Resolve with whatever data we have at this point
-          resolve({
-            summary: lastKnownSummary || "",
-            keyPoints: lastKnownKeyPoints,
-            metadata: lastKnownMetadata,
-          });
-        });
-      } else if (eventName === "run_error") {
-        originalOn(eventName, (data: any) => {
-          callback(data);
-          reject(new Error(data.message || "Workflow execution failed"));
-        });
-      } else {
-        originalOn(eventName, callback);
-      }
-      return this;
-    };
+  const run = runWorkflow(connection, "youtube_summarizer", authToken, input, {
+    watchdog,
   });
 
-  // Call the original function and wait for the run_complete event
-  const runPromise = runYoutubeSummarizerWorkflow(input, authToken, socket);
+  // Track summary and key points from stream events
+  run.on("stream_output", (data) => {
+    if (data.type === "node_update" && data.state) {
+      if (data.state.summary) {
+        console.log("Found summary in stream_output event");
+        lastKnownSummary = data.state.summary;
+      }
+      if (data.state.keyPoints) {
+        console.log("Found keyPoints in stream_output event");
+        lastKnownKeyPoints = data.state.keyPoints;
+      }
+      if (data.state.metadata) {
+        console.log("Found metadata in stream_output event");
+        lastKnownMetadata = data.state.metadata;
+      }
+    }
+  });
 
   try {
-    // Wait for either the workflow result or our own run_complete handler
-    const result = (await Promise.race([runPromise, runCompletePromise])) as {
-      summary?: string;
-      keyPoints?: any[];
-      metadata?: Record<string, any>;
-    };
+    const { output, state } = await run.result;
+    console.log("Workflow completed. Result has output:", !!output);
+
+    // Prefer the consolidated output, then the final state
+    const result: Record<string, any> = output || state;
 
-    // Build the final result with fallbacks
     return {
       summary: result.summary || lastKnownSummary || "",
-      keyPoints: result.keyPoints || lastKnownKeyPoints || [],
-      metadata: result.metadata || lastKnownMetadata || {},
+      keyPoints: result.keyPoints || lastKnownKeyPoints,
+      metadata: result.metadata || lastKnownMetadata,
     };
   } catch (error) {
     console.error("Error in YouTube summarizer workflow:", error);
@@ -135,8 +102,8 @@ async function runYoutubeSummarizerWithFallback(
       );
       return {
         summary: lastKnownSummary || "",
-        keyPoints: lastKnownKeyPoints || [],
-        metadata: lastKnownMetadata || {},
+        keyPoints: lastKnownKeyPoints,
+        metadata: lastKnownMetadata,
       };
     }
 
@@ -144,95 +111,42 @@ async function runYoutubeSummarizerWithFallback(
   }
 }
 
-// Custom wrapper for Twitter monitoring workflow to handle consolidated events
+// Run the Twitter monitoring workflow, falling back to the tweets seen in
+// stream events
 async function runTwitterMonitoringWithFallback(
-  input: any,
+  input: TwitterMonitoringInput,
   authToken: string,
-  socket: any
+  connection: PocketFlowConnection
 ): Promise<{ tweets: any[] }> {
   // Store tweets from stream events
   let lastKnownTweets: any[] = [];
 
-  // Create a promise to handle the workflow result
-  const runCompletePromise = new Promise<{ tweets: any[] }>(
-    (resolve, reject) => {
-      // Add our own event handlers on top of the socket
-      const originalOn = socket.on.bind(socket);
-      socket.on = function (
-        eventName: string,
-        callback: (...args: any[]) => void
-      ) {
-        if (eventName === "stream_output") {
-          originalOn(eventName, (data: any) => {
-            // Track tweets from stream events
-            if (
-              data.type === "node_update" &&
-              data.state &&
-              data.state.tweets &&
-              Array.isArray(data.state.tweets)
-            ) {
-              console.log(
-                `Found ${data.state.tweets.length} tweets in stream_output event`
-              );
-              lastKnownTweets = data.state.tweets;
-            }
-            callback(data);
-          });
-        } else if (eventName === "run_complete") {
-          originalOn(eventName, (data: any) => {
-            console.log(
-              "Received run_complete event. Data has output:",
-              !!data.output
-            );
-
-            // Check if output field exists in run_complete event
-            if (
-              data.output &&
-              data.output.tweets &&
-              Array.isArray(data.output.tweets)
-            ) {
-              console.log(
-                `Found ${data.output.tweets.length} tweets in run_complete output`
-              );
-              lastKnownTweets = data.output.tweets;
-            }
-
-            callback(data);
-
-            // Resolve with whatever data we have at this point
-            resolve({
-              tweets: lastKnownTweets || [],
-            });
-          });
-        } else if (eventName === "run_error") {
-          originalOn(eventName, (data: any) => {
-            callback(data);
-            reject(new Error(data.message || "Workflow execution failed"));
-          });
-        } else {
-          originalOn(eventName, callback);
-        }
-        return this;
-      };
-    }
-  );
+  const run = runWorkflow(connection, "twitter", authToken, input, {
+    watchdog,
+  });
 
-  // Call the original function and wait for the run_complete event
-  const runPromise = runTwitterMonitoringPostsWorkflow(
-    input,
-    authToken,
-    socket
-  );
+  // Track tweets from stream events
+  run.on("stream_output", (data) => {
+    if (
+      data.type === "node_update" &&
+      data.state &&
+      Array.isArray(data.state.tweets)
+    ) {
+      console.log(
+        `Found ${data.state.tweets.length} tweets in stream_output event`
+      );
+      lastKnownTweets = data.state.tweets;
+    }
+  });
 
   try {
-    // Wait for either the workflow result or our own run_complete handler
-    const result = (await Promise.race([runPromise, runCompletePromise])) as {
-      tweets?: any[];
-    };
+    const { output, state } = await run.result;
+    console.log("Workflow completed. Result has output:", !!output);
 
-    // Build the final result with fallbacks
+    // Prefer the consolidated output, then the final state
+    const tweets = (output && output.tweets) || state.tweets;
     return {
-      tweets: result.tweets || lastKnownTweets || [],
+      tweets: Array.isArray(tweets) ? tweets : lastKnownTweets,
     };
   } catch (error) {
     console.error("Error in Twitter monitoring workflow:", error);
@@ -378,11 +292,8 @@ export async function runYouTubeToTwitterPipeline(
       );
     } finally {
       // Clean up YouTube socket
-      if (youtubeSocket?.disconnect) {
-        if (verbose)
-          console.log("🔌 Disconnecting YouTube socket connection...");
-        youtubeSocket.disconnect();
-      }
+      if (verbose) console.log("🔌 Closing YouTube socket connection...");
+      await youtubeSocket.close();
     }
 
     console.log("SUMMARY RESULT RECEIVED:");
@@ -483,11 +394,9 @@ export async function runYouTubeToTwitterPipeline(
           );
         } finally {
           // Clean up Twitter socket
-          if (twitterSocket?.disconnect) {
-            if (verbose)
-              console.log("🔌 Disconnecting Twitter socket connection...");
-            twitterSocket.disconnect();
-          }
+          if (verbose)
+            console.log("🔌 Closing Twitter socket connection...");
+          await twitterSocket.close();
         }
 
         // Add the idea with tweets to the result array
@@ -0,0 +1,70 @@
+/**
+ * AbortSignal helpers shared by the HTTP client and the socket modules
+ */
+
+/**
+ * Error thrown or used to reject when an operation is aborted through an AbortSignal
+ */
+export class AbortError extends Error {
+  constructor(
+    message: string = "The operation was aborted",
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = "AbortError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+/**
+ * Create the AbortError for an aborted signal, keeping the abort reason as its cause
+ * @param signal The aborted signal
+ * @returns The error to throw or reject with
+ */
+export const abortErrorFrom = (signal: AbortSignal): AbortError => {
+  const reason = signal.reason;
+
+  if (reason instanceof AbortError) {
+    return reason;
+  }
+
+  if (typeof reason === "string") {
+    return new AbortError(`The operation was aborted: ${reason}`);
+  }
+
+  return new AbortError(
+    "The operation was aborted",
+    reason instanceof Error ? reason : undefined
+  );
+};
+
+/**
+ * Throw an AbortError if the given signal has already been aborted
+ * @param signal Optional signal to check
+ * @throws {AbortError} If the signal is aborted
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw abortErrorFrom(signal);
+  }
+};
+
+/**
+ * Run a callback once when the given signal aborts
+ * @param signal Optional signal to listen to
+ * @param listener Function to call when the signal aborts
+ * @returns A function that removes the listener
+ */
+export const onAbort = (
+  signal: AbortSignal | undefined,
+  listener: () => void
+): (() => void) => {
+  if (!signal) {
+    return () => {};
+  }
+
+  signal.addEventListener("abort", listener, { once: true });
+  return () => signal.removeEventListener("abort", listener);
+};
@@ -1,4 +1,5 @@
 import { WorkflowDetail } from "../http/client";
+import { Logger } from "../logger";
 import { YamlFlow } from "./types";
 import {
   parseYamlFlow,
@@ -29,14 +30,16 @@ export function generateFunctionName(workflowName: string): string {
  * Generate TypeScript code for a workflow wrapper function
  * @param workflow The workflow detail from the API
  * @param yamlSchema The YAML schema content
+ * @param logger Logger for parsing diagnostics (default: the SDK default logger)
  * @returns The generated TypeScript code
  */
 export function generateWorkflowCode(
   workflow: WorkflowDetail,
-  yamlSchema: string
+  yamlSchema: string,
+  logger?: Logger
 ): string {
   try {
-    const flow = parseYamlFlow(yamlSchema);
+    const flow = parseYamlFlow(yamlSchema, logger);
     const functionName = generateFunctionName(workflow.name);
     const inputTypes = extractInputTypes(flow);
     const outputTypes = extractOutputTypes(flow);
@@ -75,12 +78,18 @@ export function generateWorkflowCode(
  * @param input The input parameters for the workflow
  * @param authToken Authentication token for the workflow
  * @param socket Optional socket instance (if not provided, a new connection will be created)
+ * @param options Optional settings: onRun to receive the run handle, signal to abort the run, watchdog to limit stalls, retry to start failed runs again
  * @returns A promise that resolves with the workflow output
+ * @throws {WorkflowRunError} If the server reports a workflow error
+ * @throws {WorkflowCancelledError} If the run is cancelled before it completes
+ * @throws {WorkflowStalledError} If the run exceeds a watchdog limit
+ * @throws {AbortError} If the signal is aborted
  */
 export async function ${functionName}(
   input: ${inputInterfaceName},
   authToken: string,
-  socket?: any
+  socket?: any,
+  options: WorkflowCallOptions = {}
 ): Promise<${outputInterfaceName}> {
   // If socket is not provided, we'll need to create a connection
   const isInternalSocket = !socket;
@@ -90,31 +99,17 @@ export async function ${functionName}(
     if (isInternalSocket) {
       // Import here to avoid circular dependencies
       const { connectSocket } = await import('../socket/connect');
-      socketInstance = await connectSocket(process.env.POCKETFLOW_SERVER_URL || "api.pocketflow.ai", { token: authToken });
+      socketInstance = await connectSocket(process.env.POCKETFLOW_SERVER_URL || "api.pocketflow.ai", { token: authToken, signal: options.signal });
     }
 
     // Import runWorkflow
     const { runWorkflow } = await import('../socket/workflow');
 
-    // Create a promise to handle the workflow result
-    return new Promise((resolve, reject) => {
-      try {
-        // Setup handlers
-        const handlers = {
-          run_complete: (data: any) => {
-            resolve(data.state as ${outputInterfaceName});
-          },
-          run_error: (error: any) => {
-            reject(new Error(error.message || 'Workflow execution failed'));
-          }
-        };
-
-        // Run the workflow
-        runWorkflow(socketInstance, '${workflow.id}', authToken, input, { handlers });
-      } catch (error) {
-        reject(error);
-      }
-    });
+    // Run the workflow and wait for it to complete
+    const run = runWorkflow(socketInstance, '${workflow.id}', authToken, input, { signal: options.signal, watchdog: options.watchdog, retry: options.retry });
+    options.onRun?.(run);
+    const { state } = await run.result;
+    return state as unknown as ${outputInterfaceName};
   } finally {
     // Clean up if we created the socket internally
     if (isInternalSocket && socketInstance?.disconnect) {
@@ -124,7 +119,7 @@ export async function ${functionName}(
 }`;
 
     // Combine all the code
-    return `import { Socket } from 'socket.io-client';\n\n${inputInterface}${outputInterface}${functionCode}\n`;
+    return `import { Socket } from 'socket.io-client';\nimport { WorkflowCallOptions } from '../socket/workflow';\n\n${inputInterface}${outputInterface}${functionCode}\n`;
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to generate workflow code: ${error.message}`);
@@ -1,9 +1,11 @@
 import {
   ApiAuth,
+  DEFAULT_SERVER_URL,
   listWorkflows,
   getWorkflowDetail,
   NotFoundError,
 } from "../index";
+import { createConsoleLogger } from "../logger";
 import { CliOptions } from "./types";
 import {
   generateWorkflowCode,
@@ -22,11 +24,14 @@ import env from "../env";
 export async function generateWorkflowTypes(
   options: CliOptions
 ): Promise<void> {
-  const { auth, outDir, verbose } = options;
+  const { auth, outDir, verbose, signal } = options;
+
+  // SDK diagnostics are only shown in verbose mode
+  const logger = createConsoleLogger({ level: verbose ? "debug" : "warn" });
 
   // Get auth from environment variables if not provided in options
   const apiKey = auth.apiKey || env.API_KEY;
-  const serverUrl = env.SERVER_URL || "http://localhost:8080";
+  const serverUrl = env.SERVER_URL || DEFAULT_SERVER_URL;
 
   // Validate auth
   if (!apiKey) {
@@ -65,6 +70,8 @@ export async function generateWorkflowTypes(
     const workflowsResponse = await listWorkflows({
       apiKey,
       verbose,
+      signal,
+      logger,
     });
     const workflows = workflowsResponse.workflows;
 
@@ -102,6 +109,8 @@ export async function generateWorkflowTypes(
           {
             apiKey,
             verbose,
+            signal,
+            logger,
           },
           workflow.id
         );
@@ -146,7 +155,11 @@ export async function generateWorkflowTypes(
         }
 
         // Generate TypeScript code
-        const code = generateWorkflowCode(workflowToUse, yamlContent);
+        const code = generateWorkflowCode(
+          workflowToUse,
+          yamlContent,
+          logger
+        );
 
         // Save the generated code
         const fileName = `${workflow.id}.ts`;
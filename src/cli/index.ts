@@ -5,7 +5,11 @@ import env from "../env";
 
 import { Command } from "commander";
 import { generateWorkflowTypes } from "./generate";
+import { runWorkflowCommand } from "./run";
 import { CliOptions } from "./types";
+import { DEFAULT_SERVER_URL } from "../http/client";
+import { setFeedbackPrompt } from "../handlers/defaultHandlers";
+import { terminalFeedbackPrompt } from "../node/feedback-prompt";
 import axios from "axios";
 
 // Define the CLI options interface
@@ -16,6 +20,9 @@ interface CommandOptions {
   debug?: boolean;
 }
 
+// Feedback requests that no recorded answer covers are asked in the terminal
+setFeedbackPrompt(terminalFeedbackPrompt);
+
 // Create CLI program
 const program = new Command();
 
@@ -36,7 +43,7 @@ program
   .action(async (options: { apiKey?: string; verbose: boolean }) => {
     try {
       const apiKey = options.apiKey || env.API_KEY;
-      const serverUrl = env.SERVER_URL || "https://api.pocketflow.ai";
+      const serverUrl = env.SERVER_URL || DEFAULT_SERVER_URL;
 
       console.log(`Testing connection to server: ${serverUrl}`);
 
@@ -191,14 +198,94 @@ Usage examples:
     }
   });
 
+// Add run command
+program
+  .command("run <workflowId>")
+  .description("Run a workflow and print its output")
+  .option(
+    "-k, --api-key <key>",
+    "PocketFlow API key (or use POCKETFLOW_API_KEY in env vars or .env file)"
+  )
+  .option("-i, --input <json>", "Workflow input as a JSON object")
+  .option(
+    "-a, --answers <file>",
+    "YAML or JSON file with answers to the workflow's feedback requests"
+  )
+  .option(
+    "-r, --record <file>",
+    "Append every event of the run to a JSON-lines file, with secrets masked"
+  )
+  .option(
+    "-t, --trace <file>",
+    "Append trace spans for the run, its nodes and the API requests to a JSON-lines file"
+  )
+  .option("-v, --verbose", "Enable verbose output", false)
+  .addHelpText(
+    "after",
+    `
+Example answers file:
+  fallback: fail        # How to answer requests without an answer: ask, defaults or fail
+  answers:
+    - prompt: "Publish the draft?"
+      answer: true
+    - match: "^Pick a tone"
+      answer: "2"
+    - requestId: "review-1"
+      answer: "Looks good"
+
+Usage examples:
+  $ pocketflow run my-workflow --input '{"topic": "AI"}'
+  $ pocketflow run my-workflow --input '{"topic": "AI"}' --answers answers.yaml
+  $ pocketflow run my-workflow --input '{"topic": "AI"}' --record run.jsonl
+  $ pocketflow run my-workflow --input '{"topic": "AI"}' --trace spans.jsonl
+  `
+  )
+  .action(
+    async (
+      workflowId: string,
+      options: {
+        apiKey?: string;
+        input?: string;
+        answers?: string;
+        record?: string;
+        trace?: string;
+        verbose: boolean;
+      }
+    ) => {
+      try {
+        await runWorkflowCommand({
+          auth: {
+            apiKey: options.apiKey || env.API_KEY,
+          },
+          workflowId,
+          input: options.input,
+          answers: options.answers,
+          record: options.record,
+          trace: options.trace,
+          verbose: Boolean(options.verbose),
+        });
+      } catch (error) {
+        console.error(
+          error instanceof Error
+            ? `Error: ${error.message}`
+            : "An unknown error occurred"
+        );
+        process.exit(1);
+      }
+    }
+  );
+
 // Only execute CLI commands when this module is run directly, not when imported
 if (require.main === module) {
   // If no command is specified, default to "generate"
-  if (process.argv.length <= 2 || !process.argv[2].startsWith("-")) {
-    // Insert the "generate" command if it's not present
-    if (process.argv.length <= 2 || process.argv[2] !== "generate") {
-      process.argv.splice(2, 0, "generate");
-    }
+  const commandNames = program.commands.map((command) => command.name());
+  const firstArg = process.argv[2];
+  if (
+    !firstArg ||
+    (!commandNames.includes(firstArg) &&
+      !["help", "-h", "--help", "-V", "--version"].includes(firstArg))
+  ) {
+    process.argv.splice(2, 0, "generate");
   }
 
   // Parse arguments
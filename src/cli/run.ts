@@ -0,0 +1,148 @@
+import { PocketFlowClient } from "../client";
+import { createJsonLogger } from "../logger";
+import {
+  createAnswersFeedbackHandler,
+  formatFeedbackAnswersReport,
+} from "../feedback-answers";
+import { loadFeedbackAnswers } from "../node/answers-file";
+import { createFileRecorder } from "../node/recording-file";
+import { createFileSpanExporter } from "../node/trace-file";
+import { createTracer } from "../tracing";
+import { EventHandlers } from "../socket/workflow";
+import env from "../env";
+
+/**
+ * Options for running a workflow from the CLI
+ */
+export interface RunCommandOptions {
+  auth: {
+    apiKey?: string;
+  };
+  workflowId: string;
+
+  /**
+   * Workflow input as a JSON string
+   */
+  input?: string;
+
+  /**
+   * Path to a YAML or JSON file with recorded feedback answers
+   */
+  answers?: string;
+
+  /**
+   * Path to a JSON-lines file that the run's events are appended to
+   */
+  record?: string;
+
+  /**
+   * Path to a JSON-lines file that the trace spans of the run are appended to
+   */
+  trace?: string;
+  verbose: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run event handlers that print nothing, since stdout only carries the
+ * result. Failures still reach the command through the run's result.
+ */
+const silentRunHandlers: EventHandlers = {
+  run_error: () => {},
+  run_warning: () => {},
+  run_complete: () => {},
+  run_start: () => {},
+  run_cancelled: () => {},
+  stream_output: () => {},
+  node_error: () => {},
+  workflow_received: () => {},
+  workflow_error: () => {},
+};
+
+/**
+ * Run a workflow and print its output as JSON. Nothing else is written to
+ * stdout, so the output can be piped into other tools; diagnostics and the
+ * feedback answers report go to stderr.
+ * @param options CLI options
+ * @returns The printed result: the run's output, or its final state when the
+ * workflow has no output
+ */
+export async function runWorkflowCommand(
+  options: RunCommandOptions
+): Promise<any> {
+  const { auth, workflowId, verbose, signal } = options;
+
+  // SDK diagnostics are only shown in verbose mode, and never on stdout
+  const logger = createJsonLogger({
+    level: verbose ? "debug" : "warn",
+    write: (line) => console.error(line),
+  });
+
+  const apiKey = auth.apiKey || env.API_KEY;
+  if (!apiKey) {
+    throw new Error(
+      "Authentication required: Please provide an API key via options, the POCKETFLOW_API_KEY environment variable, or a .env file in your current directory"
+    );
+  }
+
+  let input: any = {};
+  if (options.input) {
+    try {
+      input = JSON.parse(options.input);
+    } catch (error) {
+      throw new Error("Invalid input: Expected a JSON object");
+    }
+  }
+
+  const handleFeedback = options.answers
+    ? createAnswersFeedbackHandler(loadFeedbackAnswers(options.answers), {
+        logger,
+      })
+    : undefined;
+
+  const recorder = options.record
+    ? createFileRecorder(options.record)
+    : undefined;
+
+  const spanExporter = options.trace
+    ? createFileSpanExporter(options.trace)
+    : undefined;
+
+  const client = new PocketFlowClient({
+    apiKey,
+    logger,
+    recorder,
+    tracer: spanExporter ? createTracer(spanExporter, { logger }) : undefined,
+    socketOptions: {
+      handleConnection: () => {},
+      handleDisconnection: () => {},
+      handleLog: (data) =>
+        logger.info("Workflow log", { runId: data?.runId, log: data }),
+      handleStreamOutput: (data) => {
+        if (data?.isError) {
+          logger.warn(`Error from node '${data.node}'`, { output: data });
+        }
+      },
+      ...(handleFeedback ? { handleFeedback, feedbackPolicy: "ask" } : {}),
+    },
+  });
+
+  try {
+    const run = await client.runWorkflow(workflowId, input, {
+      signal,
+      handlers: silentRunHandlers,
+    });
+    const result = await run.result;
+
+    const printed = result.output ?? result.state;
+    console.log(JSON.stringify(printed, null, 2));
+    return printed;
+  } finally {
+    client.close();
+    recorder?.close();
+    spanExporter?.close();
+    if (handleFeedback) {
+      console.error(formatFeedbackAnswersReport(handleFeedback.report()));
+    }
+  }
+}
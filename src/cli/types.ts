@@ -50,6 +50,7 @@ export interface CliOptions {
   };
   outDir: string;
   verbose: boolean;
+  signal?: AbortSignal;
 }
 
 /**
@@ -1,16 +1,20 @@
 import * as yaml from "js-yaml";
 import { YamlFlow, YamlFlowParam, YamlStep, YamlStepSuccessor } from "./types";
+import { getDefaultLogger, Logger } from "../logger";
 
 /**
  * Parse YAML content into a YamlFlow object
  * @param yamlContent The YAML content as a string
+ * @param logger Logger for parsing diagnostics (default: the SDK default logger)
  * @returns The parsed YamlFlow object
  */
-export function parseYamlFlow(yamlContent: string): YamlFlow {
+export function parseYamlFlow(
+  yamlContent: string,
+  logger: Logger = getDefaultLogger()
+): YamlFlow {
   try {
-    console.log("Parsing YAML content:", yamlContent);
+    logger.debug("Parsing YAML content", { length: yamlContent.length });
     const parsed = yaml.load(yamlContent) as any;
-    console.log("Parsed YAML:", JSON.stringify(parsed, null, 2));
 
     // Validate the YAML structure
     if (!parsed || typeof parsed !== "object") {
@@ -34,7 +38,7 @@ export function parseYamlFlow(yamlContent: string): YamlFlow {
     }
 
     if (!Array.isArray(parsed.steps)) {
-      console.log("Steps value:", parsed.steps);
+      logger.debug("Invalid steps value", { steps: parsed.steps });
       throw new Error("Invalid YAML: Steps must be an array");
     }
 
@@ -93,7 +97,9 @@ export function parseYamlFlow(yamlContent: string): YamlFlow {
       shared_files: parsed.shared_files,
     } as YamlFlow;
 
-    console.log("Transformed result:", JSON.stringify(result, null, 2));
+    logger.debug(`Parsed YAML flow '${result.name}'`, {
+      steps: result.steps.length,
+    });
     return result;
   } catch (error) {
     if (error instanceof Error) {
@@ -0,0 +1,369 @@
+/**
+ * Client that keeps the configuration for one PocketFlow server in one place
+ */
+
+import { getEnvironmentSettings } from "./settings";
+import {
+  ApiAuth,
+  DEFAULT_SERVER_URL,
+  getWorkflowDetail,
+  listWorkflows,
+  normalizeBaseUrl,
+  WorkflowDetail,
+  WorkflowListParams,
+  WorkflowListResponse,
+} from "./http/client";
+import { connectSocket, SocketConnectionOptions } from "./socket/connect";
+import { PocketFlowConnection } from "./socket/connection";
+import { OutboundDropListener } from "./socket/queue";
+import { RunRecorder } from "./socket/recorder";
+import {
+  runWorkflow,
+  WorkflowError,
+  WorkflowRunnerOptions,
+} from "./socket/workflow";
+import { WorkflowRun } from "./socket/run";
+import { abortErrorFrom, onAbort, throwIfAborted } from "./abort";
+import { getDefaultLogger, Logger } from "./logger";
+import { RedactionOptions } from "./redact";
+import { Credentials } from "./credentials";
+import { Tracer } from "./tracing";
+import { MetricsRegistry } from "./metrics";
+
+/**
+ * Options for creating a PocketFlow client
+ */
+export interface PocketFlowClientOptions {
+  /**
+   * API key used for HTTP requests and socket authentication
+   * (default: POCKETFLOW_API_KEY)
+   */
+  apiKey?: string;
+
+  /**
+   * Provider for the API key or a short-lived token, called before every
+   * HTTP request, socket connection attempt and workflow run. Takes
+   * precedence over `apiKey`. A request or connection the server rejects
+   * is retried once with fresh credentials.
+   */
+  credentials?: Credentials;
+
+  /**
+   * Base URL of the PocketFlow API
+   * (default: POCKETFLOW_SERVER_URL or https://api.pocketflow.ai)
+   */
+  baseUrl?: string;
+
+  /**
+   * URL of the socket server (default: the base URL)
+   */
+  socketUrl?: string;
+
+  /**
+   * HTTP request timeout in milliseconds
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * How long to wait for a socket connection, in milliseconds
+   * @default 10000
+   */
+  connectTimeout?: number;
+
+  /**
+   * Whether to enable verbose logging of HTTP requests
+   * @default false
+   */
+  verbose?: boolean;
+
+  /**
+   * Logger for HTTP requests, the socket and workflow runs
+   * (default: the SDK default logger)
+   */
+  logger?: Logger;
+
+  /**
+   * Extra fields and secrets to mask in logs, errors and printed events.
+   * The API key is always masked.
+   */
+  redact?: RedactionOptions;
+
+  /**
+   * Recorder for the events of every workflow run started through the
+   * client, including the feedback responses sent for them
+   */
+  recorder?: RunRecorder;
+
+  /**
+   * Tracer for spans covering the HTTP requests and workflow runs made
+   * through the client
+   */
+  tracer?: Tracer;
+
+  /**
+   * Registry for the metrics of the HTTP requests, socket and workflow runs
+   * made through the client
+   */
+  metrics?: MetricsRegistry;
+
+  /**
+   * Handlers for the socket that the client opens to run workflows
+   */
+  socketOptions?: Omit<
+    SocketConnectionOptions,
+    "token" | "credentials" | "connectTimeout" | "signal"
+  >;
+}
+
+/**
+ * Options for a single HTTP request made through the client
+ */
+export interface PocketFlowRequestOptions {
+  /**
+   * Signal that cancels the request when aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Client for one PocketFlow server.
+ *
+ * Every client carries its own base URL, socket URL, credentials and
+ * timeouts, so clients for different servers can be used side by side.
+ * Workflow runs started through the client share one socket, which is
+ * opened on the first run and closed by `close()`.
+ */
+export class PocketFlowClient {
+  /**
+   * Base URL of the PocketFlow API, without a trailing slash
+   */
+  public readonly baseUrl: string;
+
+  /**
+   * URL of the socket server
+   */
+  public readonly socketUrl: string;
+
+  /**
+   * Logger used for everything done through this client
+   */
+  public readonly logger: Logger;
+
+  private readonly apiKey?: string;
+  private readonly credentials?: Credentials;
+  private readonly timeout?: number;
+  private readonly connectTimeout?: number;
+  private readonly verbose: boolean;
+  private readonly redact?: RedactionOptions;
+  private readonly recorder?: RunRecorder;
+  private readonly tracer?: Tracer;
+  private readonly metrics?: MetricsRegistry;
+  private readonly socketOptions: PocketFlowClientOptions["socketOptions"];
+  private socket?: PocketFlowConnection;
+  private pendingSocket?: Promise<PocketFlowConnection>;
+  private queueDropListeners = new Set<OutboundDropListener>();
+
+  constructor(options: PocketFlowClientOptions = {}) {
+    const env = getEnvironmentSettings();
+    this.baseUrl = normalizeBaseUrl(
+      options.baseUrl || env.SERVER_URL || DEFAULT_SERVER_URL
+    );
+    this.socketUrl = options.socketUrl || this.baseUrl;
+    this.apiKey = options.apiKey || env.API_KEY;
+    this.credentials = options.credentials || this.apiKey;
+    this.timeout = options.timeout;
+    this.connectTimeout = options.connectTimeout;
+    this.verbose = options.verbose ?? false;
+    this.socketOptions = options.socketOptions;
+    this.logger = options.logger || getDefaultLogger();
+    this.redact = options.redact;
+    this.recorder = options.recorder;
+    this.tracer = options.tracer;
+    this.metrics = options.metrics;
+  }
+
+  /**
+   * Number of run requests and feedback responses waiting for the shared
+   * socket to reconnect
+   */
+  get queueDepth(): number {
+    return this.socket ? this.socket.queueDepth : 0;
+  }
+
+  /**
+   * Listen to run requests and feedback responses that the shared socket
+   * dropped instead of sending, because its queue was full, they waited
+   * too long for a reconnect, or the client was closed
+   * @param listener Function called with every drop
+   * @returns A function that removes the listener
+   */
+  onQueueDrop(listener: OutboundDropListener): () => void {
+    this.queueDropListeners.add(listener);
+    return () => this.queueDropListeners.delete(listener);
+  }
+
+  /**
+   * List the workflows available to this client's API key
+   * @param params Pagination, sorting and search parameters.
+   * @param options Options for the request.
+   * @returns The workflows and pagination metadata
+   */
+  listWorkflows(
+    params?: WorkflowListParams,
+    options: PocketFlowRequestOptions = {}
+  ): Promise<WorkflowListResponse> {
+    return listWorkflows(this.auth(options), params);
+  }
+
+  /**
+   * Get the details of a workflow
+   * @param workflowId The ID of the workflow.
+   * @param options Options for the request.
+   * @returns The workflow details, including its YAML definition
+   */
+  getWorkflowDetail(
+    workflowId: string,
+    options: PocketFlowRequestOptions = {}
+  ): Promise<WorkflowDetail> {
+    return getWorkflowDetail(this.auth(options), workflowId);
+  }
+
+  /**
+   * Open a new connection to this client's socket server. The caller owns the
+   * returned connection and is responsible for closing it.
+   * @param options Options for the connection, which override the client's socket options.
+   * @returns A Promise that resolves with the connection once it is connected
+   * @throws {SocketConnectionError} If the connection fails or times out
+   * @throws {AbortError} If the signal is aborted before the connection is established
+   */
+  connect(
+    options: Omit<SocketConnectionOptions, "token" | "credentials"> = {}
+  ): Promise<PocketFlowConnection> {
+    return connectSocket(this.socketUrl, {
+      connectTimeout: this.connectTimeout,
+      logger: this.logger,
+      redact: this.redact,
+      recorder: this.recorder,
+      metrics: this.metrics,
+      ...this.socketOptions,
+      ...options,
+      credentials: this.credentials,
+    });
+  }
+
+  /**
+   * Run a workflow on the client's shared socket, connecting it first if needed
+   * @param workflowId The ID of the workflow to run.
+   * @param input The input data for the workflow.
+   * @param options Options for the run.
+   * @returns A Promise that resolves with the run handle once the run has been requested
+   * @throws {WorkflowError} If no API key or credentials are configured
+   * @throws {SocketConnectionError} If the socket cannot be connected
+   * @throws {AbortError} If the signal is aborted while connecting
+   */
+  async runWorkflow(
+    workflowId: string,
+    input: any,
+    options: WorkflowRunnerOptions = {}
+  ): Promise<WorkflowRun> {
+    if (!this.credentials) {
+      throw new WorkflowError("Authentication token is required");
+    }
+
+    const socket = await this.sharedSocket(options.signal);
+    return runWorkflow(socket, workflowId, this.credentials, input, {
+      logger: this.logger,
+      redact: this.redact,
+      recorder: this.recorder,
+      tracer: this.tracer,
+      metrics: this.metrics,
+      ...options,
+    });
+  }
+
+  /**
+   * Disconnect the shared socket used for workflow runs. Later runs open a new one.
+   */
+  close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    this.pendingSocket = undefined;
+
+    if (socket) {
+      socket.disconnect();
+    }
+  }
+
+  private auth({ signal }: PocketFlowRequestOptions): ApiAuth {
+    return {
+      apiKey: this.apiKey,
+      credentials: this.credentials,
+      baseUrl: this.baseUrl,
+      timeout: this.timeout,
+      verbose: this.verbose,
+      logger: this.logger,
+      redact: this.redact,
+      tracer: this.tracer,
+      metrics: this.metrics,
+      signal,
+    };
+  }
+
+  private async sharedSocket(
+    signal?: AbortSignal
+  ): Promise<PocketFlowConnection> {
+    throwIfAborted(signal);
+
+    // socket.io keeps reconnecting on its own while the socket is active
+    if (this.socket && (this.socket.connected || this.socket.active)) {
+      return this.socket;
+    }
+
+    // The shared connection outlives any single caller, so it is not tied
+    // to the caller's signal; the caller only stops waiting for it
+    if (!this.pendingSocket) {
+      const pending = this.connect();
+      this.pendingSocket = pending;
+
+      pending.then(
+        (socket) => {
+          if (this.pendingSocket === pending) {
+            this.socket = socket;
+            this.pendingSocket = undefined;
+            socket.onQueueDrop((drop) => {
+              Array.from(this.queueDropListeners).forEach((listener) =>
+                listener(drop)
+              );
+            });
+          } else {
+            // The client was closed while the socket was connecting
+            socket.disconnect();
+          }
+        },
+        () => {
+          if (this.pendingSocket === pending) {
+            this.pendingSocket = undefined;
+          }
+        }
+      );
+    }
+
+    const pending = this.pendingSocket;
+    return new Promise<PocketFlowConnection>((resolve, reject) => {
+      const removeAbortListener = onAbort(signal, () =>
+        reject(abortErrorFrom(signal!))
+      );
+      pending.then(
+        (socket) => {
+          removeAbortListener();
+          resolve(socket);
+        },
+        (error) => {
+          removeAbortListener();
+          reject(error);
+        }
+      );
+    });
+  }
+}
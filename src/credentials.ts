@@ -0,0 +1,64 @@
+/**
+ * Credentials that can change while the SDK is in use
+ */
+
+/**
+ * Why the SDK needs credentials
+ * - `connect`: a socket is connecting for the first time
+ * - `reconnect`: a socket is reconnecting after losing its connection
+ * - `request`: an HTTP request is about to be sent
+ * - `run`: a workflow run is about to be requested
+ */
+export type CredentialsReason = "connect" | "reconnect" | "request" | "run";
+
+/**
+ * Context passed to a credentials provider
+ */
+export interface CredentialsContext {
+  /**
+   * Why the credentials are needed
+   */
+  reason: CredentialsReason;
+
+  /**
+   * Whether the server rejected the credentials returned last time, so a
+   * cached token must not be reused
+   */
+  forceRefresh: boolean;
+}
+
+/**
+ * Function that returns the current API key or token. It is called before
+ * every HTTP request, socket connection attempt and workflow run, so it
+ * should cache the token and only fetch a new one when it is about to
+ * expire or when `forceRefresh` is set.
+ */
+export type CredentialsProvider = (
+  context: CredentialsContext
+) => string | Promise<string>;
+
+/**
+ * A static API key or token, or a provider for one
+ */
+export type Credentials = string | CredentialsProvider;
+
+/**
+ * Get the current token from static credentials or a provider
+ * @param credentials The credentials to resolve
+ * @param context Why the credentials are needed
+ * @returns The token, or undefined if there are no credentials
+ */
+export const resolveCredentials = async (
+  credentials: Credentials | undefined,
+  context: CredentialsContext
+): Promise<string | undefined> =>
+  typeof credentials === "function" ? credentials(context) : credentials;
+
+/**
+ * Whether credentials can return a new token when asked to refresh
+ * @param credentials The credentials to check
+ * @returns True for a credentials provider
+ */
+export const canRefreshCredentials = (
+  credentials: Credentials | undefined
+): credentials is CredentialsProvider => typeof credentials === "function";
@@ -0,0 +1,286 @@
+/**
+ * Pre-recorded answers to feedback requests, for regression tests and
+ * batch jobs that run workflows without a person
+ */
+
+import * as yaml from "js-yaml";
+import { FeedbackRequest, parseFeedbackInput } from "./feedback";
+import { FeedbackHandlerContext, FeedbackRequestHandler } from "./types";
+import { defaultFeedbackRequestHandler } from "./handlers/defaultHandlers";
+import { answerFeedback, FeedbackPolicy } from "./socket/feedback-policy";
+import { getDefaultLogger, Logger } from "./logger";
+
+/**
+ * A recorded answer and the requests it applies to. An answer with several
+ * conditions only applies to requests that meet all of them.
+ */
+export interface FeedbackAnswer {
+  /**
+   * Exact prompt text of the request
+   */
+  prompt?: string;
+
+  /**
+   * Regular expression the prompt must match
+   */
+  match?: string | RegExp;
+
+  /**
+   * ID of the request
+   */
+  requestId?: string;
+
+  /**
+   * The answer. Text is converted to the kind of the request the same way
+   * a typed answer is, so `"y"` answers a confirm request and `"2"` picks
+   * the second option of a choice request.
+   */
+  answer: unknown;
+
+  /**
+   * Whether the answer can be used for more than one request
+   * @default false
+   */
+  repeat?: boolean;
+}
+
+/**
+ * Contents of an answers file
+ */
+export interface FeedbackAnswersFile {
+  /**
+   * Answers, tried in order
+   */
+  answers: FeedbackAnswer[];
+
+  /**
+   * How requests that no answer applies to are answered
+   */
+  fallback?: FeedbackPolicy;
+}
+
+/**
+ * Options for answering feedback requests from recorded answers
+ */
+export interface AnswersFeedbackHandlerOptions {
+  /**
+   * How requests that no answer applies to are answered; takes precedence
+   * over the answers file's `fallback`
+   * @default "fail"
+   */
+  fallback?: FeedbackPolicy;
+
+  /**
+   * Handler asked by the `ask` fallback
+   * (default: the default feedback request handler)
+   */
+  fallbackHandler?: FeedbackRequestHandler;
+
+  /**
+   * Logger that every answer and fallback is reported to
+   * (default: the SDK default logger)
+   */
+  logger?: Logger;
+}
+
+/**
+ * Which recorded answers were used and which requests had none
+ */
+export interface FeedbackAnswersReport {
+  /**
+   * Every recorded answer with the number of requests it answered
+   */
+  answers: { index: number; description: string; uses: number }[];
+
+  /**
+   * Requests that no recorded answer applied to
+   */
+  unmatched: Pick<FeedbackRequest, "runId" | "requestId" | "kind" | "prompt">[];
+}
+
+/**
+ * Feedback request handler that answers from recorded answers and reports
+ * which of them were used
+ */
+export interface AnswersFeedbackHandler {
+  (request: FeedbackRequest, context?: FeedbackHandlerContext):
+    | unknown
+    | Promise<unknown>;
+
+  /**
+   * Get the coverage report for the requests answered so far
+   */
+  report(): FeedbackAnswersReport;
+}
+
+/**
+ * Describe the conditions of a recorded answer
+ */
+const describeAnswer = (answer: FeedbackAnswer): string => {
+  const conditions: string[] = [];
+  if (answer.requestId !== undefined) {
+    conditions.push(`request ${answer.requestId}`);
+  }
+  if (answer.prompt !== undefined) {
+    conditions.push(`prompt "${answer.prompt}"`);
+  }
+  if (answer.match !== undefined) {
+    conditions.push(`prompt matching ${String(answer.match)}`);
+  }
+  return conditions.length > 0 ? conditions.join(" and ") : "any request";
+};
+
+/**
+ * Parse the contents of an answers file, which is YAML or JSON. The file
+ * holds either a list of answers or an object with `answers` and an
+ * optional `fallback`.
+ * @param content The contents of the file
+ * @returns The parsed answers
+ * @throws {Error} If the contents are not a valid answers file
+ */
+export const parseFeedbackAnswers = (content: string): FeedbackAnswersFile => {
+  const parsed = yaml.load(content) as any;
+  const file: FeedbackAnswersFile = Array.isArray(parsed)
+    ? { answers: parsed }
+    : parsed;
+
+  if (!file || typeof file !== "object" || !Array.isArray(file.answers)) {
+    throw new Error("Invalid answers file: Expected a list of answers");
+  }
+
+  file.answers.forEach((answer, i) => {
+    if (!answer || typeof answer !== "object" || !("answer" in answer)) {
+      throw new Error(`Invalid answers file: Answer ${i + 1} has no answer`);
+    }
+    if (answer.match !== undefined) {
+      try {
+        new RegExp(answer.match);
+      } catch (error) {
+        throw new Error(
+          `Invalid answers file: Answer ${i + 1} has an invalid match pattern`
+        );
+      }
+    }
+  });
+
+  return file;
+};
+
+/**
+ * Create a feedback request handler that answers from recorded answers.
+ * Each request gets the first unused answer whose conditions it meets;
+ * answers marked `repeat` stay available.
+ * @param file The recorded answers
+ * @param options How unmatched requests are answered
+ * @returns The handler, with a `report()` method for answer coverage
+ */
+export const createAnswersFeedbackHandler = (
+  file: FeedbackAnswersFile | FeedbackAnswer[],
+  options: AnswersFeedbackHandlerOptions = {}
+): AnswersFeedbackHandler => {
+  const { answers, fallback: fileFallback } = Array.isArray(file)
+    ? { answers: file, fallback: undefined }
+    : file;
+  const {
+    fallback = fileFallback || "fail",
+    fallbackHandler,
+    logger = getDefaultLogger(),
+  } = options;
+
+  const uses = answers.map(() => 0);
+  const unmatched: FeedbackAnswersReport["unmatched"] = [];
+
+  const applies = (answer: FeedbackAnswer, request: FeedbackRequest) =>
+    (answer.requestId === undefined ||
+      answer.requestId === request.requestId) &&
+    (answer.prompt === undefined || answer.prompt === request.prompt) &&
+    (answer.match === undefined ||
+      new RegExp(answer.match).test(request.prompt));
+
+  const handler = (
+    request: FeedbackRequest,
+    context?: FeedbackHandlerContext
+  ) => {
+    const { runId, requestId, kind, prompt } = request;
+    const index = answers.findIndex(
+      (answer, i) =>
+        (answer.repeat || uses[i] === 0) && applies(answer, request)
+    );
+
+    if (index === -1) {
+      unmatched.push({ runId, requestId, kind, prompt });
+      logger.warn("No recorded answer for feedback request", {
+        runId,
+        requestId,
+        kind,
+        prompt,
+      });
+      return answerFeedback(
+        request,
+        (fallbackRequest) =>
+          (fallbackHandler || defaultFeedbackRequestHandler)(
+            fallbackRequest,
+            context
+          ),
+        fallback,
+        logger,
+        fallbackHandler !== undefined
+      );
+    }
+
+    uses[index]++;
+    logger.info("Answered feedback request from recorded answer", {
+      runId,
+      requestId,
+      kind,
+      answer: index + 1,
+    });
+
+    const { answer } = answers[index];
+    if (typeof answer !== "string" || kind === "text" || kind === "multiline") {
+      return answer;
+    }
+    const parsed = parseFeedbackInput(request, answer);
+    return parsed.valid ? parsed.value : answer;
+  };
+
+  return Object.assign(handler, {
+    report: (): FeedbackAnswersReport => ({
+      answers: answers.map((answer, i) => ({
+        index: i + 1,
+        description: describeAnswer(answer),
+        uses: uses[i],
+      })),
+      unmatched: [...unmatched],
+    }),
+  });
+};
+
+/**
+ * Format an answers coverage report for printing
+ * @param report The report to format
+ * @returns The report as lines of text
+ */
+export const formatFeedbackAnswersReport = (
+  report: FeedbackAnswersReport
+): string => {
+  const used = report.answers.filter((answer) => answer.uses > 0).length;
+  const lines = [
+    `Feedback answers: ${used} of ${report.answers.length} used, ${report.unmatched.length} unmatched requests`,
+  ];
+
+  report.answers.forEach((answer) => {
+    lines.push(
+      `  ${answer.uses > 0 ? "✓" : "✗"} #${answer.index} ${answer.description} (used ${answer.uses}x)`
+    );
+  });
+  report.unmatched.forEach((request) => {
+    lines.push(
+      `  ? unmatched ${request.kind} request${
+        request.requestId ? ` ${request.requestId}` : ""
+      }: "${request.prompt}"`
+    );
+  });
+
+  return lines.join("\n");
+};
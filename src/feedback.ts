@@ -0,0 +1,417 @@
+/**
+ * Typed feedback requests sent by workflows that need input from a person
+ */
+
+/**
+ * Kind of input a feedback request asks for
+ */
+export type FeedbackKind =
+  | "text"
+  | "multiline"
+  | "confirm"
+  | "single-choice"
+  | "multi-choice"
+  | "number"
+  | "json";
+
+/**
+ * Type of the value answered for each kind of feedback request
+ */
+export interface FeedbackValueMap {
+  text: string;
+  multiline: string;
+  confirm: boolean;
+  "single-choice": string;
+  "multi-choice": string[];
+  number: number;
+  json: unknown;
+}
+
+/**
+ * An option of a choice request
+ */
+export interface FeedbackChoice {
+  /**
+   * Value answered when the option is chosen
+   */
+  value: string;
+
+  /**
+   * Text shown for the option (default: the value)
+   */
+  label?: string;
+}
+
+/**
+ * Fields shared by every kind of feedback request
+ */
+interface FeedbackRequestBase<K extends FeedbackKind> {
+  /**
+   * Correlation ID of the run that asks for feedback
+   */
+  runId?: string;
+
+  /**
+   * ID of the request, echoed in the response when present
+   */
+  requestId?: string;
+
+  /**
+   * Kind of input requested
+   */
+  kind: K;
+
+  /**
+   * Question shown to the person answering
+   */
+  prompt: string;
+
+  /**
+   * Whether an empty answer is rejected when there is no default value
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * Value used when the answer is empty
+   */
+  defaultValue?: FeedbackValueMap[K];
+}
+
+/**
+ * Request for a single line or several lines of text
+ */
+export interface TextFeedbackRequest
+  extends FeedbackRequestBase<"text" | "multiline"> {
+  /**
+   * Regular expression the whole answer must match
+   */
+  pattern?: string;
+
+  /**
+   * Message shown when the answer does not match the pattern
+   */
+  patternMessage?: string;
+
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Request for a yes or no answer
+ */
+export type ConfirmFeedbackRequest = FeedbackRequestBase<"confirm">;
+
+/**
+ * Request to pick one of several options
+ */
+export interface SingleChoiceFeedbackRequest
+  extends FeedbackRequestBase<"single-choice"> {
+  choices: (string | FeedbackChoice)[];
+}
+
+/**
+ * Request to pick any number of several options
+ */
+export interface MultiChoiceFeedbackRequest
+  extends FeedbackRequestBase<"multi-choice"> {
+  choices: (string | FeedbackChoice)[];
+  minSelected?: number;
+  maxSelected?: number;
+}
+
+/**
+ * Request for a number
+ */
+export interface NumberFeedbackRequest extends FeedbackRequestBase<"number"> {
+  min?: number;
+  max?: number;
+
+  /**
+   * Whether only whole numbers are accepted
+   * @default false
+   */
+  integer?: boolean;
+}
+
+/**
+ * Request for an arbitrary JSON value
+ */
+export type JsonFeedbackRequest = FeedbackRequestBase<"json">;
+
+/**
+ * A feedback request, discriminated by its `kind`
+ */
+export type FeedbackRequest =
+  | TextFeedbackRequest
+  | ConfirmFeedbackRequest
+  | SingleChoiceFeedbackRequest
+  | MultiChoiceFeedbackRequest
+  | NumberFeedbackRequest
+  | JsonFeedbackRequest;
+
+/**
+ * Payload of the `feedback_response` event sent back to the server
+ */
+export type FeedbackResponse = {
+  [K in FeedbackKind]: {
+    runId?: string;
+    requestId?: string;
+    kind: K;
+
+    /**
+     * The answer, or null if no valid answer could be given
+     */
+    input: FeedbackValueMap[K] | null;
+
+    /**
+     * Why no answer could be given
+     */
+    error?: string;
+  };
+}[FeedbackKind];
+
+/**
+ * Result of parsing a typed answer
+ */
+export type FeedbackParseResult =
+  | { valid: true; value: unknown }
+  | { valid: false; error: string };
+
+const feedbackKinds: FeedbackKind[] = [
+  "text",
+  "multiline",
+  "confirm",
+  "single-choice",
+  "multi-choice",
+  "number",
+  "json",
+];
+
+/**
+ * Turn the payload of a `feedback_request` event into a typed request.
+ * Requests from servers that predate feedback kinds, which only carry
+ * `prompt` and `defaultValue`, become text requests.
+ * @param data The event payload
+ * @returns The typed request
+ */
+export const normalizeFeedbackRequest = (data: any): FeedbackRequest => {
+  const payload = data && typeof data === "object" ? data : {};
+  const kind: FeedbackKind = feedbackKinds.includes(payload.kind)
+    ? payload.kind
+    : "text";
+
+  return {
+    ...payload,
+    kind,
+    prompt: typeof payload.prompt === "string" ? payload.prompt : "",
+  } as FeedbackRequest;
+};
+
+/**
+ * Get the options of a choice request with their labels filled in
+ * @param request The choice request
+ * @returns The options
+ */
+export const feedbackChoices = (
+  request: SingleChoiceFeedbackRequest | MultiChoiceFeedbackRequest
+): Required<FeedbackChoice>[] =>
+  (request.choices || []).map((choice) =>
+    typeof choice === "string"
+      ? { value: choice, label: choice }
+      : { value: choice.value, label: choice.label ?? choice.value }
+  );
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Check an answer against the type and rules of its request
+ * @param request The request that was answered
+ * @param value The answer; an empty answer means "use the default"
+ * @returns A message describing the problem, or undefined if the answer is valid
+ */
+export const validateFeedback = (
+  request: FeedbackRequest,
+  value: unknown
+): string | undefined => {
+  if (isEmpty(value)) {
+    return request.required && isEmpty(request.defaultValue)
+      ? "A value is required"
+      : undefined;
+  }
+
+  switch (request.kind) {
+    case "text":
+    case "multiline": {
+      if (typeof value !== "string") {
+        return "Expected text";
+      }
+      if (request.minLength !== undefined && value.length < request.minLength) {
+        return `Enter at least ${request.minLength} characters`;
+      }
+      if (request.maxLength !== undefined && value.length > request.maxLength) {
+        return `Enter at most ${request.maxLength} characters`;
+      }
+      if (
+        request.pattern !== undefined &&
+        !new RegExp(`^(?:${request.pattern})$`).test(value)
+      ) {
+        return request.patternMessage || `Must match ${request.pattern}`;
+      }
+      return undefined;
+    }
+    case "confirm":
+      return typeof value === "boolean" ? undefined : "Expected yes or no";
+    case "single-choice": {
+      const values = feedbackChoices(request).map((choice) => choice.value);
+      return typeof value === "string" && values.includes(value)
+        ? undefined
+        : `Choose one of: ${values.join(", ")}`;
+    }
+    case "multi-choice": {
+      const values = feedbackChoices(request).map((choice) => choice.value);
+      if (
+        !Array.isArray(value) ||
+        value.some((selected) => !values.includes(selected))
+      ) {
+        return `Choose from: ${values.join(", ")}`;
+      }
+      if (
+        request.minSelected !== undefined &&
+        value.length < request.minSelected
+      ) {
+        return `Choose at least ${request.minSelected} options`;
+      }
+      if (
+        request.maxSelected !== undefined &&
+        value.length > request.maxSelected
+      ) {
+        return `Choose at most ${request.maxSelected} options`;
+      }
+      return undefined;
+    }
+    case "number": {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return "Expected a number";
+      }
+      if (request.integer && !Number.isInteger(value)) {
+        return "Expected a whole number";
+      }
+      if (request.min !== undefined && value < request.min) {
+        return `Enter a number of at least ${request.min}`;
+      }
+      if (request.max !== undefined && value > request.max) {
+        return `Enter a number of at most ${request.max}`;
+      }
+      return undefined;
+    }
+    case "json":
+      return undefined;
+  }
+};
+
+/**
+ * Value answered for an empty, optional request without a default
+ */
+const emptyValue = (kind: FeedbackKind): unknown => {
+  switch (kind) {
+    case "text":
+    case "multiline":
+      return "";
+    case "multi-choice":
+      return [];
+    default:
+      return null;
+  }
+};
+
+/**
+ * Map an option number to its value; anything else is taken as the value
+ */
+const resolveChoice = (
+  request: SingleChoiceFeedbackRequest | MultiChoiceFeedbackRequest,
+  entry: string
+): string => {
+  const choices = feedbackChoices(request);
+  const index = /^\d+$/.test(entry) ? Number(entry) - 1 : -1;
+  return index >= 0 && index < choices.length ? choices[index].value : entry;
+};
+
+/**
+ * Parse a typed answer, as entered in a terminal or a text field, into the
+ * value for its request and validate it. An empty answer resolves to the
+ * request's default value.
+ *
+ * Confirm requests accept `y`, `yes`, `n`, `no`, `true` and `false`.
+ * Choice requests accept option values or 1-based option numbers,
+ * separated by commas for multi-choice requests.
+ * @param request The request that was answered
+ * @param text The typed answer
+ * @returns The parsed value, or the reason it is not valid
+ */
+export const parseFeedbackInput = (
+  request: FeedbackRequest,
+  text: string
+): FeedbackParseResult => {
+  const trimmed = request.kind === "multiline" ? text : text.trim();
+
+  if (trimmed === "") {
+    const error = validateFeedback(request, undefined);
+    if (error) {
+      return { valid: false, error };
+    }
+    return {
+      valid: true,
+      value:
+        request.defaultValue !== undefined
+          ? request.defaultValue
+          : emptyValue(request.kind),
+    };
+  }
+
+  let value: unknown;
+  switch (request.kind) {
+    case "text":
+    case "multiline":
+      value = trimmed;
+      break;
+    case "confirm": {
+      const answer = trimmed.toLowerCase();
+      if (["y", "yes", "true"].includes(answer)) {
+        value = true;
+      } else if (["n", "no", "false"].includes(answer)) {
+        value = false;
+      } else {
+        return { valid: false, error: "Answer yes or no" };
+      }
+      break;
+    }
+    case "single-choice":
+      value = resolveChoice(request, trimmed);
+      break;
+    case "multi-choice":
+      value = trimmed
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== "")
+        .map((entry) => resolveChoice(request, entry));
+      break;
+    case "number":
+      value = Number(trimmed);
+      break;
+    case "json":
+      try {
+        value = JSON.parse(trimmed);
+      } catch (error) {
+        return { valid: false, error: "Expected valid JSON" };
+      }
+      break;
+  }
+
+  const error = validateFeedback(request, value);
+  return error ? { valid: false, error } : { valid: true, value };
+};
@@ -1,82 +1,127 @@
+import {
+  FeedbackRequest,
+  normalizeFeedbackRequest,
+  parseFeedbackInput,
+} from "../feedback";
+import { FeedbackHandlerContext } from "../types";
+import { FeedbackRequiredError } from "../socket/feedback-policy";
+import { getDefaultLogger, Logger } from "../logger";
+
 /**
  * Default handler for workflow log messages.
- * Only logs errors by default to reduce noise.
+ * Reports every message through the logger.
  */
-export const defaultWorkflowLogHandler = (data: any) => {
-  // Log all data for testing purposes
-  console.log(data);
+export const defaultWorkflowLogHandler = (
+  data: any,
+  logger: Logger = getDefaultLogger()
+) => {
+  logger.info("Workflow log", { log: data });
 };
 
 /**
- * Default handler for feedback requests.
- * Logs the request, prompts for user input via CLI, and returns the input.
+ * Function that asks a person to answer a feedback request and returns
+ * the typed answer
  */
-export const defaultFeedbackRequestHandler = (data: any) => {
-  console.log("Feedback request:", data);
-  const { prompt, defaultValue } = data;
-  // Simple CLI input using Node's readline
-  const readline = require("readline").createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
+export type FeedbackPrompt = (
+  request: FeedbackRequest,
+  context: FeedbackHandlerContext
+) => unknown | Promise<unknown>;
 
-  return new Promise((resolve) => {
-    const defaultText = defaultValue ? ` (Default: ${defaultValue})` : "";
-    readline.question(
-      `${prompt}${defaultText}: `,
-      (input: string) => {
-        readline.close();
-        resolve(input || defaultValue || "");
-      }
+/**
+ * Prompt used where nobody can be asked, which answers with the request's
+ * default value
+ * @throws {FeedbackRequiredError} If the request is required and has no default
+ */
+const nonInteractivePrompt: FeedbackPrompt = (request) => {
+  const result = parseFeedbackInput(request, "");
+  if (!result.valid) {
+    throw new FeedbackRequiredError(
+      `Feedback required but no prompt is available in this runtime: ${request.prompt}`,
+      request
     );
-  });
+  }
+  return result.value;
+};
+
+let feedbackPrompt: FeedbackPrompt = nonInteractivePrompt;
+
+/**
+ * Set the prompt used by the default feedback request handler. The Node.js
+ * entry point installs a terminal prompt; elsewhere, requests are answered
+ * with their default values until a prompt is set.
+ * @param prompt The prompt, or undefined to restore the default
+ */
+export const setFeedbackPrompt = (prompt?: FeedbackPrompt): void => {
+  feedbackPrompt = prompt || nonInteractivePrompt;
+};
+
+/**
+ * Default handler for feedback requests.
+ * Logs the request and asks for an answer through the prompt set with
+ * `setFeedbackPrompt`.
+ */
+export const defaultFeedbackRequestHandler = (
+  data: any,
+  context: FeedbackHandlerContext = {},
+  logger: Logger = getDefaultLogger()
+) => {
+  logger.info("Feedback request", { request: data });
+  return feedbackPrompt(normalizeFeedbackRequest(data), context);
 };
 
 /**
  * Default stream output handler.
  * Only logs errors by default to reduce noise.
  */
-export const defaultStreamOutputHandler = (data: any) => {
+export const defaultStreamOutputHandler = (
+  data: any,
+  logger: Logger = getDefaultLogger()
+) => {
   // Only log errors to reduce noise
   if (data.isError) {
-    console.log(
-      `❌ Error from node '${data.node}' (${data.type}): ${data.action}`
+    logger.error(
+      `Error from node '${data.node}' (${data.type}): ${data.action}`,
+      { state: data.state }
     );
-    if (data.state) {
-      console.log("State:", data.state);
-    }
   }
 };
 
 /**
  * Default connection handler.
- * Simply logs the connection event.
+ * Reports the connection through the logger.
  */
-export const defaultSocketConnectionHandler = () => {
-  // Log connection for testing purposes
-  console.log("Socket connected successfully");
+export const defaultSocketConnectionHandler = (
+  logger: Logger = getDefaultLogger()
+) => {
+  logger.info("Socket connected successfully");
+};
+
+/**
+ * Explanations of common socket.io disconnect reasons
+ */
+const reasonExplanations: Record<string, string> = {
+  "io server disconnect":
+    "The server has forcefully disconnected the socket with socket.disconnect()",
+  "io client disconnect":
+    "The socket was manually disconnected using socket.disconnect()",
+  "ping timeout":
+    "The server did not send a PING within the pingInterval + pingTimeout range",
+  "transport close":
+    "The connection was closed (example: user has lost connection, or network was changed from WiFi to 4G)",
+  "transport error":
+    "The connection encountered an error (example: server was stopped or unreachable)",
 };
 
 /**
  * Default disconnection handler.
- * Logs detailed information about the disconnection event and reason.
+ * Reports the disconnection reason and what it means through the logger.
  */
-export const defaultSocketDisconnectionHandler = (reason: string) => {
-  // Log all disconnections for testing purposes
-  console.log("Socket disconnected:", reason);
-  
-  // Map common socket.io disconnect reasons to more helpful messages
-  const reasonExplanations: Record<string, string> = {
-    'io server disconnect': 'The server has forcefully disconnected the socket with socket.disconnect()',
-    'io client disconnect': 'The socket was manually disconnected using socket.disconnect()',
-    'ping timeout': 'The server did not send a PING within the pingInterval + pingTimeout range',
-    'transport close': 'The connection was closed (example: user has lost connection, or network was changed from WiFi to 4G)',
-    'transport error': 'The connection encountered an error (example: server was stopped or unreachable)'
-  };
-  
-  if (reasonExplanations[reason]) {
-    console.log(`Explanation: ${reasonExplanations[reason]}`);
-  }
-  
-  console.log(`Timestamp: ${new Date().toISOString()}`);
+export const defaultSocketDisconnectionHandler = (
+  reason: string,
+  logger: Logger = getDefaultLogger()
+) => {
+  logger.debug(`Socket disconnected: ${reason}`, {
+    reason,
+    explanation: reasonExplanations[reason],
+  });
 };
@@ -3,20 +3,42 @@
  */
 
 // Import environment variables first
-import env from "../env";
+import { getEnvironmentSettings } from "../settings";
+import { AbortError, abortErrorFrom, onAbort, throwIfAborted } from "../abort";
+import { getDefaultLogger, Logger } from "../logger";
+import {
+  createRedactor,
+  RedactionOptions,
+  redactLogger,
+  Redactor,
+} from "../redact";
+import {
+  canRefreshCredentials,
+  Credentials,
+  resolveCredentials,
+} from "../credentials";
+import { Span, Tracer } from "../tracing";
+import { MetricsRegistry, sdkMetrics, secondsSince } from "../metrics";
+
+/**
+ * URL of the hosted PocketFlow server, used when no other URL is configured
+ */
+export const DEFAULT_SERVER_URL = "https://api.pocketflow.ai";
+
+/**
+ * Remove a trailing slash from a base URL
+ * @param url The URL to normalize
+ * @returns The URL without a trailing slash
+ */
+export const normalizeBaseUrl = (url: string): string =>
+  url.endsWith("/") ? url.slice(0, -1) : url;
 
 /**
  * Base URL for the PocketFlow API
  * Uses POCKETFLOW_SERVER_URL from environment if available
  */
-const SERVER_URL = env.SERVER_URL || "https://api.pocketflow.ai";
-// Remove trailing slash if present
-const BASE_URL = SERVER_URL.endsWith("/")
-  ? SERVER_URL.slice(0, -1)
-  : SERVER_URL;
-
-// Always log the base URL for clarity
-console.log(`PocketFlow SDK using API endpoint: ${BASE_URL}`);
+const defaultBaseUrl = (): string =>
+  normalizeBaseUrl(getEnvironmentSettings().SERVER_URL || DEFAULT_SERVER_URL);
 
 /**
  * Base error class for API errors
@@ -48,7 +70,17 @@ export class NotFoundError extends ApiError {
  * Custom error class for authentication errors
  */
 export class AuthenticationError extends ApiError {
-  constructor(message: string, public readonly cause?: Error) {
+  /**
+   * @param message The error message
+   * @param cause The underlying error, if any
+   * @param status HTTP status of the response that rejected the request, if
+   * the server rejected it
+   */
+  constructor(
+    message: string,
+    public readonly cause?: Error,
+    public readonly status?: number
+  ) {
     super(message, cause);
     this.name = "AuthenticationError";
 
@@ -88,6 +120,50 @@ export interface ApiAuth {
    * Request timeout in milliseconds (default: 30000ms = 30 seconds)
    */
   timeout?: number;
+
+  /**
+   * Signal that cancels the in-flight request when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Base URL of the PocketFlow API (default: POCKETFLOW_SERVER_URL or https://api.pocketflow.ai)
+   */
+  baseUrl?: string;
+
+  /**
+   * Logger for request diagnostics (default: the SDK default logger)
+   */
+  logger?: Logger;
+
+  /**
+   * Extra fields and secrets to mask in logs and errors. The API key is
+   * always masked.
+   */
+  redact?: RedactionOptions;
+
+  /**
+   * Provider called before every request for the current API key. Takes
+   * precedence over `apiKey`. When the server answers 401, the provider is
+   * asked for a fresh key and the request is retried once.
+   */
+  credentials?: Credentials;
+
+  /**
+   * Tracer for a span covering every request, including the retry after a 401
+   */
+  tracer?: Tracer;
+
+  /**
+   * Span the request spans are part of
+   */
+  traceParent?: Span;
+
+  /**
+   * Registry for the latency and status code of every request, including
+   * the retry after a 401
+   */
+  metrics?: MetricsRegistry;
 }
 
 /**
@@ -282,15 +358,28 @@ const buildAuthHeaders = (auth: ApiAuth): Record<string, string> => {
   return headers;
 };
 
+/**
+ * Helper function to create the redactor for requests made with the given auth
+ */
+const authRedactor = (auth: ApiAuth): Redactor =>
+  createRedactor(auth.redact).withSecrets(auth.apiKey);
+
+/**
+ * Helper function to get the logger for requests made with the given auth
+ */
+const authLogger = (auth: ApiAuth, redactor: Redactor): Logger =>
+  redactLogger(auth.logger || getDefaultLogger(), redactor);
+
 /**
  * Helper function to construct URL with query parameters
  */
 const buildUrlWithParams = (
+  base: string,
   endpoint: string,
   params?: Record<string, any>
 ): string => {
-  // Ensure BASE_URL doesn't end with a trailing slash
-  const baseUrl = BASE_URL.endsWith("/") ? BASE_URL.slice(0, -1) : BASE_URL;
+  // Ensure the base URL doesn't end with a trailing slash
+  const baseUrl = normalizeBaseUrl(base);
 
   // Make sure we have a valid URL by ensuring endpoint starts with /
   const path = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
@@ -317,30 +406,186 @@ const buildUrlWithParams = (
 };
 
 /**
- * Generic function to make API requests
+ * Generic function to make API requests, resolving the API key from the
+ * credentials first and retrying once with fresh credentials on a 401.
+ * `route` is the endpoint with its IDs left as placeholders, such as
+ * `/workflows/:id`, so spans and metrics are grouped by route rather than
+ * by ID.
  */
 async function apiRequest<T>(
   endpoint: string,
   method: string = "GET",
   auth: ApiAuth,
   params?: Record<string, any>,
-  body?: any
+  body?: any,
+  route?: string
 ): Promise<T> {
+  if (!auth.credentials) {
+    return sendObservedRequest<T>(endpoint, method, auth, params, body, route);
+  }
+
+  const authWithKey = async (forceRefresh: boolean): Promise<ApiAuth> => {
+    throwIfAborted(auth.signal);
+    try {
+      const apiKey = await resolveCredentials(auth.credentials, {
+        reason: "request",
+        forceRefresh,
+      });
+      return { ...auth, apiKey };
+    } catch (error) {
+      throw new AuthenticationError(
+        "Failed to get credentials for the request",
+        error instanceof Error ? error : undefined
+      );
+    }
+  };
+
+  // A provider that fails is not a rejected key, so it is not retried
+  const authWithCurrentKey = await authWithKey(false);
+
   try {
+    return await sendObservedRequest<T>(
+      endpoint,
+      method,
+      authWithCurrentKey,
+      params,
+      body,
+      route
+    );
+  } catch (error) {
+    // Only a 401 means the key has expired; a 403 means a valid key lacks
+    // access, which fresh credentials do not change
+    if (
+      !(error instanceof AuthenticationError) ||
+      error.status !== 401 ||
+      !canRefreshCredentials(auth.credentials)
+    ) {
+      throw error;
+    }
+
+    return sendObservedRequest<T>(
+      endpoint,
+      method,
+      await authWithKey(true),
+      params,
+      body,
+      route
+    );
+  }
+}
+
+/**
+ * What a single API request found out, for its span and metrics
+ */
+interface RequestObservation {
+  /**
+   * The redacted URL of the request
+   */
+  url?: string;
+
+  /**
+   * HTTP status code of the response, if one arrived
+   */
+  statusCode?: number;
+}
+
+/**
+ * Send a single API request in a span of the auth's tracer and record its
+ * latency and status code in the auth's metrics, if it has them
+ */
+async function sendObservedRequest<T>(
+  endpoint: string,
+  method: string,
+  auth: ApiAuth,
+  params?: Record<string, any>,
+  body?: any,
+  route?: string
+): Promise<T> {
+  const { tracer, metrics } = auth;
+  if (!tracer && !metrics) {
+    return sendRequest<T>(endpoint, method, auth, params, body);
+  }
+
+  const path = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
+  const labels = { method, route: route ?? path };
+  const startTime = Date.now();
+  const span = tracer?.startSpan(`${method} ${labels.route}`, {
+    parent: auth.traceParent,
+    startTime,
+    attributes: {
+      "http.method": method,
+      "http.route": labels.route,
+      "url.path": path,
+    },
+  });
+  const observation: RequestObservation = {};
+  try {
+    const data = await sendRequest<T>(
+      endpoint,
+      method,
+      auth,
+      params,
+      body,
+      observation
+    );
+    span?.setStatus("ok");
+    return data;
+  } catch (error) {
+    span?.setStatus(
+      "error",
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  } finally {
+    span?.setAttributes({
+      "http.url": observation.url,
+      "http.status_code": observation.statusCode,
+    });
+    span?.end();
+
+    if (metrics) {
+      const { httpRequests, httpDuration } = sdkMetrics(metrics);
+      httpRequests.inc({
+        ...labels,
+        status_code: String(observation.statusCode ?? "none"),
+      });
+      httpDuration.observe(secondsSince(startTime), labels);
+    }
+  }
+}
+
+/**
+ * Send a single API request with the API key of the given auth
+ */
+async function sendRequest<T>(
+  endpoint: string,
+  method: string,
+  auth: ApiAuth,
+  params?: Record<string, any>,
+  body?: any,
+  observation: RequestObservation = {}
+): Promise<T> {
+  const redactor = authRedactor(auth);
+  const logger = authLogger(auth, redactor).child({ component: "http" });
+
+  try {
+    // Fail fast if the caller has already given up on the request
+    throwIfAborted(auth.signal);
+
     // Make sure we have a valid URL by ensuring endpoint starts with /
     const path = endpoint.startsWith("/") ? endpoint : `/${endpoint}`;
 
     // Construct the full URL with the appropriate prefix
-    const url = buildUrlWithParams(`${path}`, params);
+    const url = buildUrlWithParams(auth.baseUrl || defaultBaseUrl(), path, params);
 
-    // Always log the request URL for debugging
-    console.log(`API Request: ${method} ${url}`);
+    logger.debug(`API Request: ${method} ${url}`, { method, url });
+    observation.url = redactor.redactText(url);
 
     if (auth.verbose) {
-      console.log("Headers:", JSON.stringify(buildAuthHeaders(auth), null, 2));
-      if (body) {
-        console.log("Request Body:", JSON.stringify(body, null, 2));
-      }
+      logger.debug("Request details", {
+        headers: buildAuthHeaders(auth),
+        body,
+      });
     }
 
     // Create AbortController for request timeout if specified
@@ -348,6 +593,9 @@ async function apiRequest<T>(
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
+    // Forward the caller's signal to the request
+    const removeAbortListener = onAbort(auth.signal, () => controller.abort());
+
     try {
       const response = await fetch(url, {
         method,
@@ -358,19 +606,22 @@ async function apiRequest<T>(
 
       // Clear the timeout
       clearTimeout(timeoutId);
+      removeAbortListener();
+      observation.statusCode = response.status;
 
       // Log response status and headers for debugging
-      console.log(`Response Status: ${response.status} ${response.statusText}`);
+      logger.debug(`Response Status: ${response.status} ${response.statusText}`, {
+        method,
+        url,
+        status: response.status,
+      });
 
       if (auth.verbose) {
         const responseHeaders: Record<string, string> = {};
         response.headers.forEach((value, key) => {
           responseHeaders[key] = value;
         });
-        console.log(
-          "Response Headers:",
-          JSON.stringify(responseHeaders, null, 2)
-        );
+        logger.debug("Response headers", { headers: responseHeaders });
       }
 
       // First get the response as text
@@ -380,25 +631,26 @@ async function apiRequest<T>(
       switch (response.status) {
         case 401:
         case 403:
-          console.error(
-            `Authentication failed: ${response.status} ${response.statusText}`
+          logger.error(
+            `Authentication failed: ${response.status} ${response.statusText}`,
+            { url, status: response.status }
           );
           throw new AuthenticationError(
-            "Authentication failed. Please check your API key."
+            "Authentication failed. Please check your API key.",
+            undefined,
+            response.status
           );
 
         case 404:
-          if (auth.verbose) {
-            console.log(`Resource not found: ${url}`);
-          } else {
-            // Always log 404 errors even in non-verbose mode
-            console.error(`Resource not found: ${url}`);
-            console.error(`Response body: ${responseText}`);
-          }
+          logger.warn(`Resource not found: ${url}`, {
+            url,
+            status: response.status,
+            responseBody: responseText,
+          });
           throw new NotFoundError(`Resource not found: ${endpoint}`);
 
         case 429:
-          console.error("Rate limit exceeded");
+          logger.warn("Rate limit exceeded", { url, status: response.status });
           throw new ApiError("Rate limit exceeded. Please try again later.");
       }
 
@@ -407,10 +659,11 @@ async function apiRequest<T>(
       try {
         data = JSON.parse(responseText);
       } catch (parseError: any) {
-        console.error("Failed to parse server response as JSON:");
-        console.error("----- Response Body Start -----");
-        console.error(responseText);
-        console.error("----- Response Body End -----");
+        logger.error("Failed to parse server response as JSON", {
+          url,
+          status: response.status,
+          responseBody: responseText,
+        });
 
         throw new ApiError(
           `Invalid response format: ${parseError.message}. Check server configuration and API endpoints.`
@@ -419,15 +672,18 @@ async function apiRequest<T>(
 
       if (!response.ok) {
         // Handle API error responses
-        console.error("API Error Response:", JSON.stringify(data, null, 2));
+        logger.error("API Error Response", {
+          url,
+          status: response.status,
+          response: data,
+        });
 
         // Special handling for workflow fetch errors (both 404 and 500 with specific message)
         if (data && data.error === "Failed to fetch workflow") {
-          const errorMsg = `Failed to fetch workflow at ${url}, treating as not found.`;
-          console.error(errorMsg);
-          if (auth.verbose) {
-            console.error(`Full response: ${responseText}`);
-          }
+          logger.warn(
+            `Failed to fetch workflow at ${url}, treating as not found.`,
+            { url, status: response.status }
+          );
           throw new NotFoundError(
             `Failed to fetch workflow. The workflow may not exist or the server encountered an internal error.`
           );
@@ -457,12 +713,16 @@ async function apiRequest<T>(
     } catch (fetchError) {
       // Clear the timeout if we're encountering a different error
       clearTimeout(timeoutId);
+      removeAbortListener();
 
       // Handle specific fetch errors
       if (
         fetchError instanceof DOMException &&
         fetchError.name === "AbortError"
       ) {
+        if (auth.signal?.aborted) {
+          throw abortErrorFrom(auth.signal);
+        }
         throw new NetworkError(`Request timed out after ${timeout}ms`);
       }
 
@@ -470,28 +730,33 @@ async function apiRequest<T>(
     }
   } catch (error) {
     // Rethrow specific API error types so they can be handled specially
-    if (error instanceof ApiError) {
-      throw error;
+    if (error instanceof ApiError || error instanceof AbortError) {
+      throw redactor.redactError(error);
     }
 
-    console.error(
+    logger.error(
       `API Request Failed: ${
         error instanceof Error ? error.message : String(error)
-      }`
+      }`,
+      { error }
     );
 
     // Network errors (fetch failures)
     if (error instanceof TypeError && error.message.includes("fetch")) {
       throw new NetworkError(
         "Network error: Failed to connect to API server",
-        error
+        redactor.redactError(error)
       );
     }
 
     if (error instanceof Error) {
-      throw new ApiError(error.message, error);
+      throw redactor.redactError(
+        new ApiError(error.message, redactor.redactError(error))
+      );
     } else {
-      throw new ApiError(`Network request failed: ${String(error)}`);
+      throw redactor.redactError(
+        new ApiError(`Network request failed: ${String(error)}`)
+      );
     }
   }
 }
@@ -511,7 +776,9 @@ export async function listWorkflows(
       params
     );
   } catch (error) {
-    console.error("Failed to list workflows:", error);
+    authLogger(auth, authRedactor(auth)).error("Failed to list workflows", {
+      error,
+    });
     throw error;
   }
 }
@@ -527,35 +794,40 @@ export async function getWorkflowDetail(
     throw new ApiError("Workflow ID is required");
   }
 
-  console.log(`Fetching details for workflow ID: ${workflowId}`);
+  const logger = authLogger(auth, authRedactor(auth));
+  logger.debug(`Fetching details for workflow ID: ${workflowId}`, {
+    workflowId,
+  });
   try {
     const result = await apiRequest<WorkflowDetail>(
       `/workflows/${workflowId}`,
       "GET",
-      auth
+      auth,
+      undefined,
+      undefined,
+      "/workflows/:id"
     );
 
     // Log the full response for debugging
-    console.log(
-      `Workflow detail response for ${workflowId}:`,
-      JSON.stringify(result, null, 2)
-    );
+    logger.debug(`Workflow detail response for ${workflowId}`, {
+      workflowId,
+      response: result,
+    });
 
     // Log whether YAML content was found
     if (!result.yaml) {
-      console.warn(`Warning: No YAML content found for workflow ${workflowId}`);
-    } else {
-      console.log(
-        `Successfully retrieved YAML content for workflow ${workflowId}`
-      );
+      logger.warn(`No YAML content found for workflow ${workflowId}`, {
+        workflowId,
+      });
     }
 
     return result;
   } catch (error) {
-    console.error(
+    logger.error(
       `Failed to get details for workflow ${workflowId}: ${
         error instanceof Error ? error.message : String(error)
-      }`
+      }`,
+      { workflowId, error }
     );
     throw error;
   }
@@ -1,19 +1,186 @@
 // Export socket connection functions
 import { connectSocket, SocketConnectionError } from "./socket/connect";
-import { runWorkflow, WorkflowError } from "./socket/workflow";
+import {
+  PocketFlowConnection,
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateListener,
+  ConnectionCloseOptions,
+} from "./socket/connection";
+import {
+  OutboundQueueOptions,
+  OutboundDrop,
+  OutboundDropReason,
+  OutboundDropListener,
+} from "./socket/queue";
+import {
+  runWorkflow,
+  WorkflowError,
+  WorkflowCallOptions,
+  WorkflowRunEvents,
+} from "./socket/workflow";
+import {
+  WorkflowRunError,
+  WorkflowCancelledError,
+  WorkflowStalledError,
+  WorkflowDisconnectedError,
+} from "./socket/errors";
+import { WorkflowRetryOptions, isRetryableRunError } from "./socket/retry";
+import { WorkflowWatchdogOptions } from "./socket/watchdog";
+import {
+  FeedbackRequiredError,
+  FeedbackPolicy,
+  FeedbackTimeoutPolicy,
+} from "./socket/feedback-policy";
+import {
+  WorkflowRun,
+  WorkflowRunStatus,
+  WorkflowRunResult,
+  WorkflowRunListener,
+  WorkflowCancelOptions,
+} from "./socket/run";
+import { WorkflowEvent, WorkflowEventIteratorOptions } from "./socket/events";
+import {
+  diffState,
+  StatePatchOperation,
+  WorkflowStateDiff,
+} from "./socket/state";
+import {
+  createJsonlRecorder,
+  RecordedEvent,
+  RunRecorder,
+} from "./socket/recorder";
+import {
+  replayRecording,
+  parseRecording,
+  ReplayError,
+  ReplayOptions,
+  ReplayPacing,
+  ReplayResult,
+} from "./socket/replay";
+import {
+  createRunReadableStream,
+  encodeNdjson,
+  encodeServerSentEvent,
+  WorkflowStreamFormat,
+  WorkflowStreamOptions,
+} from "./socket/streams";
+
+// Export the instance-scoped client
+import {
+  PocketFlowClient,
+  PocketFlowClientOptions,
+  PocketFlowRequestOptions,
+} from "./client";
 
 // Export workflow HTTP API functions
 import { 
   listWorkflows, 
   getWorkflowDetail, 
+  DEFAULT_SERVER_URL,
   NotFoundError,
   ApiError,
   AuthenticationError,
   NetworkError
 } from "./http/client";
 
-// Export CLI functionality
-import * as cli from "./cli";
+// Export abort support
+import { AbortError } from "./abort";
+
+// Export logging
+import {
+  createConsoleLogger,
+  createJsonLogger,
+  createSilentLogger,
+  getDefaultLogger,
+  setDefaultLogger,
+  Logger,
+  LogLevel,
+  LogFields,
+  LoggerOptions,
+  JsonLoggerOptions,
+} from "./logger";
+
+// Export tracing
+import {
+  createTracer,
+  createInMemorySpanExporter,
+  createJsonlSpanExporter,
+  Tracer,
+  Span,
+  SpanData,
+  SpanEvent,
+  SpanStatus,
+  SpanAttributes,
+  SpanOptions,
+  SpanExporter,
+  InMemorySpanExporter,
+} from "./tracing";
+
+// Export metrics
+import {
+  createMetricsRegistry,
+  MetricsRegistry,
+  Counter,
+  Histogram,
+  DEFAULT_DURATION_BUCKETS,
+  MetricLabels,
+  MetricSnapshot,
+  CounterSnapshot,
+  HistogramSnapshot,
+} from "./metrics";
+
+// Export redaction
+import {
+  createRedactor,
+  redactLogger,
+  defaultSensitiveKeys,
+  Redactor,
+  RedactionOptions,
+} from "./redact";
+
+// Export credentials
+import {
+  Credentials,
+  CredentialsProvider,
+  CredentialsContext,
+  CredentialsReason,
+} from "./credentials";
+
+// Export feedback requests
+import {
+  normalizeFeedbackRequest,
+  validateFeedback,
+  parseFeedbackInput,
+  feedbackChoices,
+  FeedbackKind,
+  FeedbackRequest,
+  FeedbackResponse,
+  FeedbackValueMap,
+  FeedbackChoice,
+  FeedbackParseResult,
+  TextFeedbackRequest,
+  ConfirmFeedbackRequest,
+  SingleChoiceFeedbackRequest,
+  MultiChoiceFeedbackRequest,
+  NumberFeedbackRequest,
+  JsonFeedbackRequest,
+} from "./feedback";
+
+// Export recorded feedback answers
+import {
+  createAnswersFeedbackHandler,
+  parseFeedbackAnswers,
+  formatFeedbackAnswersReport,
+  FeedbackAnswer,
+  FeedbackAnswersFile,
+  FeedbackAnswersReport,
+  AnswersFeedbackHandler,
+  AnswersFeedbackHandlerOptions,
+} from "./feedback-answers";
+
+// Export environment settings
+import { getEnvironmentSettings, EnvironmentSettings } from "./settings";
 
 // Export default handlers
 import {
@@ -21,6 +188,8 @@ import {
   defaultSocketDisconnectionHandler,
   defaultFeedbackRequestHandler,
   defaultWorkflowLogHandler,
+  setFeedbackPrompt,
+  FeedbackPrompt,
 } from "./handlers/defaultHandlers";
 
 // Export types
@@ -28,6 +197,7 @@ import {
   SocketConnectionHandler,
   SocketDisconnectionHandler,
   FeedbackRequestHandler,
+  FeedbackHandlerContext,
   GenerationCompleteHandler,
   GenerationUpdateHandler,
   WorkflowLogHandler,
@@ -48,13 +218,41 @@ import {
 
 // Export everything
 export {
+  // Client
+  PocketFlowClient,
+  DEFAULT_SERVER_URL,
+
   // Socket functions
   connectSocket,
   runWorkflow,
+  WorkflowRun,
+  PocketFlowConnection,
+
+  // Workflow run streams
+  createRunReadableStream,
+  encodeNdjson,
+  encodeServerSentEvent,
+
+  // Workflow run state
+  diffState,
+
+  // Run retries
+  isRetryableRunError,
+
+  // Run recordings
+  createJsonlRecorder,
+  replayRecording,
+  parseRecording,
   
   // Socket error classes
   SocketConnectionError,
   WorkflowError,
+  WorkflowRunError,
+  WorkflowCancelledError,
+  WorkflowStalledError,
+  WorkflowDisconnectedError,
+  FeedbackRequiredError,
+  ReplayError,
 
   // HTTP API functions
   listWorkflows,
@@ -66,24 +264,158 @@ export {
   AuthenticationError,
   NetworkError,
 
-  // CLI functionality
-  cli,
+  // Abort error class
+  AbortError,
+
+  // Logging
+  createConsoleLogger,
+  createJsonLogger,
+  createSilentLogger,
+  getDefaultLogger,
+  setDefaultLogger,
+
+  // Tracing
+  createTracer,
+  createInMemorySpanExporter,
+  createJsonlSpanExporter,
+  Tracer,
+  Span,
+
+  // Metrics
+  createMetricsRegistry,
+  MetricsRegistry,
+  Counter,
+  Histogram,
+  DEFAULT_DURATION_BUCKETS,
+
+  // Redaction
+  createRedactor,
+  redactLogger,
+  defaultSensitiveKeys,
+
+  // Feedback requests
+  normalizeFeedbackRequest,
+  validateFeedback,
+  parseFeedbackInput,
+  feedbackChoices,
+
+  // Recorded feedback answers
+  createAnswersFeedbackHandler,
+  parseFeedbackAnswers,
+  formatFeedbackAnswersReport,
+
+  // Environment settings
+  getEnvironmentSettings,
 
   // Default handlers
   defaultSocketConnectionHandler,
   defaultSocketDisconnectionHandler,
   defaultFeedbackRequestHandler,
   defaultWorkflowLogHandler,
+  setFeedbackPrompt,
 
   // Socket Types
   SocketConnectionHandler,
   SocketDisconnectionHandler,
   FeedbackRequestHandler,
+  FeedbackHandlerContext,
   GenerationCompleteHandler,
   GenerationUpdateHandler,
   WorkflowLogHandler,
   SocketConfig,
 
+  // Connection Types
+  ConnectionState,
+  ConnectionStateChange,
+  ConnectionStateListener,
+  ConnectionCloseOptions,
+  OutboundQueueOptions,
+  OutboundDrop,
+  OutboundDropReason,
+  OutboundDropListener,
+
+  // Workflow run Types
+  WorkflowRunStatus,
+  WorkflowRunResult,
+  WorkflowRunListener,
+  WorkflowCancelOptions,
+  WorkflowCallOptions,
+  WorkflowRunEvents,
+  WorkflowEvent,
+  WorkflowEventIteratorOptions,
+  WorkflowStateDiff,
+  StatePatchOperation,
+  RecordedEvent,
+  RunRecorder,
+  ReplayOptions,
+  ReplayPacing,
+  ReplayResult,
+  WorkflowStreamFormat,
+  WorkflowStreamOptions,
+  WorkflowWatchdogOptions,
+  WorkflowRetryOptions,
+
+  // Client Types
+  PocketFlowClientOptions,
+  PocketFlowRequestOptions,
+
+  // Logging Types
+  Logger,
+  LogLevel,
+  LogFields,
+  LoggerOptions,
+  JsonLoggerOptions,
+
+  // Tracing Types
+  SpanData,
+  SpanEvent,
+  SpanStatus,
+  SpanAttributes,
+  SpanOptions,
+  SpanExporter,
+  InMemorySpanExporter,
+
+  // Metrics Types
+  MetricLabels,
+  MetricSnapshot,
+  CounterSnapshot,
+  HistogramSnapshot,
+
+  // Redaction Types
+  Redactor,
+  RedactionOptions,
+
+  // Credentials Types
+  Credentials,
+  CredentialsProvider,
+  CredentialsContext,
+  CredentialsReason,
+
+  // Feedback Types
+  FeedbackKind,
+  FeedbackRequest,
+  FeedbackResponse,
+  FeedbackValueMap,
+  FeedbackChoice,
+  FeedbackParseResult,
+  TextFeedbackRequest,
+  ConfirmFeedbackRequest,
+  SingleChoiceFeedbackRequest,
+  MultiChoiceFeedbackRequest,
+  NumberFeedbackRequest,
+  JsonFeedbackRequest,
+  FeedbackPolicy,
+  FeedbackTimeoutPolicy,
+  FeedbackAnswer,
+  FeedbackAnswersFile,
+  FeedbackAnswersReport,
+  AnswersFeedbackHandler,
+  AnswersFeedbackHandlerOptions,
+  FeedbackPrompt,
+
+  // Environment Types
+  EnvironmentSettings,
+
   // HTTP API Types
   ApiAuth,
   WorkflowListParams,
@@ -0,0 +1,186 @@
+/**
+ * Structured logging for the SDK
+ */
+
+/**
+ * Severity of a log entry, from least to most severe
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured data attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger used by every SDK module. Implementations can forward the entries
+ * to any logging library.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /**
+   * Create a logger that adds the given fields to every entry
+   * @param fields Fields to add
+   * @returns The child logger
+   */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Options for the built-in loggers
+ */
+export interface LoggerOptions {
+  /**
+   * Least severe level that is written
+   * @default "info"
+   */
+  level?: LogLevel;
+
+  /**
+   * Fields added to every entry
+   */
+  fields?: LogFields;
+}
+
+/**
+ * Options for the JSON lines logger
+ */
+export interface JsonLoggerOptions extends LoggerOptions {
+  /**
+   * Function that writes one JSON line (default: console.log)
+   */
+  write?: (line: string) => void;
+}
+
+const levelOrder: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Turn errors into plain objects so they survive JSON serialization
+ * @param fields The fields of a log entry
+ * @returns The fields with every Error replaced by its name, message and stack
+ */
+export const serializeLogFields = (fields: LogFields): LogFields => {
+  const serialized: LogFields = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    serialized[key] =
+      value instanceof Error
+        ? { name: value.name, message: value.message, stack: value.stack }
+        : value;
+  });
+  return serialized;
+};
+
+/**
+ * Build a logger from a function that writes a single entry
+ * @param write Function that writes an entry with the merged fields
+ * @param options Level and base fields
+ * @returns The logger
+ */
+const createLogger = (
+  write: (level: LogLevel, message: string, fields: LogFields) => void,
+  { level = "info", fields: baseFields = {} }: LoggerOptions
+): Logger => {
+  const log =
+    (entryLevel: LogLevel) =>
+    (message: string, fields: LogFields = {}) => {
+      if (levelOrder[entryLevel] < levelOrder[level]) {
+        return;
+      }
+      write(entryLevel, message, { ...baseFields, ...fields });
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields: LogFields) =>
+      createLogger(write, { level, fields: { ...baseFields, ...fields } }),
+  };
+};
+
+/**
+ * Create a logger that discards every entry
+ * @returns The silent logger
+ */
+export const createSilentLogger = (): Logger => {
+  const logger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => logger,
+  };
+  return logger;
+};
+
+/**
+ * Create a logger that writes human-readable entries to the console,
+ * passing the fields as a second argument so they can be inspected
+ * @param options Level and base fields
+ * @returns The console logger
+ */
+export const createConsoleLogger = (options: LoggerOptions = {}): Logger =>
+  createLogger((level, message, fields) => {
+    const write =
+      level === "error"
+        ? console.error
+        : level === "warn"
+        ? console.warn
+        : console.log;
+
+    if (Object.keys(fields).length > 0) {
+      write(message, fields);
+    } else {
+      write(message);
+    }
+  }, options);
+
+/**
+ * Create a logger that writes every entry as one line of JSON with
+ * `time`, `level` and `msg` next to the entry's fields
+ * @param options Level, base fields and the function that writes a line
+ * @returns The JSON lines logger
+ */
+export const createJsonLogger = (options: JsonLoggerOptions = {}): Logger => {
+  const { write = (line: string) => console.log(line) } = options;
+
+  return createLogger((level, message, fields) => {
+    write(
+      JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...serializeLogFields(fields),
+      })
+    );
+  }, options);
+};
+
+/**
+ * Logger used when none is passed in the options of a call
+ */
+let defaultLogger: Logger = createConsoleLogger();
+
+/**
+ * Get the logger used when none is passed in the options of a call
+ * @returns The default logger
+ */
+export const getDefaultLogger = (): Logger => defaultLogger;
+
+/**
+ * Replace the logger used when none is passed in the options of a call
+ * @param logger The new default logger
+ */
+export const setDefaultLogger = (logger: Logger): void => {
+  defaultLogger = logger;
+};
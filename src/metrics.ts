@@ -0,0 +1,370 @@
+/**
+ * Counters and histograms for workflow runs, nodes, feedback, reconnects
+ * and API requests, with snapshots and Prometheus text exposition
+ */
+
+/**
+ * Labels of a metric series, such as `{ workflow_id: "wf_1" }`
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Values of a counter, one series per label combination
+ */
+export interface CounterSnapshot {
+  type: "counter";
+  name: string;
+  help: string;
+  series: { labels: MetricLabels; value: number }[];
+}
+
+/**
+ * Observations of a histogram, one series per label combination
+ */
+export interface HistogramSnapshot {
+  type: "histogram";
+  name: string;
+  help: string;
+
+  /**
+   * Upper bounds of the buckets, in ascending order
+   */
+  buckets: number[];
+
+  series: {
+    labels: MetricLabels;
+
+    /**
+     * Number of observations
+     */
+    count: number;
+
+    /**
+     * Sum of the observed values
+     */
+    sum: number;
+
+    /**
+     * Number of observations less than or equal to each bucket's bound
+     */
+    bucketCounts: number[];
+  }[];
+}
+
+/**
+ * Values of a metric at one point in time
+ */
+export type MetricSnapshot = CounterSnapshot | HistogramSnapshot;
+
+/**
+ * Bucket bounds for durations in seconds, from 5ms to 10 minutes
+ */
+export const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+  600,
+];
+
+/**
+ * Key of a label combination, the same whatever the order of the labels
+ */
+const seriesKey = (labels: MetricLabels): string =>
+  JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, labels[name]])
+  );
+
+/**
+ * A value that only goes up, such as the number of runs that completed
+ */
+export class Counter {
+  private readonly values = new Map<
+    string,
+    { labels: MetricLabels; value: number }
+  >();
+
+  /**
+   * @param name The name of the counter
+   * @param help What the counter counts
+   */
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  /**
+   * Increase the series with the given labels
+   * @param labels The labels of the series
+   * @param amount How much to add, which must not be negative
+   */
+  inc(labels: MetricLabels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new RangeError(`Counter ${this.name} cannot be decreased`);
+    }
+    const key = seriesKey(labels);
+    const series = this.values.get(key) || { labels: { ...labels }, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  /**
+   * Current values of the counter
+   * @returns A snapshot that later increases do not change
+   */
+  snapshot(): CounterSnapshot {
+    return {
+      type: "counter",
+      name: this.name,
+      help: this.help,
+      series: Array.from(this.values.values()).map(({ labels, value }) => ({
+        labels: { ...labels },
+        value,
+      })),
+    };
+  }
+}
+
+/**
+ * Distribution of observed values, such as run durations, counted in
+ * buckets
+ */
+export class Histogram {
+  /**
+   * Upper bounds of the buckets, in ascending order
+   */
+  public readonly buckets: number[];
+
+  private readonly values = new Map<
+    string,
+    { labels: MetricLabels; count: number; sum: number; counts: number[] }
+  >();
+
+  /**
+   * @param name The name of the histogram
+   * @param help What the histogram observes
+   * @param buckets Upper bounds of the buckets
+   */
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    buckets: number[] = DEFAULT_DURATION_BUCKETS
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record a value in the series with the given labels
+   * @param value The value
+   * @param labels The labels of the series
+   */
+  observe(value: number, labels: MetricLabels = {}): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) || {
+      labels: { ...labels },
+      count: 0,
+      sum: 0,
+      counts: this.buckets.map(() => 0),
+    };
+    series.count += 1;
+    series.sum += value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index] += 1;
+      }
+    });
+    this.values.set(key, series);
+  }
+
+  /**
+   * Current observations of the histogram
+   * @returns A snapshot that later observations do not change
+   */
+  snapshot(): HistogramSnapshot {
+    return {
+      type: "histogram",
+      name: this.name,
+      help: this.help,
+      buckets: [...this.buckets],
+      series: Array.from(this.values.values()).map(
+        ({ labels, count, sum, counts }) => ({
+          labels: { ...labels },
+          count,
+          sum,
+          bucketCounts: [...counts],
+        })
+      ),
+    };
+  }
+}
+
+const escapeHelp = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+const escapeLabelValue = (value: string): string =>
+  escapeHelp(value).replace(/"/g, '\\"');
+
+/**
+ * Format labels as `{name="value",...}`, or nothing without labels
+ */
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.keys(labels).map(
+    (name) => `${name}="${escapeLabelValue(labels[name])}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+/**
+ * Format a metric in the Prometheus text exposition format
+ */
+const formatMetric = (metric: MetricSnapshot): string[] => {
+  const lines = [
+    `# HELP ${metric.name} ${escapeHelp(metric.help)}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+  ];
+
+  if (metric.type === "counter") {
+    metric.series.forEach(({ labels, value }) =>
+      lines.push(`${metric.name}${formatLabels(labels)} ${value}`)
+    );
+    return lines;
+  }
+
+  metric.series.forEach(({ labels, count, sum, bucketCounts }) => {
+    const bucket = (le: string, value: number) =>
+      `${metric.name}_bucket${formatLabels({ ...labels, le })} ${value}`;
+
+    metric.buckets.forEach((bound, index) =>
+      lines.push(bucket(String(bound), bucketCounts[index]))
+    );
+    lines.push(
+      bucket("+Inf", count),
+      `${metric.name}_sum${formatLabels(labels)} ${sum}`,
+      `${metric.name}_count${formatLabels(labels)} ${count}`
+    );
+  });
+  return lines;
+};
+
+/**
+ * Holds the counters and histograms the SDK records into. Pass one registry
+ * to `PocketFlowClient`, or to `connectSocket`, `runWorkflow` and the HTTP
+ * functions, and read it with `snapshot()` or `toPrometheus()`.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Counter | Histogram>();
+
+  /**
+   * Get the counter with the given name, creating it on first use
+   * @param name The name of the counter
+   * @param help What the counter counts
+   * @returns The counter
+   * @throws {Error} If a histogram has the same name
+   */
+  counter(name: string, help: string): Counter {
+    const metric = this.metrics.get(name) || new Counter(name, help);
+    if (!(metric instanceof Counter)) {
+      throw new Error(`Metric ${name} is not a counter`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+
+  /**
+   * Get the histogram with the given name, creating it on first use
+   * @param name The name of the histogram
+   * @param help What the histogram observes
+   * @param buckets Upper bounds of the buckets, used when it is created
+   * @returns The histogram
+   * @throws {Error} If a counter has the same name
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const metric = this.metrics.get(name) || new Histogram(name, help, buckets);
+    if (!(metric instanceof Histogram)) {
+      throw new Error(`Metric ${name} is not a histogram`);
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+
+  /**
+   * Current values of every metric, in the order they were created
+   * @returns Snapshots that later updates do not change
+   */
+  snapshot(): MetricSnapshot[] {
+    return Array.from(this.metrics.values()).map((metric) =>
+      metric.snapshot()
+    );
+  }
+
+  /**
+   * Current values of every metric in the Prometheus text exposition
+   * format, for a `/metrics` endpoint
+   * @returns The text, ending with a newline
+   */
+  toPrometheus(): string {
+    const lines = this.snapshot().reduce<string[]>(
+      (all, metric) => all.concat(formatMetric(metric)),
+      []
+    );
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  /**
+   * Forget every metric and its values
+   */
+  reset(): void {
+    this.metrics.clear();
+  }
+}
+
+/**
+ * Create an empty metrics registry
+ * @returns The registry
+ */
+export const createMetricsRegistry = (): MetricsRegistry =>
+  new MetricsRegistry();
+
+/**
+ * Seconds elapsed since a time in milliseconds since the epoch
+ * @internal
+ */
+export const secondsSince = (startTime: number, endTime = Date.now()): number =>
+  Math.max(0, endTime - startTime) / 1000;
+
+/**
+ * The metrics the SDK records, created in the registry on first use
+ * @param registry The registry
+ * @returns The counters and histograms
+ * @internal
+ */
+export const sdkMetrics = (registry: MetricsRegistry) => ({
+  runs: registry.counter(
+    "pocketflow_runs_total",
+    "Workflow runs that ended, by workflow and outcome"
+  ),
+  runDuration: registry.histogram(
+    "pocketflow_run_duration_seconds",
+    "Duration of workflow runs, by workflow and outcome"
+  ),
+  nodeDuration: registry.histogram(
+    "pocketflow_node_duration_seconds",
+    "Time nodes were active during workflow runs, by workflow and node"
+  ),
+  nodeErrors: registry.counter(
+    "pocketflow_node_errors_total",
+    "Node errors reported during workflow runs, by workflow and node"
+  ),
+  feedbackWait: registry.histogram(
+    "pocketflow_feedback_wait_seconds",
+    "Time between a feedback request and its response, by kind"
+  ),
+  reconnects: registry.counter(
+    "pocketflow_reconnects_total",
+    "Times a socket connection was re-established after it was lost"
+  ),
+  httpRequests: registry.counter(
+    "pocketflow_http_requests_total",
+    "API requests, by method, route and status code"
+  ),
+  httpDuration: registry.histogram(
+    "pocketflow_http_request_duration_seconds",
+    "Latency of API requests, by method and route"
+  ),
+});
@@ -0,0 +1,14 @@
+import * as fs from "fs";
+import {
+  FeedbackAnswersFile,
+  parseFeedbackAnswers,
+} from "../feedback-answers";
+
+/**
+ * Read and parse a YAML or JSON answers file
+ * @param filePath Path to the file
+ * @returns The parsed answers
+ * @throws {Error} If the file cannot be read or is not a valid answers file
+ */
+export const loadFeedbackAnswers = (filePath: string): FeedbackAnswersFile =>
+  parseFeedbackAnswers(fs.readFileSync(filePath, "utf8"));
@@ -0,0 +1,112 @@
+import { createInterface } from "readline";
+import { feedbackChoices, FeedbackRequest, parseFeedbackInput } from "../feedback";
+import { FeedbackPrompt } from "../handlers/defaultHandlers";
+import { onAbort } from "../abort";
+
+/**
+ * Describe the accepted answers and the default value of a request
+ */
+const feedbackHint = (request: FeedbackRequest): string => {
+  const hints: string[] = [];
+  switch (request.kind) {
+    case "confirm":
+      hints.push(
+        request.defaultValue === true
+          ? "Y/n"
+          : request.defaultValue === false
+          ? "y/N"
+          : "y/n"
+      );
+      break;
+    case "single-choice":
+      hints.push(`1-${feedbackChoices(request).length}`);
+      break;
+    case "multi-choice":
+      hints.push("comma-separated numbers");
+      break;
+    case "number":
+      if (request.min !== undefined && request.max !== undefined) {
+        hints.push(`${request.min}-${request.max}`);
+      }
+      break;
+    case "json":
+      hints.push("JSON");
+      break;
+  }
+
+  if (request.defaultValue !== undefined && request.kind !== "confirm") {
+    const defaultValue =
+      typeof request.defaultValue === "string"
+        ? request.defaultValue
+        : JSON.stringify(request.defaultValue);
+    hints.push(`Default: ${defaultValue}`);
+  }
+
+  return hints.length > 0 ? ` (${hints.join(", ")})` : "";
+};
+
+/**
+ * Feedback prompt that asks in the terminal.
+ * Prompts for user input via readline according to the kind of the
+ * request, asks again until the answer is valid, and returns the typed
+ * answer. The prompt is closed when the context's signal aborts.
+ */
+export const terminalFeedbackPrompt: FeedbackPrompt = (
+  request,
+  context = {}
+) => {
+  // Simple CLI input using Node's readline
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const removeAbortListener = onAbort(context.signal, () => readline.close());
+
+  const question = (text: string) =>
+    new Promise<string>((resolve) => readline.question(text, resolve));
+
+  // Read lines until an empty one ends the answer
+  const readLines = async (): Promise<string> => {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await question("> ");
+      if (line === "") {
+        return lines.join("\n");
+      }
+      lines.push(line);
+    }
+  };
+
+  if (
+    request.kind === "single-choice" ||
+    request.kind === "multi-choice"
+  ) {
+    feedbackChoices(request).forEach((choice, i) => {
+      console.log(`  ${i + 1}) ${choice.label}`);
+    });
+  }
+
+  const prompt = `${request.prompt}${feedbackHint(request)}`;
+  const ask = async (): Promise<unknown> => {
+    for (;;) {
+      let answer: string;
+      if (request.kind === "multiline") {
+        console.log(`${prompt} (finish with an empty line):`);
+        answer = await readLines();
+      } else {
+        answer = await question(`${prompt}: `);
+      }
+
+      const result = parseFeedbackInput(request, answer);
+      if (result.valid) {
+        return result.value;
+      }
+      console.log(`Invalid answer: ${result.error}`);
+    }
+  };
+
+  return ask().finally(() => {
+    removeAbortListener();
+    readline.close();
+  });
+};
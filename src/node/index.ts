@@ -0,0 +1,63 @@
+/**
+ * Node.js entry point: the runtime-agnostic SDK plus the features that
+ * need Node.js built-ins
+ */
+
+// Load the .env file before anything reads the environment settings
+import env from "../env";
+
+// Export the runtime-agnostic SDK
+export * from "../index";
+
+// Export terminal feedback prompts
+import { setFeedbackPrompt } from "../handlers/defaultHandlers";
+import { terminalFeedbackPrompt } from "./feedback-prompt";
+
+// Export answers files
+import { loadFeedbackAnswers } from "./answers-file";
+
+// Export recording files
+import {
+  createFileRecorder,
+  readRecording,
+  FileRecorder,
+} from "./recording-file";
+
+// Export trace files
+import { createFileSpanExporter, FileSpanExporter } from "./trace-file";
+
+// Export Node.js streams
+import { createRunNodeReadable } from "../socket/node-stream";
+
+// Export CLI functionality
+import * as cli from "../cli";
+
+// Feedback requests are asked in the terminal
+setFeedbackPrompt(terminalFeedbackPrompt);
+
+// Export everything
+export {
+  // Environment loaded from .env
+  env,
+
+  // Terminal feedback prompts
+  terminalFeedbackPrompt,
+
+  // Answers files
+  loadFeedbackAnswers,
+
+  // Recording files
+  createFileRecorder,
+  readRecording,
+  FileRecorder,
+
+  // Trace files
+  createFileSpanExporter,
+  FileSpanExporter,
+
+  // Node.js streams
+  createRunNodeReadable,
+
+  // CLI functionality
+  cli,
+};
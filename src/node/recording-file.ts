@@ -0,0 +1,54 @@
+import * as fs from "fs";
+import {
+  createJsonlRecorder,
+  RecordedEvent,
+  RunRecorder,
+} from "../socket/recorder";
+import { parseRecording } from "../socket/replay";
+
+/**
+ * Recorder that appends to a JSON-lines file
+ */
+export interface FileRecorder extends RunRecorder {
+  /**
+   * Close the file. Events recorded afterwards are ignored.
+   */
+  close(): void;
+}
+
+/**
+ * Create a recorder that appends every event to a JSON-lines file. Each
+ * event is written as soon as it is recorded, so the file is complete up
+ * to the moment a process crashes.
+ * @param filePath Path to the file, which is created if it does not exist
+ * @returns The recorder
+ * @throws {Error} If the file cannot be opened
+ */
+export const createFileRecorder = (filePath: string): FileRecorder => {
+  let fd: number | undefined = fs.openSync(filePath, "a");
+  const recorder = createJsonlRecorder((line) => {
+    if (fd !== undefined) {
+      fs.writeSync(fd, line);
+    }
+  });
+
+  return {
+    record: (entry) => recorder.record(entry),
+    close: () => {
+      if (fd !== undefined) {
+        fs.closeSync(fd);
+        fd = undefined;
+      }
+    },
+  };
+};
+
+/**
+ * Read a recording written by `createFileRecorder`, for `replayRecording`
+ * @param filePath Path to the recording
+ * @returns The recorded events
+ * @throws {Error} If the file cannot be read
+ * @throws {ReplayError} If a line is not a recorded event
+ */
+export const readRecording = (filePath: string): RecordedEvent[] =>
+  parseRecording(fs.readFileSync(filePath, "utf8"));
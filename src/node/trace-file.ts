@@ -0,0 +1,38 @@
+import * as fs from "fs";
+import { createJsonlSpanExporter, SpanExporter } from "../tracing";
+
+/**
+ * Span exporter that appends to a JSON-lines file
+ */
+export interface FileSpanExporter extends SpanExporter {
+  /**
+   * Close the file. Spans exported afterwards are ignored.
+   */
+  close(): void;
+}
+
+/**
+ * Create a span exporter that appends every finished span to a JSON-lines
+ * file, one span per line
+ * @param filePath Path to the file, which is created if it does not exist
+ * @returns The exporter
+ * @throws {Error} If the file cannot be opened
+ */
+export const createFileSpanExporter = (filePath: string): FileSpanExporter => {
+  let fd: number | undefined = fs.openSync(filePath, "a");
+  const exporter = createJsonlSpanExporter((line) => {
+    if (fd !== undefined) {
+      fs.writeSync(fd, line);
+    }
+  });
+
+  return {
+    export: (span) => exporter.export(span),
+    close: () => {
+      if (fd !== undefined) {
+        fs.closeSync(fd);
+        fd = undefined;
+      }
+    },
+  };
+};
@@ -0,0 +1,267 @@
+/**
+ * Masking of secrets and sensitive fields in everything the SDK emits
+ */
+
+import { LogFields, Logger } from "./logger";
+
+/**
+ * Options for redacting sensitive data
+ */
+export interface RedactionOptions {
+  /**
+   * Dot-separated key paths to mask, relative to the value being redacted,
+   * for example `"input.password"` or `"state.*.ssn"`. A `*` segment
+   * matches any key or array index.
+   */
+  paths?: string[];
+
+  /**
+   * Key names to mask at any depth, in addition to the built-in ones for
+   * API keys, tokens, passwords and secrets
+   */
+  keys?: (string | RegExp)[];
+
+  /**
+   * Literal values to mask wherever they appear, including inside strings.
+   * Values shorter than 8 characters would match ordinary text, so they
+   * are only masked where they make up a whole string.
+   */
+  secrets?: string[];
+
+  /**
+   * Replacement for masked values
+   * @default "[REDACTED]"
+   */
+  mask?: string;
+}
+
+/**
+ * Masks secrets and sensitive fields in data before it leaves the SDK
+ */
+export interface Redactor {
+  /**
+   * Copy a value with every sensitive field and secret masked
+   * @param value The value to redact
+   * @returns The redacted copy; the value itself is left untouched
+   */
+  redact<T>(value: T): T;
+
+  /**
+   * Mask the secrets that appear in a text
+   * @param text The text to redact
+   * @returns The redacted text
+   */
+  redactText(text: string): string;
+
+  /**
+   * Mask the secrets in the message and stack of an error, in place, so
+   * the error keeps its class
+   * @param error The error to redact
+   * @returns The same error
+   */
+  redactError<E extends Error>(error: E): E;
+
+  /**
+   * Create a redactor that also masks the given secrets, like the
+   * `secrets` option
+   * @param secrets Secret values, such as an API key; empty values are ignored
+   * @returns The extended redactor
+   */
+  withSecrets(...secrets: (string | undefined)[]): Redactor;
+
+  /**
+   * Mask more secrets from now on, such as the tokens a credentials
+   * provider returns. Unlike `withSecrets`, this changes the redactor
+   * itself, so the loggers and runs that share it mask them too.
+   * @param secrets Secret values; empty values are ignored
+   */
+  addSecrets(...secrets: (string | undefined)[]): void;
+}
+
+/**
+ * Key names that are masked at any depth unless configured otherwise
+ */
+export const defaultSensitiveKeys: RegExp[] = [
+  /api[-_]?key/i,
+  /^(auth|access|refresh|id|session|bearer)?[-_]?token$/i,
+  /secret$/i,
+  /passw(or)?d/i,
+  /^authorization$/i,
+  /^cookie$/i,
+];
+
+/**
+ * Shortest secret that is masked inside longer text. Shorter ones would
+ * match ordinary words, so they are only masked as whole strings.
+ */
+const minSecretLength = 8;
+
+/**
+ * Credentials that are recognizable from their shape alone
+ */
+const sensitiveTextPatterns: RegExp[] = [/(Bearer\s+)[A-Za-z0-9._~+/-]+=*/g];
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const matchesKey = (key: string, patterns: (string | RegExp)[]): boolean =>
+  patterns.some((pattern) =>
+    typeof pattern === "string" ? pattern === key : pattern.test(key)
+  );
+
+const matchesPath = (path: string[], patterns: string[][]): boolean =>
+  patterns.some(
+    (pattern) =>
+      pattern.length === path.length &&
+      pattern.every((segment, i) => segment === "*" || segment === path[i])
+  );
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Create a redactor
+ * @param options Which fields and secrets to mask
+ * @returns The redactor
+ */
+export const createRedactor = (options: RedactionOptions = {}): Redactor => {
+  const { mask = "[REDACTED]" } = options;
+  const keys = [...defaultSensitiveKeys, ...(options.keys || [])];
+  const paths = (options.paths || []).map((path) => path.split("."));
+  const secrets: string[] = [];
+  let secretPattern: RegExp | undefined;
+
+  const addSecrets = (...extra: (string | undefined)[]) => {
+    const added = extra.filter(
+      (secret): secret is string =>
+        Boolean(secret) && !secrets.includes(secret!)
+    );
+    if (added.length === 0) {
+      return;
+    }
+    secrets.push(...added);
+
+    // Longest first, so a secret that contains another is masked as a whole
+    const maskedInText = secrets
+      .filter((secret) => secret.length >= minSecretLength)
+      .sort((a, b) => b.length - a.length);
+    secretPattern =
+      maskedInText.length > 0
+        ? new RegExp(maskedInText.map(escapeRegExp).join("|"), "g")
+        : undefined;
+  };
+  addSecrets(...(options.secrets || []));
+
+  const redactText = (text: string): string => {
+    if (secrets.includes(text)) {
+      return mask;
+    }
+    let redacted = secretPattern ? text.replace(secretPattern, mask) : text;
+    sensitiveTextPatterns.forEach((pattern) => {
+      redacted = redacted.replace(pattern, `$1${mask}`);
+    });
+    return redacted;
+  };
+
+  const redactValue = (
+    value: unknown,
+    path: string[],
+    seen: WeakMap<object, unknown>
+  ): unknown => {
+    if (typeof value === "string") {
+      return redactText(value);
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    const redactEntry = (key: string, entry: unknown) => {
+      const entryPath = [...path, key];
+      return matchesKey(key, keys) || matchesPath(entryPath, paths)
+        ? mask
+        : redactValue(entry, entryPath, seen);
+    };
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      value.forEach((entry, i) => copy.push(redactEntry(String(i), entry)));
+      return copy;
+    }
+
+    if (value instanceof Error) {
+      const copy = Object.create(Object.getPrototypeOf(value));
+      seen.set(value, copy);
+      Object.getOwnPropertyNames(value).forEach((key) => {
+        copy[key] = redactEntry(key, (value as any)[key]);
+      });
+      return copy;
+    }
+
+    // Class instances such as dates and buffers are left as they are
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    const copy: Record<string, unknown> = {};
+    seen.set(value, copy);
+    Object.entries(value).forEach(([key, entry]) => {
+      copy[key] = redactEntry(key, entry);
+    });
+    return copy;
+  };
+
+  return {
+    redact: <T>(value: T): T => redactValue(value, [], new WeakMap()) as T,
+    redactText,
+    redactError: <E extends Error>(error: E): E => {
+      error.message = redactText(error.message);
+      if (error.stack) {
+        error.stack = redactText(error.stack);
+      }
+      return error;
+    },
+    withSecrets: (...extra: (string | undefined)[]) =>
+      createRedactor({
+        ...options,
+        secrets: [
+          ...secrets,
+          ...extra.filter((secret): secret is string => Boolean(secret)),
+        ],
+      }),
+    addSecrets,
+  };
+};
+
+/**
+ * Wrap a logger so that messages and fields are redacted before they are written
+ * @param logger The logger to wrap
+ * @param redactor The redactor to apply
+ * @returns The redacting logger
+ */
+export const redactLogger = (logger: Logger, redactor: Redactor): Logger => {
+  const log =
+    (write: (message: string, fields?: LogFields) => void) =>
+    (message: string, fields?: LogFields) =>
+      write(
+        redactor.redactText(message),
+        fields && redactor.redact(fields)
+      );
+
+  return {
+    debug: log(logger.debug.bind(logger)),
+    info: log(logger.info.bind(logger)),
+    warn: log(logger.warn.bind(logger)),
+    error: log(logger.error.bind(logger)),
+    child: (fields: LogFields) =>
+      redactLogger(logger.child(redactor.redact(fields)), redactor),
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * Settings read from environment variables, in runtimes that have them
+ */
+
+/**
+ * PocketFlow settings from the environment
+ */
+export interface EnvironmentSettings {
+  /**
+   * POCKETFLOW_API_KEY
+   */
+  API_KEY?: string;
+
+  /**
+   * POCKETFLOW_SERVER_URL
+   */
+  SERVER_URL?: string;
+}
+
+/**
+ * Read the PocketFlow settings from environment variables. They are read
+ * on every call, so variables loaded from a .env file after the SDK was
+ * imported are still picked up. Runtimes without `process.env`, such as
+ * browsers, have no settings.
+ * @returns The settings that are set
+ */
+export const getEnvironmentSettings = (): EnvironmentSettings => {
+  const variables: Record<string, string | undefined> =
+    typeof process !== "undefined" && process.env ? process.env : {};
+
+  return {
+    API_KEY: variables.POCKETFLOW_API_KEY,
+    SERVER_URL: variables.POCKETFLOW_SERVER_URL,
+  };
+};
@@ -16,6 +16,35 @@ import {
   defaultStreamOutputHandler,
 } from "../handlers/defaultHandlers";
 import { EventHandlers } from "./workflow";
+import { PocketFlowConnection } from "./connection";
+import { RunRouter } from "./router";
+import { OutboundQueueOptions } from "./queue";
+import { recordEvent, RunRecorder } from "./recorder";
+import { createSequenceFilter } from "./resume";
+import { AbortError, abortErrorFrom, onAbort, throwIfAborted } from "../abort";
+import { getDefaultLogger, Logger } from "../logger";
+import {
+  FeedbackResponse,
+  normalizeFeedbackRequest,
+  validateFeedback,
+} from "../feedback";
+import {
+  createRedactor,
+  RedactionOptions,
+  Redactor,
+  redactLogger,
+} from "../redact";
+import {
+  canRefreshCredentials,
+  Credentials,
+  resolveCredentials,
+} from "../credentials";
+import {
+  answerFeedback,
+  FeedbackPolicy,
+  FeedbackRequiredError,
+} from "./feedback-policy";
+import { MetricsRegistry, sdkMetrics, secondsSince } from "../metrics";
 
 /**
  * Error thrown when socket connection fails
@@ -39,6 +68,14 @@ export interface SocketConnectionOptions {
    */
   token?: string;
 
+  /**
+   * Provider for the authentication token, called on the first connection
+   * attempt and on every reconnection attempt. Takes precedence over
+   * `token`. When the server rejects the token, the provider is asked for
+   * a fresh one and the connection is retried once.
+   */
+  credentials?: Credentials;
+
   /**
    * Function to handle workflow log messages
    */
@@ -49,6 +86,14 @@ export interface SocketConnectionOptions {
    */
   handleFeedback?: FeedbackRequestHandler;
 
+  /**
+   * How feedback requests are answered. The default `auto` policy prompts
+   * in the terminal only when stdin is one, and otherwise answers with the
+   * requests' default values, so runs without a person never hang.
+   * @default "auto"
+   */
+  feedbackPolicy?: FeedbackPolicy;
+
   /**
    * Function to handle stream output events
    */
@@ -63,27 +108,242 @@ export interface SocketConnectionOptions {
    * Function to handle socket disconnection event
    */
   handleDisconnection?: SocketDisconnectionHandler;
+
+  /**
+   * How long to wait for the connection to be established, in milliseconds
+   * @default 10000
+   */
+  connectTimeout?: number;
+
+  /**
+   * Limits of the queue that holds run requests and feedback responses
+   * while the socket is reconnecting
+   */
+  queue?: OutboundQueueOptions;
+
+  /**
+   * Recorder for the feedback responses sent on the connection, redacted
+   * like the logs. Pass the same recorder to `runWorkflow` to record the
+   * rest of each run.
+   */
+  recorder?: RunRecorder;
+
+  /**
+   * Registry for the time feedback requests wait for their response and
+   * the number of reconnects. Pass the same registry to `runWorkflow` for
+   * the metrics of each run.
+   */
+  metrics?: MetricsRegistry;
+
+  /**
+   * Signal that tears down the connection attempt when aborted.
+   * Once connected, the socket is no longer tied to the signal.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Logger for connection diagnostics (default: the SDK default logger)
+   */
+  logger?: Logger;
+
+  /**
+   * Extra fields and secrets to mask in logs and in the events printed by
+   * the default handlers. The token is always masked.
+   */
+  redact?: RedactionOptions;
 }
 
+/**
+ * Whether a connection error means the server rejected the credentials
+ */
+const isAuthenticationFailure = (error: any): boolean =>
+  Boolean(error) &&
+  (error.data?.status === 401 ||
+    /unauthori[sz]ed|authenticat|invalid token|token expired/i.test(
+      String(error.message)
+    ));
+
+/**
+ * Register the handlers for the run events that the connection answers
+ * itself: workflow logs, stream output and feedback requests
+ * @param connection The connection to listen on
+ * @param options The options with the handlers and the feedback policy
+ * @param redactor Redactor for the events printed by the default handlers
+ * @param logger Logger for handler diagnostics
+ * @internal
+ */
+export const attachEventHandlers = (
+  connection: PocketFlowConnection,
+  options: SocketConnectionOptions,
+  redactor: Redactor,
+  logger: Logger
+): void => {
+  // The default handlers print events, so they only see redacted data
+  const {
+    handleLog = (data: any) =>
+      defaultWorkflowLogHandler(redactor.redact(data), logger),
+    handleFeedback = (data: any, context) =>
+      defaultFeedbackRequestHandler(redactor.redact(data), context, logger),
+    handleStreamOutput = (data: any) =>
+      defaultStreamOutputHandler(redactor.redact(data), logger),
+    feedbackPolicy = "auto",
+    recorder,
+    metrics,
+  } = options;
+
+  // Events the server replays when a run resumes after a reconnect must
+  // reach the handlers only once
+  const isNewEvent = createSequenceFilter();
+
+  // Add log event handler
+  connection.on("workflow_log", (data: any) => {
+    if (!isNewEvent(data)) return;
+    handleLog(data);
+  });
+
+  // Set up stream output handler
+  connection.on("stream_output", (data: any) => {
+    if (!isNewEvent(data)) return;
+    handleStreamOutput(data);
+  });
+
+  // Set up feedback request handler
+  connection.on("feedback_request", (data: any) => {
+    if (!isNewEvent(data)) return;
+
+    const request = normalizeFeedbackRequest(data);
+    const { runId, requestId, kind } = request;
+    const requestedAt = Date.now();
+
+    // Echo the run correlation ID so the server can match the response
+    // to the right run when several runs share this socket
+    const correlation = {
+      ...(runId !== undefined ? { runId } : {}),
+      ...(requestId !== undefined ? { requestId } : {}),
+    };
+
+    const sendResponse = (response: FeedbackResponse) => {
+      if (metrics) {
+        sdkMetrics(metrics).feedbackWait.observe(secondsSince(requestedAt), {
+          kind,
+        });
+      }
+      recordEvent(
+        recorder,
+        "out",
+        "feedback_response",
+        response,
+        redactor,
+        logger
+      );
+      connection.emit("feedback_response", response);
+      // Lets the run's watchdog count time again
+      RunRouter.for(connection.socket).dispatchFeedbackResponse(response);
+    };
+
+    const sendError = (error: unknown) => {
+      // Still try to send a feedback response to prevent hanging
+      const response = {
+        ...correlation,
+        kind,
+        input: null,
+        error: error instanceof Error ? error.message : String(error),
+      } as FeedbackResponse;
+      sendResponse(response);
+    };
+
+    const respond = (input: unknown) => {
+      // Only requests with an explicit kind are checked, since answers to
+      // older servers' requests were never typed
+      const invalid =
+        data && data.kind !== undefined
+          ? validateFeedback(request, input)
+          : undefined;
+      if (invalid) {
+        logger.warn("Feedback handler returned an invalid answer", {
+          runId,
+          kind,
+          error: invalid,
+        });
+        sendError(`Invalid feedback: ${invalid}`);
+        return;
+      }
+
+      const response = {
+        ...correlation,
+        kind,
+        input: input === undefined ? null : input,
+      } as FeedbackResponse;
+      sendResponse(response);
+    };
+
+    const handleError = (message: string, error: unknown) => {
+      sendError(error);
+
+      // The policy has already reported why it refused to answer. The run
+      // fails right away instead of waiting for the server to give up.
+      if (error instanceof FeedbackRequiredError) {
+        RunRouter.for(connection.socket).fail(data, error);
+      } else {
+        logger.error(message, { runId, error });
+      }
+    };
+
+    try {
+      const response = answerFeedback(
+        request,
+        handleFeedback,
+        feedbackPolicy,
+        logger,
+        options.handleFeedback !== undefined
+      );
+      if (response instanceof Promise) {
+        // Closing the connection waits for the answer to be sent
+        connection.keepOpenUntil(response);
+        response
+          .then(respond)
+          .catch((error) => handleError("Error in feedback response", error));
+      } else {
+        respond(response);
+      }
+    } catch (error) {
+      handleError("Error handling feedback request", error);
+    }
+  });
+};
+
 /**
  * Connects to a socket server at the specified URL.
  * @param url The URL of the socket server to connect to. Defaults to 'api.pocketflow.ai'.
  * @param options Options for customizing the socket connection.
- * @returns A Promise that resolves with a Socket instance connected to the specified server.
+ * @returns A Promise that resolves with a connection to the specified server.
  * @throws {SocketConnectionError} If the connection fails or times out
+ * @throws {AbortError} If the signal is aborted before the connection is established
  */
 export const connectSocket = async (
   url: string = "api.pocketflow.ai",
   options: SocketConnectionOptions = {}
-): Promise<Socket> => {
+): Promise<PocketFlowConnection> => {
+  // Tokens from a credentials provider are added as they are resolved
+  const redactor = createRedactor(options.redact).withSecrets(
+    options.token,
+    typeof options.credentials === "string" ? options.credentials : undefined
+  );
+
   const {
     token,
-    handleLog = defaultWorkflowLogHandler,
-    handleFeedback = defaultFeedbackRequestHandler,
-    handleStreamOutput = defaultStreamOutputHandler,
-    handleConnection = defaultSocketConnectionHandler,
-    handleDisconnection = defaultSocketDisconnectionHandler,
+    handleConnection = () => defaultSocketConnectionHandler(logger),
+    handleDisconnection = (reason: string) =>
+      defaultSocketDisconnectionHandler(reason, logger),
+    connectTimeout = 10000,
+    signal,
   } = options;
+  const logger = redactLogger(
+    options.logger || getDefaultLogger(),
+    redactor
+  ).child({ component: "socket" });
+  throwIfAborted(signal);
+
   if (!url.startsWith("http://") && !url.startsWith("https://")) {
     url = "https://" + url;
   }
@@ -92,7 +352,7 @@ export const connectSocket = async (
     // Parse the URL to check if it's valid
     new URL(url);
   } catch (error) {
-    console.error(`Invalid URL: ${url}`, error);
+    logger.error(`Invalid URL: ${url}`, { url, error });
     throw new SocketConnectionError(
       `Invalid socket server URL: ${url}. Please provide a valid URL.`,
       error instanceof Error ? error : undefined
@@ -120,13 +380,38 @@ export const connectSocket = async (
     socketOptions.extraHeaders = undefined;
   }
 
-  // Add token to auth if provided
-  if (token) {
+  // Ask the provider for a token on every connection attempt, or add the
+  // static token to auth if provided
+  const { credentials } = options;
+  let hasConnected = false;
+  let forceRefresh = false;
+  let refreshedAfterRejection = false;
+  if (canRefreshCredentials(credentials)) {
+    socketOptions.auth = (callback: (data: object) => void) => {
+      const context = {
+        reason: hasConnected ? ("reconnect" as const) : ("connect" as const),
+        forceRefresh,
+      };
+      forceRefresh = false;
+      resolveCredentials(credentials, context).then(
+        (currentToken) => {
+          redactor.addSecrets(currentToken);
+          callback(currentToken ? { token: currentToken } : {});
+        },
+        (error) => {
+          logger.error("Failed to get credentials for the socket connection", {
+            error,
+          });
+          callback({});
+        }
+      );
+    };
+  } else if (credentials || token) {
     socketOptions.auth = {
-      token: token,
+      token: credentials || token,
     };
   } else {
-    console.warn("No authentication token provided");
+    logger.warn("No authentication token provided", { url });
   }
 
   let socket: Socket;
@@ -134,57 +419,81 @@ export const connectSocket = async (
   try {
     socket = io(url, socketOptions);
   } catch (error) {
-    console.error(`Error creating socket:`, error);
+    logger.error("Error creating socket", { url, error });
     throw new SocketConnectionError(
       `Failed to create socket connection to ${url}`,
       error instanceof Error ? error : undefined
     );
   }
 
+  // Every listener below is registered through the connection, so closing
+  // it removes them without touching listeners added by anyone else
+  const connection = new PocketFlowConnection(socket, logger, options.queue);
+
   // Add connection event handler
-  socket.on("connect", () => {
+  connection.on("connect", () => {
+    if (hasConnected && options.metrics) {
+      sdkMetrics(options.metrics).reconnects.inc();
+    }
+    hasConnected = true;
+    refreshedAfterRejection = false;
     if (handleConnection) {
       handleConnection();
     }
   });
 
-  // Add disconnect event handler with enhanced logging
-  socket.on("disconnect", (reason) => {
-    console.error(`Socket disconnected: ${reason}`, new Error().stack);
-    console.error(
-      `Disconnect details - Socket ID: ${socket.id}, Connected: ${socket.connected}, URL: ${url}`
-    );
+  // Add disconnect event handler
+  connection.on("disconnect", (reason: any) => {
+    const fields = { reason, socketId: socket.id, url };
+    // Closing the socket on purpose is expected, anything else is not
+    if (reason === "io client disconnect") {
+      logger.debug(`Socket disconnected: ${reason}`, fields);
+    } else {
+      logger.warn(`Socket disconnected: ${reason}`, fields);
+    }
     if (handleDisconnection) {
       handleDisconnection(reason);
     }
   });
 
   // Add reconnect error event handler
-  socket.on("reconnect_error", (error) => {
-    console.error("Socket reconnect error:", error);
+  connection.onManager("reconnect_error", (error) => {
+    logger.warn("Socket reconnect error", { error });
   });
 
   // Add reconnect failed event handler
-  socket.on("reconnect_failed", () => {
-    console.error("Socket reconnect failed after all attempts");
+  connection.onManager("reconnect_failed", () => {
+    logger.error("Socket reconnect failed after all attempts", { url });
 
-    // Force close the socket when reconnection fails
-    try {
-      socket.disconnect();
-    } catch (error) {
-      console.error("Error forcibly disconnecting socket:", error);
-    }
+    // Force close the connection when reconnection fails
+    connection.disconnect();
   });
 
   // Add error event handler
-  socket.on("error", (error) => {
-    console.error("Socket error:", error);
+  connection.on("error", (error: any) => {
+    logger.error("Socket error", { error });
+  });
+
+  // socket.io does not retry a connection the server rejected, so ask the
+  // provider for a fresh token and try once more
+  let retryingWithFreshCredentials = false;
+  connection.on("connect_error", (error: any) => {
+    retryingWithFreshCredentials =
+      canRefreshCredentials(credentials) &&
+      !refreshedAfterRejection &&
+      isAuthenticationFailure(error);
+    if (retryingWithFreshCredentials) {
+      logger.info("Server rejected the credentials, retrying with fresh ones");
+      refreshedAfterRejection = true;
+      forceRefresh = true;
+      socket.connect();
+    }
   });
 
   // Add connect_error event handler
-  socket.on("connect_error", (error) => {
-    console.error("Socket connection error:", error);
-    console.error("Connection details:", {
+  connection.on("connect_error", (error: any) => {
+    logger.error("Socket connection error", {
+      error,
       url,
       socketId: socket.id,
       transportOptions: socket.io?.opts?.transports,
@@ -192,100 +501,75 @@ export const connectSocket = async (
     });
   });
 
-  socket.on("connect_timeout", (timeout) => {
-    console.error("Socket connect_timeout:", timeout);
-  });
-
-  socket.io.on("reconnect_attempt", (attemptNumber) => {
-    console.log(`Socket reconnect attempt #${attemptNumber}`);
+  connection.on("connect_timeout", (timeout: any) => {
+    logger.error("Socket connect_timeout", { timeout });
   });
 
-  // Add log event handler
-  socket.on("workflow_log", (data) => {
-    handleLog(data);
-  });
-
-  // Set up stream output handler
-  socket.on("stream_output", (data) => {
-    handleStreamOutput(data);
+  connection.onManager("reconnect_attempt", (attemptNumber) => {
+    logger.info(`Socket reconnect attempt #${attemptNumber}`, {
+      attemptNumber,
+    });
   });
 
-  // Set up feedback request handler
-  socket.on("feedback_request", (data) => {
-    try {
-      const response = handleFeedback(data);
-      if (response instanceof Promise) {
-        response
-          .then((input) => {
-            socket.emit("feedback_response", { input });
-          })
-          .catch((error) => {
-            console.error("Error in feedback response:", error);
-            // Still try to send a feedback response to prevent hanging
-            socket.emit("feedback_response", {
-              input: null,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          });
-      } else {
-        socket.emit("feedback_response", { input: response });
-      }
-    } catch (error) {
-      console.error("Error handling feedback request:", error);
-      // Still try to send a feedback response to prevent hanging
-      socket.emit("feedback_response", {
-        input: null,
-        error: error instanceof Error ? error.message : String(error),
-      });
-    }
-  });
+  attachEventHandlers(connection, options, redactor, logger);
 
   // Connect to the socket server
   socket.connect();
 
-  // Wait for the socket to connect or timeout
+  // Wait for the socket to connect, time out or be aborted
+  let removeAbortListener = () => {};
   try {
     await new Promise<void>((resolve, reject) => {
       // Set a timeout for connection
       const timeoutId = setTimeout(() => {
         reject(
           new SocketConnectionError(
-            "Socket connection timed out after 10 seconds"
+            `Socket connection timed out after ${connectTimeout / 1000} seconds`
           )
         );
-      }, 10000);
+      }, connectTimeout);
 
-      // Handle successful connection
-      socket.once("connect", () => {
+      // Tear down the pending connection if the caller aborts
+      removeAbortListener = onAbort(signal, () => {
         clearTimeout(timeoutId);
-        resolve();
+        reject(abortErrorFrom(signal!));
       });
 
-      // Handle connection error
-      socket.once("connect_error", (error) => {
+      // Handle connection error, unless the connection is being retried
+      const handleConnectError = (error: Error) => {
+        if (retryingWithFreshCredentials) {
+          return;
+        }
         clearTimeout(timeoutId);
+        connection.off("connect_error", handleConnectError);
         reject(
           new SocketConnectionError(
             "Failed to connect to socket server",
             error instanceof Error ? error : undefined
           )
         );
+      };
+      connection.on("connect_error", handleConnectError);
+
+      // Handle successful connection
+      connection.once("connect", () => {
+        clearTimeout(timeoutId);
+        connection.off("connect_error", handleConnectError);
+        resolve();
       });
     });
   } catch (error) {
-    // Make sure we clean up the socket on error
-    try {
-      socket.disconnect();
-      socket.removeAllListeners();
-    } catch (cleanupError) {
-      console.error(
-        "Error cleaning up socket after connection failure:",
-        cleanupError
-      );
+    removeAbortListener();
+
+    // Make sure we clean up the socket on error, removing only our listeners
+    if (error instanceof AbortError) {
+      connection.disconnect();
+    } else {
+      connection.fail(error instanceof Error ? error : undefined);
     }
 
     // Rethrow the error
-    throw error instanceof SocketConnectionError
+    throw error instanceof SocketConnectionError || error instanceof AbortError
       ? error
       : new SocketConnectionError(
           "Failed to establish socket connection",
@@ -293,18 +577,7 @@ export const connectSocket = async (
         );
   }
 
-  // Add a custom disconnect method that ensures complete cleanup
-  const originalDisconnect = socket.disconnect;
-  socket.disconnect = function () {
-    // Remove all listeners to prevent memory leaks
-    socket.removeAllListeners();
-
-    // Call the original disconnect
-    originalDisconnect.call(socket);
-
-    console.log("Socket fully disconnected and cleaned up");
-    return socket;
-  };
+  removeAbortListener();
 
-  return socket;
+  return connection;
 };
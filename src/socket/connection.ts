@@ -0,0 +1,449 @@
+import { Socket } from "socket.io-client";
+import { getDefaultLogger, Logger } from "../logger";
+import {
+  OutboundDropListener,
+  OutboundQueue,
+  OutboundQueueOptions,
+} from "./queue";
+import { RunRouter } from "./router";
+
+/**
+ * Lifecycle state of a connection
+ * - `connecting`: the first connection attempt is in progress
+ * - `connected`: the socket is connected
+ * - `reconnecting`: the connection was lost and socket.io is reconnecting
+ * - `disconnected`: the connection was closed and will not reconnect on its own
+ * - `failed`: the connection could not be established or re-established
+ */
+export type ConnectionState =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected"
+  | "failed";
+
+/**
+ * A change of a connection's state
+ */
+export interface ConnectionStateChange {
+  state: ConnectionState;
+  previous: ConnectionState;
+
+  /**
+   * Disconnect reason reported by socket.io, when the change is a disconnect
+   */
+  reason?: string;
+
+  /**
+   * Error that made the connection fail
+   */
+  error?: Error;
+}
+
+/**
+ * Listener for connection state changes
+ */
+export type ConnectionStateListener = (change: ConnectionStateChange) => void;
+
+/**
+ * Options for closing a connection
+ */
+export interface ConnectionCloseOptions {
+  /**
+   * Whether to wait for the runs and feedback responses in progress before
+   * disconnecting. New runs are refused while the connection drains.
+   * @default true
+   */
+  drain?: boolean;
+
+  /**
+   * Longest time to wait while draining, in milliseconds. Once it passes,
+   * the connection is closed anyway and runs still in progress fail.
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+/**
+ * Disconnect reasons after which socket.io does not reconnect on its own
+ */
+export const permanentDisconnectReasons = [
+  "io client disconnect",
+  "io server disconnect",
+];
+
+type Listener = (...args: any[]) => void;
+
+interface RegisteredListener {
+  target: "socket" | "manager";
+  event: string;
+  listener: Listener;
+  registered: Listener;
+}
+
+/**
+ * A connection to the PocketFlow socket server, as returned by
+ * `connectSocket`.
+ *
+ * The connection tracks every listener registered through it, so closing
+ * it removes exactly those and leaves listeners added to the underlying
+ * socket by other code in place.
+ *
+ * Events sent while the socket is connecting or reconnecting are held in a
+ * bounded queue and sent once it connects, instead of being buffered out of
+ * sight by socket.io.
+ */
+export class PocketFlowConnection {
+  private currentState: ConnectionState = "connecting";
+  private stateListeners = new Set<ConnectionStateListener>();
+  private listeners: RegisteredListener[] = [];
+  private pending = new Set<Promise<unknown>>();
+  private closing?: Promise<void>;
+  private closed = false;
+  private queue: OutboundQueue;
+
+  /**
+   * @param socket The socket.io socket to manage. It must not be connected yet,
+   * so that no state change is missed.
+   * @param logger Logger for lifecycle diagnostics
+   * @param queue Limits of the queue for events sent while disconnected
+   */
+  constructor(
+    public readonly socket: Socket,
+    private readonly logger: Logger = getDefaultLogger(),
+    queue: OutboundQueueOptions = {}
+  ) {
+    this.queue = new OutboundQueue(logger, queue);
+    this.on("connect", () => {
+      this.setState("connected");
+      this.queue.flush((event, args) => this.socket.emit(event, ...args));
+    });
+    this.on("disconnect", (reason: string) => {
+      const permanent =
+        this.closing !== undefined ||
+        permanentDisconnectReasons.includes(reason);
+      this.setState(permanent ? "disconnected" : "reconnecting", { reason });
+    });
+    this.onManager("reconnect_attempt", () => this.setState("reconnecting"));
+    this.onManager("reconnect_failed", () =>
+      this.setState("failed", {
+        error: new Error("Reconnection failed after all attempts"),
+      })
+    );
+  }
+
+  /**
+   * Current lifecycle state
+   */
+  get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  /**
+   * ID of the underlying socket, while it is connected
+   */
+  get id(): string | undefined {
+    return this.socket.id;
+  }
+
+  /**
+   * Whether the connection is connected
+   */
+  get connected(): boolean {
+    return this.currentState === "connected";
+  }
+
+  /**
+   * Whether the connection is connected or about to be
+   */
+  get active(): boolean {
+    return (
+      this.closing === undefined &&
+      ["connecting", "connected", "reconnecting"].includes(this.currentState)
+    );
+  }
+
+  /**
+   * Whether `close()` has been called
+   */
+  get isClosing(): boolean {
+    return this.closing !== undefined;
+  }
+
+  /**
+   * Number of events waiting for the socket to reconnect
+   */
+  get queueDepth(): number {
+    return this.queue.size;
+  }
+
+  /**
+   * Listen to state changes
+   * @param listener Function called with every change
+   * @returns A function that removes the listener
+   */
+  onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  /**
+   * Listen to events that were dropped from the outbound queue instead of
+   * being sent
+   * @param listener Function called with every drop
+   * @returns A function that removes the listener
+   */
+  onQueueDrop(listener: OutboundDropListener): () => void {
+    return this.queue.onDrop(listener);
+  }
+
+  /**
+   * Listen to an event of the socket. The listener is removed when the
+   * connection closes.
+   * @param event The event name
+   * @param listener The listener
+   * @returns A function that removes the listener
+   */
+  on(event: string, listener: Listener): () => void {
+    return this.register("socket", event, listener, listener);
+  }
+
+  /**
+   * Listen to the next occurrence of an event of the socket
+   * @param event The event name
+   * @param listener The listener
+   * @returns A function that removes the listener
+   */
+  once(event: string, listener: Listener): () => void {
+    const registered: Listener = (...args) => {
+      this.unregister("socket", event, listener);
+      listener(...args);
+    };
+    return this.register("socket", event, listener, registered);
+  }
+
+  /**
+   * Stop listening to an event of the socket
+   * @param event The event name
+   * @param listener The listener passed to `on` or `once`
+   */
+  off(event: string, listener: Listener): void {
+    this.unregister("socket", event, listener);
+  }
+
+  /**
+   * Listen to an event of the socket.io manager, such as
+   * `reconnect_attempt`. The listener is removed when the connection closes.
+   * @param event The event name
+   * @param listener The listener
+   * @returns A function that removes the listener
+   */
+  onManager(event: string, listener: Listener): () => void {
+    return this.register("manager", event, listener, listener);
+  }
+
+  /**
+   * Send an event to the server. While the socket is connecting or
+   * reconnecting, the event is queued and sent once it connects; on a
+   * closed connection it is dropped.
+   * @param event The event name
+   * @param args The event arguments, optionally ending with an acknowledgment callback
+   */
+  emit(event: string, ...args: any[]): void {
+    if (this.currentState === "connected") {
+      this.socket.emit(event, ...args);
+    } else if (
+      this.closed ||
+      this.currentState === "disconnected" ||
+      this.currentState === "failed"
+    ) {
+      this.queue.drop(event, args, "closed", 0);
+    } else {
+      // Draining waits for the event to be sent
+      this.keepOpenUntil(this.queue.push(event, args));
+    }
+  }
+
+  /**
+   * Keep the connection open while draining until some work has finished
+   * @param work Promise that settles when the work is done
+   * @internal
+   */
+  keepOpenUntil(work: Promise<unknown>): void {
+    const tracked = work.then(
+      () => {},
+      () => {}
+    );
+    this.pending.add(tracked);
+    tracked.then(() => this.pending.delete(tracked));
+  }
+
+  /**
+   * Close the connection. By default, the runs and feedback responses in
+   * progress are given time to finish first. Only the listeners registered
+   * through this connection are removed from the socket.
+   * @param options How to close the connection
+   * @returns A Promise that resolves once the connection is closed
+   */
+  close(options: ConnectionCloseOptions = {}): Promise<void> {
+    if (this.closing) {
+      return this.closing;
+    }
+
+    const { drain = true, timeout = 30000 } = options;
+    if (!drain || this.pending.size === 0) {
+      this.closing = Promise.resolve();
+      this.teardown();
+      return this.closing;
+    }
+
+    this.logger.debug("Draining connection before closing", {
+      pending: this.pending.size,
+    });
+    this.closing = new Promise<void>((resolve) => {
+      const timeoutId = setTimeout(() => {
+        this.logger.warn(
+          `Closing connection with work still in progress after ${timeout}ms`,
+          { pending: this.pending.size }
+        );
+        this.teardown();
+        resolve();
+      }, timeout);
+
+      this.drained().then(() => {
+        clearTimeout(timeoutId);
+        this.teardown();
+        resolve();
+      });
+    });
+    return this.closing;
+  }
+
+  /**
+   * Close the connection immediately, without draining, even while a
+   * draining `close()` is in progress
+   */
+  disconnect(): void {
+    this.closing = this.closing || Promise.resolve();
+    this.teardown();
+  }
+
+  /**
+   * Mark the connection as failed and tear it down, when it could not be
+   * established
+   * @param error Why the connection failed
+   * @internal
+   */
+  fail(error?: Error): void {
+    this.closing = this.closing || Promise.resolve();
+    this.setState("failed", { error });
+    this.teardown();
+  }
+
+  private async drained(): Promise<void> {
+    // Work can be added while waiting, such as a feedback response
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  private teardown() {
+    // A drain can end after the connection was already closed
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    // Disconnect first, so the listeners still see the disconnect event
+    try {
+      this.socket.disconnect();
+    } catch (error) {
+      this.logger.error("Error disconnecting socket", { error });
+    }
+
+    this.listeners.forEach(({ target, event, registered }) => {
+      try {
+        if (target === "socket") {
+          this.socket.off(event, registered);
+        } else {
+          this.socket.io?.off(event as any, registered);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to remove handler for '${event}'`, {
+          error,
+        });
+      }
+    });
+    this.listeners = [];
+    this.queue.clear("closed");
+
+    // A socket that was not connected emits no disconnect event, so the
+    // runs still waiting for it are failed here
+    RunRouter.for(this.socket).failActiveRuns("connection closed");
+
+    this.setState("disconnected");
+    this.logger.debug("Connection closed", { socketId: this.socket.id });
+  }
+
+  private setState(
+    state: ConnectionState,
+    detail: { reason?: string; error?: Error } = {}
+  ) {
+    const previous = this.currentState;
+    if (state === previous) {
+      return;
+    }
+
+    // A failure is only followed by a new connection, not by the teardown
+    if (previous === "failed" && state === "disconnected") {
+      return;
+    }
+
+    this.currentState = state;
+    Array.from(this.stateListeners).forEach((listener) => {
+      try {
+        listener({ state, previous, ...detail });
+      } catch (error) {
+        this.logger.error("Error in connection state listener", { error });
+      }
+    });
+  }
+
+  private register(
+    target: "socket" | "manager",
+    event: string,
+    listener: Listener,
+    registered: Listener
+  ): () => void {
+    if (target === "socket") {
+      this.socket.on(event, registered);
+    } else {
+      this.socket.io.on(event as any, registered);
+    }
+    this.listeners.push({ target, event, listener, registered });
+    return () => this.unregister(target, event, listener);
+  }
+
+  private unregister(
+    target: "socket" | "manager",
+    event: string,
+    listener: Listener
+  ) {
+    const index = this.listeners.findIndex(
+      (entry) =>
+        entry.target === target &&
+        entry.event === event &&
+        entry.listener === listener
+    );
+    if (index === -1) {
+      return;
+    }
+
+    const [{ registered }] = this.listeners.splice(index, 1);
+    if (target === "socket") {
+      this.socket.off(event, registered);
+    } else {
+      this.socket.io?.off(event as any, registered);
+    }
+  }
+}
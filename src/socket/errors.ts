@@ -0,0 +1,82 @@
+/**
+ * Error classes shared by the socket workflow modules
+ */
+
+/**
+ * Error thrown when a workflow operation fails
+ */
+export class WorkflowError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "WorkflowError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, WorkflowError.prototype);
+  }
+}
+
+/**
+ * Error used to reject a workflow run when the server reports a failure
+ * through a `run_error` or `workflow_error` event
+ */
+export class WorkflowRunError extends WorkflowError {
+  constructor(
+    message: string,
+    public readonly event: "run_error" | "workflow_error",
+    public readonly serverStack?: string
+  ) {
+    super(message);
+    this.name = "WorkflowRunError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, WorkflowRunError.prototype);
+  }
+}
+
+/**
+ * Error used to reject a workflow run that was cancelled before it completed
+ */
+export class WorkflowCancelledError extends WorkflowError {
+  constructor(message: string, public readonly reason?: string) {
+    super(message);
+    this.name = "WorkflowCancelledError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, WorkflowCancelledError.prototype);
+  }
+}
+
+/**
+ * Error used to reject a workflow run when its watchdog detects that the
+ * run stopped making progress
+ */
+export class WorkflowStalledError extends WorkflowError {
+  constructor(
+    message: string,
+    public readonly limit: "deadline" | "idle" | "node",
+    public readonly lastNode?: string,
+    public readonly lastState?: any
+  ) {
+    super(message);
+    this.name = "WorkflowStalledError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, WorkflowStalledError.prototype);
+  }
+}
+
+/**
+ * Error used to fail a workflow run when the socket is lost before the run
+ * ends: the socket disconnected for good, the server could not resume the
+ * run after a reconnect, or the run request was dropped while the socket
+ * was disconnected
+ */
+export class WorkflowDisconnectedError extends WorkflowError {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowDisconnectedError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, WorkflowDisconnectedError.prototype);
+  }
+}
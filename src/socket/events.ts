@@ -0,0 +1,151 @@
+import { WorkflowRunEvents } from "./workflow";
+import { WorkflowRun } from "./run";
+import { WorkflowError } from "./errors";
+
+/**
+ * A single event of a workflow run, discriminated by its `type`
+ */
+export type WorkflowEvent = {
+  [K in keyof WorkflowRunEvents]: { type: K; data: WorkflowRunEvents[K] };
+}[keyof WorkflowRunEvents];
+
+/**
+ * Options for iterating over the events of a workflow run
+ */
+export interface WorkflowEventIteratorOptions {
+  /**
+   * Maximum number of events held for a consumer that has not caught up yet.
+   * By default every event is kept until it is consumed.
+   */
+  maxBufferedEvents?: number;
+
+  /**
+   * What to do when the buffer is full: end the iteration with a
+   * `WorkflowError`, or drop the oldest buffered event
+   * @default "error"
+   */
+  overflow?: "error" | "drop-oldest";
+}
+
+/**
+ * Events that end the run with an error. They are not yielded; the
+ * iterator throws the run's error instead.
+ */
+const errorEvents: string[] = ["run_error", "workflow_error", "run_cancelled"];
+
+/**
+ * Create an async iterator over the events a run receives from now on.
+ *
+ * Events are buffered until the consumer asks for them, so a slow consumer
+ * sees every event in order. The iteration ends after the event that
+ * completes the run, and throws the run's error once the buffered events
+ * have been consumed if the run fails or is cancelled.
+ * @param run The run to iterate over
+ * @param options Buffering options
+ * @returns An async iterator that can be used with `for await`
+ */
+export const createEventIterator = (
+  run: WorkflowRun,
+  options: WorkflowEventIteratorOptions = {}
+): AsyncIterableIterator<WorkflowEvent> => {
+  const { maxBufferedEvents = Infinity, overflow = "error" } = options;
+
+  const buffer: WorkflowEvent[] = [];
+  let waiting:
+    | {
+        resolve: (result: IteratorResult<WorkflowEvent>) => void;
+        reject: (error: Error) => void;
+      }
+    | undefined;
+  let done = false;
+  let failure: Error | undefined;
+
+  const finish = (error?: Error) => {
+    if (done) {
+      return;
+    }
+    done = true;
+    failure = error;
+    unsubscribe();
+
+    // Wake a consumer that is waiting for an event that will never come
+    if (waiting && buffer.length === 0) {
+      const { resolve, reject } = waiting;
+      waiting = undefined;
+      if (failure) {
+        reject(failure);
+      } else {
+        resolve({ value: undefined, done: true });
+      }
+    }
+  };
+
+  const unsubscribe = run.onEvent((type, data) => {
+    if (done || errorEvents.includes(type)) {
+      return;
+    }
+
+    const event = { type, data } as WorkflowEvent;
+    if (waiting) {
+      const { resolve } = waiting;
+      waiting = undefined;
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    if (buffer.length >= maxBufferedEvents) {
+      if (overflow === "drop-oldest") {
+        buffer.shift();
+      } else {
+        buffer.length = 0;
+        finish(
+          new WorkflowError(
+            `More than ${maxBufferedEvents} workflow events were buffered for a slow consumer`
+          )
+        );
+        return;
+      }
+    }
+    buffer.push(event);
+  });
+
+  run.result.then(
+    () => finish(),
+    (error: Error) => finish(error)
+  );
+
+  const iterator: AsyncIterableIterator<WorkflowEvent> = {
+    next(): Promise<IteratorResult<WorkflowEvent>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+
+      if (done) {
+        if (failure) {
+          const error = failure;
+          // Report the failure once, then behave like a finished iterator
+          failure = undefined;
+          return Promise.reject(error);
+        }
+        return Promise.resolve({ value: undefined, done: true });
+      }
+
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+
+    return(): Promise<IteratorResult<WorkflowEvent>> {
+      // The consumer stopped early, for example with `break`
+      buffer.length = 0;
+      finish();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+
+  return iterator;
+};
@@ -0,0 +1,187 @@
+/**
+ * Policies that decide how feedback requests are answered when nobody may
+ * be there to answer them, such as in CI jobs and on servers
+ */
+
+import { FeedbackRequest, parseFeedbackInput } from "../feedback";
+import { FeedbackRequestHandler } from "../types";
+import { Logger } from "../logger";
+import { WorkflowError } from "./errors";
+
+/**
+ * Error used to answer a feedback request that needs a person when the
+ * feedback policy does not allow asking one. The run that sent the
+ * request fails with it.
+ */
+export class FeedbackRequiredError extends WorkflowError {
+  constructor(message: string, public readonly request: FeedbackRequest) {
+    super(message);
+    this.name = "FeedbackRequiredError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, FeedbackRequiredError.prototype);
+  }
+}
+
+/**
+ * Policy that asks the feedback handler and falls back when it does not
+ * answer in time
+ */
+export interface FeedbackTimeoutPolicy {
+  /**
+   * How long to wait for the feedback handler, in milliseconds
+   */
+  timeout: number;
+
+  /**
+   * How to answer once the time is up
+   * @default "defaults"
+   */
+  fallback?: "defaults" | "fail";
+}
+
+/**
+ * How feedback requests are answered
+ * - `ask`: call the feedback handler, which prompts in the terminal by default
+ * - `defaults`: answer with the request's default value without asking;
+ *   required requests without a default fail
+ * - `fail`: fail every request with a FeedbackRequiredError
+ * - `auto`: `ask` if a feedback handler was given or stdin is a terminal,
+ *   `defaults` otherwise
+ * - `{ timeout, fallback }`: `ask`, then answer with the fallback when the
+ *   handler takes too long
+ */
+export type FeedbackPolicy =
+  | "ask"
+  | "defaults"
+  | "fail"
+  | "auto"
+  | FeedbackTimeoutPolicy;
+
+/**
+ * Whether a person can answer prompts on stdin
+ */
+const isInteractiveTerminal = (): boolean =>
+  typeof process !== "undefined" && Boolean(process.stdin?.isTTY);
+
+/**
+ * Fields that identify a request in log entries
+ */
+const requestFields = (request: FeedbackRequest) => ({
+  runId: request.runId,
+  requestId: request.requestId,
+  kind: request.kind,
+});
+
+/**
+ * Answer a request with its default value
+ * @throws {FeedbackRequiredError} If the request is required and has no default
+ */
+const answerWithDefault = (
+  request: FeedbackRequest,
+  logger: Logger
+): unknown => {
+  const result = parseFeedbackInput(request, "");
+  if (!result.valid) {
+    logger.error(
+      "Feedback request is required and has no default value",
+      requestFields(request)
+    );
+    throw new FeedbackRequiredError(
+      `Feedback required but no default value is available: ${request.prompt}`,
+      request
+    );
+  }
+  logger.info(
+    "Answered feedback request with its default value",
+    requestFields(request)
+  );
+  return result.value;
+};
+
+/**
+ * Answer a feedback request according to a feedback policy
+ * @param request The request to answer
+ * @param handler The feedback handler that asks for the answer
+ * @param policy How the request is answered
+ * @param logger Logger that every decision is reported to
+ * @param hasCustomHandler Whether the handler was given by the caller rather
+ * than being the default terminal prompt
+ * @returns The answer, or a Promise for it when the handler is asynchronous
+ * or the policy has a timeout
+ * @throws {FeedbackRequiredError} If the policy does not allow answering the request
+ */
+export const answerFeedback = (
+  request: FeedbackRequest,
+  handler: FeedbackRequestHandler,
+  policy: FeedbackPolicy,
+  logger: Logger,
+  hasCustomHandler: boolean
+): unknown | Promise<unknown> => {
+  const fields = requestFields(request);
+
+  if (policy === "auto") {
+    policy = hasCustomHandler || isInteractiveTerminal() ? "ask" : "defaults";
+    logger.debug(`Feedback policy "auto" resolved to "${policy}"`, fields);
+  }
+
+  if (policy === "ask") {
+    logger.info("Asking the feedback handler to answer the request", fields);
+    return handler(request);
+  }
+
+  if (policy === "defaults") {
+    return answerWithDefault(request, logger);
+  }
+
+  if (policy === "fail") {
+    logger.error(
+      'Feedback request refused by the "fail" feedback policy',
+      fields
+    );
+    throw new FeedbackRequiredError(
+      `Feedback required but the feedback policy does not allow asking: ${request.prompt}`,
+      request
+    );
+  }
+
+  const { timeout, fallback = "defaults" } = policy;
+  logger.info(
+    `Asking the feedback handler to answer the request within ${timeout}ms`,
+    fields
+  );
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<unknown>((resolve, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
+      logger.warn(
+        `Feedback handler did not answer within ${timeout}ms, using the "${fallback}" fallback`,
+        fields
+      );
+      if (fallback === "fail") {
+        reject(
+          new FeedbackRequiredError(
+            `Feedback required but no answer was given within ${timeout}ms: ${request.prompt}`,
+            request
+          )
+        );
+        return;
+      }
+      try {
+        resolve(answerWithDefault(request, logger));
+      } catch (error) {
+        reject(error);
+      }
+    }, timeout);
+  });
+
+  const answered = new Promise<unknown>((resolve) =>
+    resolve(handler(request, { signal: controller.signal }))
+  );
+
+  return Promise.race([answered, timedOut]).finally(() =>
+    clearTimeout(timeoutId)
+  );
+};
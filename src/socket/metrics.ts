@@ -0,0 +1,62 @@
+import { WorkflowRun } from "./run";
+import { MetricsRegistry, sdkMetrics, secondsSince } from "../metrics";
+
+/**
+ * Record the metrics of a run: its outcome and duration, how long each
+ * node was active and the node errors. A node is active from its first
+ * `stream_output` event until an event from another node arrives or the
+ * run ends.
+ * @param run The run to measure
+ * @param registry The registry the metrics are recorded into
+ */
+export const collectRunMetrics = (
+  run: WorkflowRun,
+  registry: MetricsRegistry
+): void => {
+  const metrics = sdkMetrics(registry);
+  const workflowId = run.workflowId;
+  let activeNode: { node: string; startTime: number } | undefined;
+
+  const endNode = (endTime: number) => {
+    if (activeNode) {
+      metrics.nodeDuration.observe(
+        secondsSince(activeNode.startTime, endTime),
+        { workflow_id: workflowId, node: activeNode.node }
+      );
+      activeNode = undefined;
+    }
+  };
+
+  const unsubscribers = [
+    run.on("stream_output", (data) => {
+      if (data && data.node !== activeNode?.node) {
+        const now = Date.now();
+        endNode(now);
+        activeNode = { node: data.node, startTime: now };
+      }
+    }),
+    run.on("node_error", (data) => {
+      metrics.nodeErrors.inc({
+        workflow_id: workflowId,
+        node: String(data?.node ?? "unknown"),
+      });
+    }),
+  ];
+
+  const finish = (outcome: string) => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    const endTime = run.finishedAt ? run.finishedAt.getTime() : Date.now();
+    endNode(endTime);
+
+    const labels = { workflow_id: workflowId, outcome };
+    metrics.runs.inc(labels);
+    metrics.runDuration.observe(
+      secondsSince(run.startedAt.getTime(), endTime),
+      labels
+    );
+  };
+  run.result.then(
+    (result) => finish(result.warning ? "warning" : "complete"),
+    () => finish(run.status === "cancelled" ? "cancelled" : "error")
+  );
+};
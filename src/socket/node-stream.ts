@@ -0,0 +1,51 @@
+import { Readable } from "stream";
+import { WorkflowRun } from "./run";
+import {
+  createEventSource,
+  encodeWorkflowEvent,
+  WorkflowStreamOptions,
+} from "./streams";
+
+/**
+ * Expose the events of a run as a Node `Readable`. With the default
+ * `object` format the stream is in object mode and emits `{ type, data }`
+ * events; with `ndjson` or `sse` it emits UTF-8 text that can be piped
+ * into an HTTP response.
+ *
+ * The stream ends when the run completes and is destroyed with the run's
+ * error when it fails or is cancelled. Destroying the stream stops reading
+ * events from the run.
+ * @param run The run to stream
+ * @param options Stream options
+ * @returns A readable stream of events or text
+ */
+export const createRunNodeReadable = (
+  run: WorkflowRun,
+  options: WorkflowStreamOptions = {}
+): Readable => {
+  const { format = "object" } = options;
+  const source = createEventSource(run, options);
+
+  return new Readable({
+    objectMode: format === "object",
+    encoding: format === "object" ? undefined : "utf8",
+    read() {
+      source.next().then(
+        (event) => {
+          if (!event) {
+            this.push(null);
+          } else {
+            this.push(
+              format === "object" ? event : encodeWorkflowEvent(event, format)
+            );
+          }
+        },
+        (error: Error) => this.destroy(error)
+      );
+    },
+    destroy(error, callback) {
+      source.close();
+      callback(error);
+    },
+  });
+};
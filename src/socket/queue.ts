@@ -0,0 +1,217 @@
+/**
+ * Queue for the events sent while the socket is not connected, so run
+ * requests and feedback responses survive a brief outage
+ */
+
+import { Logger } from "../logger";
+
+/**
+ * Limits of the outbound queue
+ */
+export interface OutboundQueueOptions {
+  /**
+   * Most events held at once. Events sent while the queue is full are dropped.
+   * @default 100
+   */
+  maxSize?: number;
+
+  /**
+   * Longest time an event is held, in milliseconds, before it is dropped
+   * @default 30000
+   */
+  ttl?: number;
+}
+
+/**
+ * Why a queued event was dropped
+ * - `full`: the queue already held `maxSize` events
+ * - `expired`: the socket did not reconnect within the TTL
+ * - `closed`: the connection was closed
+ */
+export type OutboundDropReason = "full" | "expired" | "closed";
+
+/**
+ * An event that was dropped instead of being sent
+ */
+export interface OutboundDrop {
+  /**
+   * Name of the event
+   */
+  event: string;
+
+  /**
+   * Correlation ID of the run the event belongs to, if any
+   */
+  runId?: string;
+
+  reason: OutboundDropReason;
+
+  /**
+   * How long the event was queued, in milliseconds
+   */
+  queuedFor: number;
+}
+
+/**
+ * Listener for dropped events
+ */
+export type OutboundDropListener = (drop: OutboundDrop) => void;
+
+interface QueuedEvent {
+  event: string;
+  args: any[];
+  queuedAt: number;
+  timeoutId: ReturnType<typeof setTimeout>;
+  settle: () => void;
+}
+
+/**
+ * Get the run correlation ID from the payload of an event
+ */
+const runIdOf = (args: any[]): string | undefined => {
+  const [payload] = args;
+  return payload && typeof payload === "object" && "runId" in payload
+    ? String(payload.runId)
+    : undefined;
+};
+
+/**
+ * Bounded FIFO queue of outbound events, each dropped once its TTL passes
+ */
+export class OutboundQueue {
+  private events: QueuedEvent[] = [];
+  private dropListeners = new Set<OutboundDropListener>();
+  private readonly maxSize: number;
+  private readonly ttl: number;
+
+  /**
+   * @param logger Logger that every drop is reported to
+   * @param options Limits of the queue
+   */
+  constructor(
+    private readonly logger: Logger,
+    options: OutboundQueueOptions = {}
+  ) {
+    this.maxSize = options.maxSize ?? 100;
+    this.ttl = options.ttl ?? 30000;
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Listen to dropped events
+   * @param listener Function called with every drop
+   * @returns A function that removes the listener
+   */
+  onDrop(listener: OutboundDropListener): () => void {
+    this.dropListeners.add(listener);
+    return () => this.dropListeners.delete(listener);
+  }
+
+  /**
+   * Add an event to the queue, or drop it right away if the queue is full
+   * @param event The event name
+   * @param args The event arguments
+   * @returns A Promise that resolves once the event is sent or dropped
+   */
+  push(event: string, args: any[]): Promise<void> {
+    if (this.events.length >= this.maxSize) {
+      this.drop(event, args, "full", 0);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((settle) => {
+      const queued: QueuedEvent = {
+        event,
+        args,
+        queuedAt: Date.now(),
+        settle,
+        timeoutId: setTimeout(() => {
+          this.events = this.events.filter((entry) => entry !== queued);
+          this.drop(event, args, "expired", Date.now() - queued.queuedAt);
+          settle();
+        }, this.ttl),
+      };
+      this.events.push(queued);
+      this.logger.debug(`Queued '${event}' until the socket reconnects`, {
+        runId: runIdOf(args),
+        queued: this.events.length,
+      });
+    });
+  }
+
+  /**
+   * Send every queued event, in the order they were queued
+   * @param send Function that sends an event
+   */
+  flush(send: (event: string, args: any[]) => void): void {
+    const events = this.events;
+    this.events = [];
+    if (events.length > 0) {
+      this.logger.info(`Sending ${events.length} queued events`);
+    }
+
+    events.forEach(({ event, args, timeoutId, settle }) => {
+      clearTimeout(timeoutId);
+      try {
+        send(event, args);
+      } catch (error) {
+        this.logger.error(`Failed to send queued '${event}'`, { error });
+      }
+      settle();
+    });
+  }
+
+  /**
+   * Drop every queued event
+   * @param reason Why the events are dropped
+   */
+  clear(reason: OutboundDropReason): void {
+    const events = this.events;
+    this.events = [];
+
+    events.forEach(({ event, args, queuedAt, timeoutId, settle }) => {
+      clearTimeout(timeoutId);
+      this.drop(event, args, reason, Date.now() - queuedAt);
+      settle();
+    });
+  }
+
+  /**
+   * Report an event that is not going to be sent
+   * @param event The event name
+   * @param args The event arguments
+   * @param reason Why the event is dropped
+   * @param queuedFor How long the event was queued, in milliseconds
+   */
+  drop(
+    event: string,
+    args: any[],
+    reason: OutboundDropReason,
+    queuedFor: number
+  ): void {
+    const drop: OutboundDrop = {
+      event,
+      runId: runIdOf(args),
+      reason,
+      queuedFor,
+    };
+    this.logger.warn(`Dropped '${event}' without sending it: ${reason}`, {
+      runId: drop.runId,
+      queuedFor,
+    });
+
+    Array.from(this.dropListeners).forEach((listener) => {
+      try {
+        listener(drop);
+      } catch (error) {
+        this.logger.error("Error in outbound drop listener", { error });
+      }
+    });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Recording of the events a workflow run exchanges with the server, for
+ * debugging failed runs and attaching to bug reports
+ */
+
+import { Logger } from "../logger";
+import { Redactor } from "../redact";
+
+/**
+ * A recorded event, as written to a recording
+ */
+export interface RecordedEvent {
+  /**
+   * When the event was sent or received, as an ISO 8601 timestamp
+   */
+  time: string;
+
+  /**
+   * Whether the event was received from (`in`) or sent to (`out`) the server
+   */
+  direction: "in" | "out";
+
+  /**
+   * Name of the event
+   */
+  event: string;
+
+  /**
+   * Correlation ID of the run the event belongs to, if any
+   */
+  runId?: string;
+
+  /**
+   * The event payload, with secrets and sensitive fields masked
+   */
+  payload: unknown;
+}
+
+/**
+ * Destination for recorded events
+ */
+export interface RunRecorder {
+  /**
+   * Record an event. Errors thrown here are logged and never affect the run.
+   * @param entry The event to record
+   */
+  record(entry: RecordedEvent): void;
+}
+
+/**
+ * Create a recorder that writes every event as one line of JSON
+ * @param write Function that writes a line, including its trailing newline
+ * @returns The recorder
+ */
+export const createJsonlRecorder = (
+  write: (line: string) => void
+): RunRecorder => ({
+  record: (entry) => write(`${JSON.stringify(entry)}\n`),
+});
+
+/**
+ * Record an event, redacting its payload first
+ * @param recorder The recorder, if recording is enabled
+ * @param direction Whether the event was received or sent
+ * @param event The name of the event
+ * @param payload The payload of the event
+ * @param redactor Redactor that masks the payload
+ * @param logger Logger that recording failures are reported to
+ * @internal
+ */
+export const recordEvent = (
+  recorder: RunRecorder | undefined,
+  direction: RecordedEvent["direction"],
+  event: string,
+  payload: unknown,
+  redactor: Redactor,
+  logger: Logger
+): void => {
+  if (!recorder) {
+    return;
+  }
+
+  const runId =
+    payload && typeof payload === "object" && "runId" in payload
+      ? String((payload as { runId: unknown }).runId)
+      : undefined;
+
+  try {
+    recorder.record({
+      time: new Date().toISOString(),
+      direction,
+      event,
+      ...(runId !== undefined ? { runId } : {}),
+      payload: redactor.redact(payload),
+    });
+  } catch (error) {
+    logger.error(`Failed to record '${event}'`, { error });
+  }
+};
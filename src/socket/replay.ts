@@ -0,0 +1,463 @@
+/**
+ * Offline replay of recorded workflow runs through the same handlers a live
+ * run uses, for testing handlers and UIs against real traces
+ */
+
+import { Socket } from "socket.io-client";
+import { attachEventHandlers, SocketConnectionOptions } from "./connect";
+import { PocketFlowConnection } from "./connection";
+import { WorkflowError } from "./errors";
+import { answerFeedback } from "./feedback-policy";
+import { RecordedEvent } from "./recorder";
+import { WorkflowRun } from "./run";
+import { runWorkflow, WorkflowRunnerOptions } from "./workflow";
+import { abortErrorFrom, onAbort, throwIfAborted } from "../abort";
+import { FeedbackResponse } from "../feedback";
+import { getDefaultLogger, Logger } from "../logger";
+import { createRedactor, RedactionOptions, redactLogger } from "../redact";
+import { FeedbackRequestHandler } from "../types";
+
+/**
+ * Error thrown when a recording cannot be read
+ */
+export class ReplayError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = "ReplayError";
+
+    // Maintain the prototype chain for instanceof checks
+    Object.setPrototypeOf(this, ReplayError.prototype);
+  }
+}
+
+/**
+ * How fast a recording is replayed
+ * - `realtime`: events are spaced out as they were recorded
+ * - `instant`: events are delivered one after another without waiting
+ * - `{ speed }`: events are spaced out as recorded, divided by `speed`
+ */
+export type ReplayPacing = "realtime" | "instant" | { speed: number };
+
+/**
+ * Options for replaying a recording
+ */
+export interface ReplayOptions {
+  /**
+   * How fast to replay the recording
+   * @default "instant"
+   */
+  pacing?: ReplayPacing;
+
+  /**
+   * Event handlers for the replayed runs, as passed to `runWorkflow`
+   */
+  handlers?: WorkflowRunnerOptions["handlers"];
+
+  /**
+   * Whether to use pretty logging for the events of the replayed runs
+   * @default false
+   */
+  prettyLogs?: boolean;
+
+  /**
+   * Whether to log the events of the replayed runs
+   * @default false
+   */
+  verbose?: boolean;
+
+  /**
+   * Function to handle workflow log messages, as passed to `connectSocket`
+   */
+  handleLog?: SocketConnectionOptions["handleLog"];
+
+  /**
+   * Function to handle stream output events, as passed to `connectSocket`
+   */
+  handleStreamOutput?: SocketConnectionOptions["handleStreamOutput"];
+
+  /**
+   * Function to handle feedback requests, as passed to `connectSocket`.
+   * The recording goes on without waiting for its answers.
+   * (default: answer with the recorded feedback response, or with the
+   * request's default value when none was recorded)
+   */
+  handleFeedback?: SocketConnectionOptions["handleFeedback"];
+
+  /**
+   * How feedback requests are answered, as passed to `connectSocket`
+   * @default "ask"
+   */
+  feedbackPolicy?: SocketConnectionOptions["feedbackPolicy"];
+
+  /**
+   * Called with the handle of every replayed run as soon as it starts
+   */
+  onRun?: (run: WorkflowRun) => void;
+
+  /**
+   * Signal that stops the replay when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Logger for replay diagnostics (default: the SDK default logger)
+   */
+  logger?: Logger;
+
+  /**
+   * Extra fields and secrets to mask in logs and in the events printed by
+   * the default handlers
+   */
+  redact?: RedactionOptions;
+}
+
+/**
+ * Outcome of a replay
+ */
+export interface ReplayResult {
+  /**
+   * Handles of the replayed runs, in the order they started. Runs the
+   * recording does not see to the end have failed.
+   */
+  runs: WorkflowRun[];
+
+  /**
+   * Feedback responses the handlers sent, to compare with the ones in the
+   * recording
+   */
+  feedbackResponses: FeedbackResponse[];
+}
+
+/**
+ * Token sent with replayed run requests, which never leave the SDK
+ */
+const REPLAY_TOKEN = "offline-replay";
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * Stand-in for a socket.io socket that delivers recorded events instead of
+ * talking to a server
+ */
+class ReplaySocket {
+  id = "replay";
+  connected = false;
+  active = true;
+
+  // A replay never reconnects, so there are no manager events
+  readonly io = {
+    on: () => this.io,
+    off: () => this.io,
+  };
+
+  private listeners = new Map<string, Listener[]>();
+
+  /**
+   * @param send Function called with every event the SDK sends
+   */
+  constructor(private readonly send: (event: string, args: any[]) => void) {}
+
+  on(event: string, listener: Listener): this {
+    this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+    return this;
+  }
+
+  off(event: string, listener: Listener): this {
+    const listeners = this.listeners.get(event) || [];
+    this.listeners.set(
+      event,
+      listeners.filter((registered) => registered !== listener)
+    );
+    return this;
+  }
+
+  emit(event: string, ...args: any[]): this {
+    this.send(event, args);
+
+    // Run and cancel requests are acknowledged right away
+    const acknowledge = args[args.length - 1];
+    if (typeof acknowledge === "function") {
+      acknowledge();
+    }
+    return this;
+  }
+
+  connect(): this {
+    this.connected = true;
+    this.receive("connect");
+    return this;
+  }
+
+  disconnect(): this {
+    if (this.connected) {
+      this.connected = false;
+      this.active = false;
+      this.receive("disconnect", "io client disconnect");
+    }
+    return this;
+  }
+
+  /**
+   * Deliver an event to the listeners, as if the server had sent it
+   */
+  receive(event: string, ...args: any[]): void {
+    (this.listeners.get(event) || []).forEach((listener) => listener(...args));
+  }
+}
+
+/**
+ * Read a recording written by `createJsonlRecorder` or `createFileRecorder`
+ * @param content The recording, one JSON object per line
+ * @returns The recorded events
+ * @throws {ReplayError} If a line is not a recorded event
+ */
+export const parseRecording = (content: string): RecordedEvent[] =>
+  content.split("\n").reduce<RecordedEvent[]>((events, line, index) => {
+    if (line.trim() === "") {
+      return events;
+    }
+
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      throw new ReplayError(
+        `Invalid recording at line ${index + 1}: not valid JSON`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (
+      !entry ||
+      typeof entry.event !== "string" ||
+      (entry.direction !== "in" && entry.direction !== "out")
+    ) {
+      throw new ReplayError(
+        `Invalid recording at line ${index + 1}: not a recorded event`
+      );
+    }
+    events.push(entry);
+    return events;
+  }, []);
+
+/**
+ * Key of a feedback request among the recorded answers
+ */
+const answerKey = (runId: string | undefined, requestId: string | undefined) =>
+  JSON.stringify([runId, requestId]);
+
+/**
+ * Collect the feedback responses a recording sent, in the order they were
+ * sent, by the run and request they answered
+ */
+const collectRecordedAnswers = (
+  events: RecordedEvent[]
+): Map<string, unknown[]> =>
+  events.reduce((answers, entry) => {
+    const payload: any = entry.payload;
+    if (
+      entry.direction !== "out" ||
+      entry.event !== "feedback_response" ||
+      !payload ||
+      typeof payload !== "object" ||
+      payload.error !== undefined
+    ) {
+      return answers;
+    }
+
+    const key = answerKey(entry.runId ?? payload.runId, payload.requestId);
+    answers.set(key, [...(answers.get(key) || []), payload.input]);
+    return answers;
+  }, new Map<string, unknown[]>());
+
+/**
+ * Work out how long to wait between two events
+ */
+const delayBetween = (
+  previous: RecordedEvent | undefined,
+  next: RecordedEvent,
+  pacing: ReplayPacing
+): number => {
+  if (pacing === "instant" || !previous) {
+    return 0;
+  }
+
+  const speed = pacing === "realtime" ? 1 : pacing.speed;
+  const elapsed = Date.parse(next.time) - Date.parse(previous.time);
+  return Number.isFinite(elapsed) && elapsed > 0 ? elapsed / speed : 0;
+};
+
+/**
+ * Wait for the given time, or until the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    const removeAbortListener = onAbort(signal, () => {
+      clearTimeout(timeoutId);
+      reject(abortErrorFrom(signal!));
+    });
+    const timeoutId = setTimeout(() => {
+      removeAbortListener();
+      resolve();
+    }, ms);
+  });
+
+/**
+ * Replay a recorded run without a server. The events the recording
+ * received are delivered to the same handlers `connectSocket` and
+ * `runWorkflow` deliver live events to, and every run the recording
+ * requested is started again with its recorded workflow ID and input.
+ *
+ * The replayed runs get new run IDs, and events recorded for a run are
+ * delivered to its replayed counterpart. Events the recording sent are not
+ * replayed. Feedback requests are answered with the recorded responses
+ * unless a `handleFeedback` is given, so a replay never prompts.
+ * @param recording The recording, as JSON lines or as parsed events
+ * @param options Options for the replay
+ * @returns A Promise that resolves with the replayed runs once every
+ * recorded event has been delivered
+ * @throws {ReplayError} If the recording cannot be read
+ * @throws {AbortError} If the signal is aborted before the replay ends
+ */
+export const replayRecording = async (
+  recording: string | RecordedEvent[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult> => {
+  const events =
+    typeof recording === "string" ? parseRecording(recording) : recording;
+  const { pacing = "instant", signal, onRun } = options;
+  if (typeof pacing === "object" && !(pacing.speed > 0)) {
+    throw new ReplayError("Replay speed must be greater than zero");
+  }
+  throwIfAborted(signal);
+
+  const redactor = createRedactor(options.redact);
+  const logger = redactLogger(
+    options.logger || getDefaultLogger(),
+    redactor
+  ).child({ component: "replay" });
+
+  const feedbackResponses: FeedbackResponse[] = [];
+  const socket = new ReplaySocket((event, [payload]) => {
+    if (event === "feedback_response") {
+      feedbackResponses.push(payload);
+    }
+  });
+  const connection = new PocketFlowConnection(
+    socket as unknown as Socket,
+    logger
+  );
+
+  // Replayed runs by the run ID they were recorded with, and the other way
+  // round for looking up recorded answers
+  const runs = new Map<string, WorkflowRun>();
+  const recordedRunIds = new Map<string, string>();
+
+  const recordedAnswers = collectRecordedAnswers(events);
+  const answerFromRecording: FeedbackRequestHandler = (request) => {
+    const recordedRunId =
+      request.runId !== undefined
+        ? recordedRunIds.get(request.runId)
+        : undefined;
+    const answers = recordedAnswers.get(
+      answerKey(recordedRunId, request.requestId)
+    );
+    if (answers && answers.length > 0) {
+      logger.debug("Answering feedback request from the recording", {
+        runId: request.runId,
+        requestId: request.requestId,
+      });
+      return answers.shift();
+    }
+    return answerFeedback(
+      request,
+      answerFromRecording,
+      "defaults",
+      logger,
+      false
+    );
+  };
+
+  attachEventHandlers(
+    connection,
+    {
+      ...options,
+      handleFeedback: options.handleFeedback || answerFromRecording,
+      feedbackPolicy: options.feedbackPolicy || "ask",
+    },
+    redactor,
+    logger
+  );
+  socket.connect();
+
+  const startRun = (recordedRunId: string, workflowId: string, input: any) => {
+    const run = runWorkflow(connection, workflowId, REPLAY_TOKEN, input, {
+      handlers: options.handlers,
+      prettyLogs: options.prettyLogs,
+      verbose: options.verbose,
+      logger,
+      redact: options.redact,
+    });
+    runs.set(recordedRunId, run);
+    recordedRunIds.set(run.runId, recordedRunId);
+    if (onRun) {
+      onRun(run);
+    }
+    return run;
+  };
+
+  logger.debug("Replaying recording", { events: events.length, pacing });
+  try {
+    let previous: RecordedEvent | undefined;
+    for (const entry of events) {
+      const delay = delayBetween(previous, entry, pacing);
+      previous = entry;
+      if (delay > 0) {
+        await wait(delay, signal);
+      }
+      throwIfAborted(signal);
+
+      const payload: any = entry.payload;
+      const recordedRunId =
+        entry.runId ??
+        (payload && typeof payload === "object" ? payload.runId : undefined);
+
+      if (entry.direction === "out") {
+        if (entry.event === "run_workflow" && recordedRunId !== undefined) {
+          startRun(recordedRunId, payload.flowId, payload.input);
+        }
+        continue;
+      }
+
+      // Runs whose request was not recorded start with their first event
+      if (recordedRunId === undefined) {
+        socket.receive(entry.event, payload);
+        continue;
+      }
+      const run =
+        runs.get(recordedRunId) ||
+        startRun(recordedRunId, payload.flowId || "replay", {});
+      socket.receive(entry.event, { ...payload, runId: run.runId });
+    }
+  } finally {
+    const aborted = signal?.aborted === true;
+    runs.forEach((run) => {
+      if (run.isSettled) {
+        return;
+      }
+      if (aborted) {
+        run.abort(abortErrorFrom(signal!));
+      } else {
+        run.fail(
+          new WorkflowError("The recording ended before the workflow completed")
+        );
+      }
+    });
+
+    // Feedback answers still being worked out are sent before closing,
+    // unless the replay was stopped
+    await connection.close({ drain: !aborted });
+  }
+
+  return { runs: Array.from(runs.values()), feedbackResponses };
+};
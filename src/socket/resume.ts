@@ -0,0 +1,83 @@
+/**
+ * Helpers for resuming workflow runs after the socket reconnects
+ */
+
+/**
+ * Payload of the `resume_run` event sent for every active run after a reconnect
+ */
+export interface ResumeRunRequest {
+  /**
+   * Correlation ID of the run to resume
+   */
+  runId: string;
+
+  /**
+   * ID of the workflow the run belongs to
+   */
+  flowId: string;
+
+  /**
+   * Sequence number of the last event received for the run. The server
+   * replays every later event; without it the whole run is replayed.
+   */
+  lastSeq?: number;
+}
+
+/**
+ * Acknowledgment the server sends for a `resume_run` request
+ */
+export interface ResumeRunAck {
+  /**
+   * Reason the run cannot be resumed, for example because the server no longer knows it
+   */
+  error?: string;
+}
+
+/**
+ * How long to wait for the server to acknowledge a `resume_run` request, in milliseconds
+ */
+export const RESUME_ACK_TIMEOUT = 10000;
+
+/**
+ * Get the run ID and sequence number of a run event, if it carries them
+ * @param data The event payload
+ * @returns The run ID and sequence number, or undefined for unsequenced events
+ */
+export const eventSequence = (
+  data: any
+): { runId: string; seq: number } | undefined => {
+  if (
+    data &&
+    typeof data === "object" &&
+    typeof data.runId === "string" &&
+    typeof data.seq === "number"
+  ) {
+    return { runId: data.runId, seq: data.seq };
+  }
+  return undefined;
+};
+
+/**
+ * Create a filter that accepts every sequenced event once, dropping events
+ * the server replays after a reconnect. Events without a sequence number
+ * are always accepted.
+ * @returns A function that returns false for events that were already seen
+ */
+export const createSequenceFilter = (): ((data: any) => boolean) => {
+  const lastSeqByRun = new Map<string, number>();
+
+  return (data: any) => {
+    const sequence = eventSequence(data);
+    if (!sequence) {
+      return true;
+    }
+
+    const lastSeq = lastSeqByRun.get(sequence.runId);
+    if (lastSeq !== undefined && sequence.seq <= lastSeq) {
+      return false;
+    }
+
+    lastSeqByRun.set(sequence.runId, sequence.seq);
+    return true;
+  };
+};
@@ -0,0 +1,107 @@
+import { WorkflowDisconnectedError, WorkflowRunError } from "./errors";
+
+/**
+ * When and how often a failed workflow run is started again. Every attempt
+ * is a new run on the server, with its own run ID and idempotency key.
+ * Cancelled and aborted runs are never retried.
+ */
+export interface WorkflowRetryOptions {
+  /**
+   * Maximum number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the second attempt, in milliseconds
+   * @default 1000
+   */
+  initialDelay?: number;
+
+  /**
+   * Factor the delay grows by with every further attempt
+   * @default 2
+   */
+  multiplier?: number;
+
+  /**
+   * Maximum delay between two attempts, in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Fraction by which each delay is randomly shortened or lengthened, so
+   * that clients that failed together do not retry together. 0 disables
+   * the jitter.
+   * @default 0.5
+   */
+  jitter?: number;
+
+  /**
+   * Whether an attempt that failed with the given error is retried. By
+   * default, runs that failed with `run_error` or `workflow_error`
+   * (`WorkflowRunError`) or lost their socket (`WorkflowDisconnectedError`)
+   * are retried.
+   * @param error The error of the failed attempt
+   * @param attempt The number of the failed attempt, starting at 1
+   */
+  retryOn?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Errors retried when no `retryOn` predicate is given
+ * @param error The error of the failed attempt
+ * @returns Whether the attempt is retried
+ */
+export const isRetryableRunError = (error: Error): boolean =>
+  error instanceof WorkflowRunError ||
+  error instanceof WorkflowDisconnectedError;
+
+/**
+ * Work out how long to wait before the next attempt
+ * @param options The retry policy
+ * @param attempt The number of the attempt that failed, starting at 1
+ * @returns The delay in milliseconds
+ */
+export const retryDelay = (
+  options: WorkflowRetryOptions,
+  attempt: number
+): number => {
+  const {
+    initialDelay = 1000,
+    multiplier = 2,
+    maxDelay = 30000,
+    jitter = 0.5,
+  } = options;
+  const delay = initialDelay * Math.pow(multiplier, attempt - 1);
+  const randomized = delay * (1 + jitter * (Math.random() * 2 - 1));
+  return Math.round(Math.max(0, Math.min(maxDelay, randomized)));
+};
+
+/**
+ * Decide whether a failed attempt is retried
+ * @param options The retry policy
+ * @param error The error of the failed attempt
+ * @param attempt The number of the failed attempt, starting at 1
+ * @returns Whether another attempt is started
+ */
+export const shouldRetry = (
+  options: WorkflowRetryOptions,
+  error: Error,
+  attempt: number
+): boolean => {
+  const { maxAttempts = 3, retryOn = isRetryableRunError } = options;
+  return attempt < maxAttempts && retryOn(error, attempt);
+};
+
+/**
+ * Idempotency key of an attempt. The first attempt uses the run's key, so
+ * a caller-supplied key reaches the server unchanged; later attempts add
+ * their number, so the server does not drop them as duplicates.
+ * @param key The idempotency key of the run
+ * @param attempt The number of the attempt, starting at 1
+ * @returns The key sent with the attempt's run request
+ */
+export const attemptKey = (key: string, attempt: number): string =>
+  attempt === 1 ? key : `${key}:${attempt}`;
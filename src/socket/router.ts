@@ -0,0 +1,224 @@
+import { Socket } from "socket.io-client";
+import { WorkflowDisconnectedError } from "./errors";
+import { WorkflowRun } from "./run";
+import { RESUME_ACK_TIMEOUT, ResumeRunAck, ResumeRunRequest } from "./resume";
+import { permanentDisconnectReasons } from "./connection";
+import { Logger } from "../logger";
+import { FeedbackResponse } from "../feedback";
+
+/**
+ * Routers for the sockets that currently have active runs
+ */
+const routers = new WeakMap<Socket, RunRouter>();
+
+/**
+ * Routes server events received on one socket to the workflow runs that
+ * were started on it, using the `runId` carried by every run event.
+ *
+ * Only one socket listener is registered per event name, no matter how
+ * many runs share the socket, and the listeners are removed again once
+ * the last run has ended. The socket itself is never disconnected.
+ *
+ * When the socket reconnects while runs are active, the router asks the
+ * server to replay the events each run missed, starting after the last
+ * sequence number the run has seen.
+ */
+export class RunRouter {
+  private runs = new Map<string, WorkflowRun>();
+  private socketListeners = new Map<string, (...args: any[]) => void>();
+  private disconnected = false;
+
+  private constructor(private readonly socket: Socket) {}
+
+  /**
+   * Get the router for a socket, creating it on first use
+   * @param socket The socket the runs are started on
+   * @returns The router shared by all runs on the socket
+   */
+  static for(socket: Socket): RunRouter {
+    let router = routers.get(socket);
+    if (!router) {
+      router = new RunRouter(socket);
+      routers.set(socket, router);
+    }
+    return router;
+  }
+
+  /**
+   * Number of runs that have not ended yet
+   */
+  get activeRuns(): number {
+    return this.runs.size;
+  }
+
+  /**
+   * Start routing events with the given names to a run until it ends
+   * @param run The run to route events to.
+   * @param eventNames The names of the server events the run listens to.
+   */
+  attach(run: WorkflowRun, eventNames: string[]): void {
+    this.runs.set(run.runId, run);
+
+    eventNames.forEach((eventName) => {
+      this.listen(
+        eventName,
+        (data: any) => this.dispatch(eventName, data),
+        run.logger
+      );
+    });
+    this.listen(
+      "disconnect",
+      (reason: string) => this.handleDisconnect(reason),
+      run.logger
+    );
+    this.listen("connect", () => this.handleReconnect(), run.logger);
+
+    const detach = () => this.detach(run);
+    run.result.then(detach, detach);
+  }
+
+  /**
+   * Deliver a server event to the run it belongs to
+   * @param eventName The name of the event.
+   * @param data The event payload.
+   */
+  dispatch(eventName: string, data: any): void {
+    this.runsFor(data).forEach((run) => run.handleEvent(eventName, data));
+  }
+
+  /**
+   * Deliver a feedback response sent on the socket to the run it answers
+   * @param response The response sent to the server.
+   */
+  dispatchFeedbackResponse(response: FeedbackResponse): void {
+    this.runsFor(response).forEach((run) =>
+      run.handleFeedbackResponse(response)
+    );
+  }
+
+  /**
+   * Fail the run an event belongs to
+   * @param data The event payload.
+   * @param error Why the run failed.
+   */
+  fail(data: any, error: Error): void {
+    this.runsFor(data).forEach((run) => run.fail(error));
+  }
+
+  /**
+   * Fail every run that has not ended yet, when the socket will not
+   * reconnect to deliver the rest of their events
+   * @param reason Why the socket is gone.
+   */
+  failActiveRuns(reason: string): void {
+    Array.from(this.runs.values()).forEach((run) => {
+      run.fail(
+        new WorkflowDisconnectedError(
+          `Socket disconnected before the workflow completed: ${reason}`
+        )
+      );
+    });
+  }
+
+  private runsFor(data: any): WorkflowRun[] {
+    const runId =
+      data && typeof data === "object" ? (data.runId as string) : undefined;
+
+    if (runId !== undefined) {
+      const run = this.runs.get(runId);
+      return run ? [run] : [];
+    }
+
+    // Servers that predate run correlation IDs send events without a
+    // runId, so the only option is to deliver them to every active run
+    return Array.from(this.runs.values());
+  }
+
+  private listen(
+    eventName: string,
+    listener: (...args: any[]) => void,
+    logger: Logger
+  ) {
+    if (this.socketListeners.has(eventName)) {
+      return;
+    }
+
+    try {
+      this.socket.on(eventName, listener);
+      this.socketListeners.set(eventName, listener);
+    } catch (error) {
+      logger.error(`Failed to register handler for '${eventName}'`, { error });
+    }
+  }
+
+  private handleDisconnect(reason: string) {
+    this.disconnected = true;
+
+    if (permanentDisconnectReasons.includes(reason)) {
+      this.failActiveRuns(reason);
+    }
+  }
+
+  private handleReconnect() {
+    // The first connect of a socket that was still connecting has nothing to resume
+    if (!this.disconnected) {
+      return;
+    }
+    this.disconnected = false;
+
+    Array.from(this.runs.values()).forEach((run) => this.resume(run));
+  }
+
+  private resume(run: WorkflowRun) {
+    const request: ResumeRunRequest = {
+      runId: run.runId,
+      flowId: run.workflowId,
+      lastSeq: run.lastSeq,
+    };
+
+    const timeoutId = setTimeout(() => {
+      if (!run.isSettled) {
+        run.logger.warn(
+          `Server did not acknowledge resuming run ${run.runId}; events sent while disconnected may be missing`
+        );
+      }
+    }, RESUME_ACK_TIMEOUT);
+
+    try {
+      run.record("out", "resume_run", request);
+      this.socket.emit("resume_run", request, (ack?: ResumeRunAck) => {
+        clearTimeout(timeoutId);
+        if (ack && ack.error) {
+          run.fail(
+            new WorkflowDisconnectedError(
+              `Could not resume the workflow run after reconnecting: ${ack.error}`
+            )
+          );
+        }
+      });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      run.logger.error(`Failed to resume run ${run.runId}`, { error });
+    }
+  }
+
+  private detach(run: WorkflowRun) {
+    this.runs.delete(run.runId);
+    if (this.runs.size > 0) {
+      return;
+    }
+
+    // Leave nothing behind on the socket once the last run has ended
+    this.socketListeners.forEach((listener, eventName) => {
+      try {
+        this.socket.off(eventName, listener);
+      } catch (error) {
+        run.logger.error(`Failed to remove handler for '${eventName}'`, {
+          error,
+        });
+      }
+    });
+    this.socketListeners.clear();
+    routers.delete(this.socket);
+  }
+}
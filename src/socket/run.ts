@@ -0,0 +1,609 @@
+import { ServerEmittedEvents, WorkflowRunEvents } from "./workflow";
+import {
+  WorkflowCancelledError,
+  WorkflowError,
+  WorkflowRunError,
+  WorkflowStalledError,
+} from "./errors";
+import { eventSequence } from "./resume";
+import { diffState, WorkflowStateDiff } from "./state";
+import { recordEvent, RunRecorder } from "./recorder";
+import {
+  createEventIterator,
+  WorkflowEvent,
+  WorkflowEventIteratorOptions,
+} from "./events";
+import { AbortError } from "../abort";
+import { getDefaultLogger, Logger } from "../logger";
+import { createRedactor, Redactor } from "../redact";
+import { FeedbackResponse } from "../feedback";
+
+/**
+ * Counter that keeps run IDs unique within this process
+ */
+let runCounter = 0;
+
+/**
+ * Create a correlation ID for a new workflow run
+ * @returns A run ID that is unique within this process
+ */
+export const createRunId = (): string => {
+  runCounter += 1;
+  const random = Math.random().toString(36).slice(2, 8);
+  return `run_${Date.now().toString(36)}_${runCounter.toString(36)}_${random}`;
+};
+
+/**
+ * Lifecycle status of a workflow run
+ */
+export type WorkflowRunStatus =
+  | "pending"
+  | "running"
+  | "cancelling"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Value a workflow run resolves with once the server reports completion
+ */
+export interface WorkflowRunResult {
+  /**
+   * Final shared state of the workflow
+   */
+  state: Record<string, unknown>;
+
+  /**
+   * Consolidated workflow output, if the server sent one
+   */
+  output?: any;
+
+  /**
+   * Completion message sent by the server
+   */
+  message: string;
+
+  /**
+   * Whether the workflow completed with warnings
+   */
+  warning: boolean;
+
+  /**
+   * Errors collected by the server while running the workflow
+   */
+  errors: any[];
+}
+
+/**
+ * Options for cancelling a workflow run
+ */
+export interface WorkflowCancelOptions {
+  /**
+   * Reason sent to the server and attached to the `WorkflowCancelledError`
+   */
+  reason?: string;
+
+  /**
+   * How long to wait for the server to acknowledge the cancellation, in milliseconds
+   * @default 10000
+   */
+  timeout?: number;
+}
+
+/**
+ * Function that asks the server to cancel a run. Resolves once the server
+ * has acknowledged the request and rejects if the server refused it.
+ */
+export type WorkflowRunCanceller = (reason?: string) => Promise<void>;
+
+/**
+ * Listener for a single event of a workflow run
+ */
+export type WorkflowRunListener<K extends keyof WorkflowRunEvents> = (
+  data: WorkflowRunEvents[K]
+) => void;
+
+/**
+ * Handle for a workflow run started with `runWorkflow`.
+ *
+ * The `result` promise settles when the server reports the end of the run,
+ * while `on` allows subscribing to the events of the run as they arrive.
+ */
+export class WorkflowRun {
+  /**
+   * Correlation ID sent with the run request and carried by every event of
+   * the run. With a retry policy, it is the run ID of the first attempt.
+   */
+  public readonly runId: string;
+
+  /**
+   * Key sent with the run request so the server can drop accidental
+   * duplicate submissions
+   */
+  public idempotencyKey?: string;
+
+  /**
+   * Current lifecycle status of the run
+   */
+  public status: WorkflowRunStatus = "pending";
+
+  /**
+   * When the run was requested
+   */
+  public readonly startedAt: Date = new Date();
+
+  /**
+   * When the run completed, failed or was cancelled
+   */
+  public finishedAt?: Date;
+
+  /**
+   * Name of the node that emitted the most recent `stream_output` event
+   */
+  public lastNode?: string;
+
+  /**
+   * Sequence number of the most recent event received for the run
+   */
+  public lastSeq?: number;
+
+  /**
+   * Error the run failed with, if any
+   */
+  public error?: Error;
+
+  /**
+   * Resolves with the final state and output of the workflow. Rejects with
+   * a `WorkflowRunError` when the server reports a failure, with a
+   * `WorkflowCancelledError` when the run is cancelled, or with an
+   * `AbortError` when the run's signal is aborted.
+   */
+  public readonly result: Promise<WorkflowRunResult>;
+
+  private resolveResult!: (result: WorkflowRunResult) => void;
+  private rejectResult!: (error: Error) => void;
+  private listeners = new Map<string, Set<(data: any) => void>>();
+  private eventListeners = new Set<(event: string, data: any) => void>();
+  private pendingCancel?: Promise<void>;
+  private latestState: Record<string, unknown> = {};
+  private retriedAttempts: WorkflowRun[] = [];
+
+  /**
+   * Logger for diagnostics about this run, with the run's ID attached
+   */
+  public readonly logger: Logger;
+
+  constructor(
+    public readonly workflowId: string,
+    private readonly canceller?: WorkflowRunCanceller,
+    logger: Logger = getDefaultLogger(),
+    private readonly redactor: Redactor = createRedactor(),
+    private readonly recorder?: RunRecorder,
+    runId: string = createRunId()
+  ) {
+    this.runId = runId;
+    this.logger = logger.child({ runId: this.runId, workflowId });
+
+    this.result = new Promise<WorkflowRunResult>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+
+    // Callers that only subscribe to events never await the result,
+    // so a failed run must not surface as an unhandled rejection
+    this.result.catch(() => {});
+  }
+
+  /**
+   * Whether the run has completed, failed or been cancelled
+   */
+  get isSettled(): boolean {
+    return (
+      this.status === "completed" ||
+      this.status === "failed" ||
+      this.status === "cancelled"
+    );
+  }
+
+  /**
+   * Attempts made for this run so far, in order. A run started without a
+   * retry policy is its own only attempt. With one, every attempt is a run
+   * of its own whose events are passed on to this run, and
+   * `attempts.length` is the number of the current attempt.
+   */
+  get attempts(): readonly WorkflowRun[] {
+    return this.retriedAttempts.length > 0 ? [...this.retriedAttempts] : [this];
+  }
+
+  /**
+   * Add an attempt started by the run's retry policy
+   * @internal
+   */
+  addAttempt(attempt: WorkflowRun): void {
+    this.retriedAttempts.push(attempt);
+    // The server numbers the events of every attempt from the start
+    this.lastSeq = undefined;
+  }
+
+  /**
+   * Latest state of the workflow, as reported by the most recent
+   * `stream_output` event or by the completion of the run. The snapshot is
+   * shared with the event handlers, so treat it as read-only.
+   */
+  get state(): Readonly<Record<string, unknown>> {
+    return this.latestState;
+  }
+
+  /**
+   * Subscribe to an event of this run.
+   * @param event The name of the event to listen for.
+   * @param listener The function to call with the event data.
+   * @returns A function that removes the listener.
+   */
+  on<K extends keyof WorkflowRunEvents>(
+    event: K,
+    listener: WorkflowRunListener<K>
+  ): () => void;
+  on(event: string, listener: (data: any) => void): () => void;
+  on(event: string, listener: (data: any) => void): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners?.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to every event of this run.
+   * @param listener The function to call with the event name and data.
+   * @returns A function that removes the listener.
+   */
+  onEvent(listener: (event: string, data: any) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Iterate over the events this run receives from now on:
+   *
+   * ```typescript
+   * for await (const event of run.events()) {
+   *   if (event.type === "stream_output") console.log(event.data.node);
+   * }
+   * ```
+   *
+   * The iteration ends after `run_complete` or `run_warning`, and throws
+   * the run's error when the run fails or is cancelled.
+   * @param options Buffering options for slow consumers.
+   * @returns An async iterator over the run's events
+   */
+  events(
+    options: WorkflowEventIteratorOptions = {}
+  ): AsyncIterableIterator<WorkflowEvent> {
+    return createEventIterator(this, options);
+  }
+
+  /**
+   * Feed a server-emitted event into the run. Called for every event
+   * that the socket's run router delivers to this run.
+   * @internal
+   */
+  handleEvent<K extends keyof WorkflowRunEvents>(
+    event: K,
+    data: WorkflowRunEvents[K]
+  ): void;
+  handleEvent(event: string, data: any): void;
+  handleEvent(event: string, data: any): void {
+    // Events are recorded as they arrive, including late and replayed ones
+    this.record("in", event, data);
+
+    if (this.isSettled) {
+      return;
+    }
+
+    // Drop events the server replays after a reconnect that were already seen
+    const sequence = eventSequence(data);
+    if (sequence) {
+      if (this.lastSeq !== undefined && sequence.seq <= this.lastSeq) {
+        return;
+      }
+      this.lastSeq = sequence.seq;
+    }
+
+    if (this.status === "pending") {
+      this.status = "running";
+    }
+
+    if (event === "stream_output" && data) {
+      this.lastNode = (data as ServerEmittedEvents["stream_output"]).node;
+    }
+
+    // The diff comes first, so the run's state is up to date in the
+    // listeners of the event and an iteration that ends with the event
+    // still sees the final change
+    this.updateState(event, data, sequence?.seq);
+    this.dispatch(event, data);
+
+    switch (event) {
+      case "run_complete":
+      case "run_warning": {
+        const completion = (data || {}) as ServerEmittedEvents["run_complete"];
+        this.complete({
+          state: completion.state || {},
+          output: completion.output,
+          message: completion.message,
+          warning: Boolean(
+            completion.warning ||
+              (completion.errors && completion.errors.length > 0)
+          ),
+          errors: completion.errors || [],
+        });
+        break;
+      }
+      case "run_cancelled": {
+        const cancellation = (data ||
+          {}) as ServerEmittedEvents["run_cancelled"];
+        this.markCancelled(cancellation.reason || cancellation.message);
+        break;
+      }
+      case "run_error":
+      case "workflow_error": {
+        const failure = (data || {}) as ServerEmittedEvents["run_error"];
+        this.fail(
+          new WorkflowRunError(
+            this.redactor.redactText(
+              failure.message || "Workflow execution failed"
+            ),
+            event,
+            failure.stack && this.redactor.redactText(failure.stack)
+          )
+        );
+        break;
+      }
+    }
+  }
+
+  /**
+   * Pass on a feedback response the connection sent for this run. The
+   * connection records the responses it sends, so they are not recorded
+   * again here.
+   * @internal
+   */
+  handleFeedbackResponse(response: FeedbackResponse): void {
+    if (this.isSettled) {
+      return;
+    }
+    this.dispatch("feedback_response", response);
+  }
+
+  /**
+   * Record an event of this run, if the run has a recorder
+   * @param direction Whether the event was received or sent
+   * @param event The name of the event
+   * @param payload The payload of the event
+   * @internal
+   */
+  record(direction: "in" | "out", event: string, payload: unknown): void {
+    recordEvent(
+      this.recorder,
+      direction,
+      event,
+      payload,
+      this.redactor,
+      this.logger
+    );
+  }
+
+  /**
+   * Ask the server to stop the run.
+   *
+   * Resolves once the server has acknowledged the cancellation, at which
+   * point `result` rejects with a `WorkflowCancelledError`. Resolves right
+   * away if the run has already ended. If the server does not answer
+   * within the timeout the run is still marked as cancelled locally, but
+   * the returned promise rejects.
+   * @param options Options for the cancellation.
+   * @throws {WorkflowError} If the server refuses or does not acknowledge the cancellation
+   */
+  cancel(options: WorkflowCancelOptions = {}): Promise<void> {
+    if (this.isSettled) {
+      return Promise.resolve();
+    }
+
+    if (!this.pendingCancel) {
+      this.pendingCancel = this.requestCancel(options);
+    }
+
+    return this.pendingCancel;
+  }
+
+  /**
+   * Mark the run as failed without a server event, for example when the
+   * run request could not be sent.
+   * @internal
+   */
+  fail(error: Error): void {
+    if (this.isSettled) {
+      return;
+    }
+
+    this.status = "failed";
+    this.finishedAt = new Date();
+    this.error =
+      error instanceof WorkflowError
+        ? error
+        : new WorkflowError(error.message, error);
+    this.rejectResult(this.error);
+  }
+
+  private async requestCancel({
+    reason,
+    timeout = 10000,
+  }: WorkflowCancelOptions): Promise<void> {
+    if (!this.canceller) {
+      throw new WorkflowError("This workflow run cannot be cancelled");
+    }
+
+    const previousStatus = this.status;
+    this.status = "cancelling";
+
+    // Stop waiting if the run ends on its own while the request is in flight
+    const settled = this.result.then(
+      () => undefined,
+      () => undefined
+    );
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let didTimeOut = false;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        didTimeOut = true;
+        reject(
+          new WorkflowError(
+            `Server did not acknowledge the cancellation within ${timeout}ms`
+          )
+        );
+      }, timeout);
+    });
+
+    try {
+      await Promise.race([this.canceller(reason), settled, timedOut]);
+    } catch (error) {
+      if (!this.isSettled) {
+        if (didTimeOut) {
+          // Stop tracking the run even though the server never answered
+          this.markCancelled(reason);
+        } else {
+          this.status = previousStatus;
+          this.pendingCancel = undefined;
+        }
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    this.markCancelled(reason);
+  }
+
+  /**
+   * Stop the run because the caller's AbortSignal fired. The server is
+   * asked to cancel the run in the background, while `result` rejects
+   * with the given AbortError right away.
+   * @internal
+   */
+  abort(error: AbortError): void {
+    if (this.isSettled) {
+      return;
+    }
+
+    if (this.canceller) {
+      this.canceller(error.message).catch(() => {});
+    }
+    this.markCancelled(undefined, error);
+  }
+
+  /**
+   * Fail the run because its watchdog detected a stall. The server is
+   * asked to cancel the run in the background, while `result` rejects
+   * with the given error right away.
+   * @internal
+   */
+  stall(error: WorkflowStalledError): void {
+    if (this.isSettled) {
+      return;
+    }
+
+    if (this.canceller) {
+      this.canceller(error.message).catch(() => {});
+    }
+    this.fail(error);
+  }
+
+  private dispatch(event: string, data: any): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(data);
+      } catch (error) {
+        this.logger.error(`Error in ${event} listener`, { error });
+      }
+    });
+    this.eventListeners.forEach((listener) => {
+      try {
+        listener(event, data);
+      } catch (error) {
+        this.logger.error(`Error in ${event} listener`, { error });
+      }
+    });
+  }
+
+  /**
+   * Take the state carried by an event as the run's latest state and
+   * emit a `state_diff` event when it changed
+   */
+  private updateState(event: string, data: any, seq?: number): void {
+    if (
+      event !== "stream_output" &&
+      event !== "run_complete" &&
+      event !== "run_warning"
+    ) {
+      return;
+    }
+    const state = data && data.state;
+    if (!state || typeof state !== "object" || Array.isArray(state)) {
+      return;
+    }
+
+    const previous = this.latestState;
+    this.latestState = state;
+
+    // Nobody is told about the change, so there is no need to work it out
+    if (!this.listeners.get("state_diff")?.size && !this.eventListeners.size) {
+      return;
+    }
+
+    const patch = diffState(previous, state);
+    if (patch.length === 0) {
+      return;
+    }
+    const diff: WorkflowStateDiff = {
+      runId: this.runId,
+      ...(seq !== undefined ? { seq } : {}),
+      event,
+      ...(event === "stream_output" ? { node: data.node } : {}),
+      patch,
+    };
+    this.dispatch("state_diff", diff);
+  }
+
+  private markCancelled(reason?: string, error?: Error): void {
+    if (this.isSettled) {
+      return;
+    }
+
+    this.status = "cancelled";
+    this.finishedAt = new Date();
+    this.error =
+      error ||
+      new WorkflowCancelledError(
+        reason
+          ? `Workflow run was cancelled: ${reason}`
+          : "Workflow run was cancelled",
+        reason
+      );
+    this.rejectResult(this.error);
+  }
+
+  private complete(result: WorkflowRunResult): void {
+    this.status = "completed";
+    this.finishedAt = new Date();
+    this.resolveResult(result);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Differences between the states a workflow run reports, so consumers can
+ * react to what changed instead of re-scanning the whole state
+ */
+
+/**
+ * A change to the state of a run, in the style of a JSON Patch (RFC 6902)
+ * operation. `path` is a JSON Pointer (RFC 6901) into the state.
+ * - `add`: the path did not exist before
+ * - `replace`: the value at the path changed
+ * - `remove`: the path no longer exists
+ */
+export type StatePatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string };
+
+/**
+ * Payload of the `state_diff` event of a run, emitted after every event
+ * that changed the run's state
+ */
+export interface WorkflowStateDiff {
+  runId: string;
+
+  /**
+   * Sequence number of the event that changed the state
+   */
+  seq?: number;
+
+  /**
+   * Event that carried the new state
+   */
+  event: "stream_output" | "run_complete" | "run_warning";
+
+  /**
+   * Node that produced the new state, for `stream_output` events
+   */
+  node?: string;
+
+  /**
+   * Operations that turn the previous state into the new one
+   */
+  patch: StatePatchOperation[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/**
+ * Escape a key for use in a JSON Pointer
+ */
+const pointerToken = (key: string | number): string =>
+  String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+
+/**
+ * Compare two JSON values structurally
+ */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+const diffValues = (
+  previous: unknown,
+  next: unknown,
+  path: string,
+  patch: StatePatchOperation[]
+) => {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    Object.keys(previous).forEach((key) => {
+      if (!(key in next)) {
+        patch.push({ op: "remove", path: `${path}/${pointerToken(key)}` });
+      }
+    });
+    Object.keys(next).forEach((key) => {
+      const childPath = `${path}/${pointerToken(key)}`;
+      if (!(key in previous)) {
+        patch.push({ op: "add", path: childPath, value: next[key] });
+      } else {
+        diffValues(previous[key], next[key], childPath, patch);
+      }
+    });
+    return;
+  }
+
+  // Items appended to or removed from the end of a list, which is how
+  // workflows usually grow their results, are reported one by one
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const shared = Math.min(previous.length, next.length);
+    for (let i = 0; i < shared; i++) {
+      diffValues(previous[i], next[i], `${path}/${i}`, patch);
+    }
+    for (let i = previous.length - 1; i >= next.length; i--) {
+      patch.push({ op: "remove", path: `${path}/${i}` });
+    }
+    for (let i = previous.length; i < next.length; i++) {
+      patch.push({ op: "add", path: `${path}/${i}`, value: next[i] });
+    }
+    return;
+  }
+
+  if (!isEqual(previous, next)) {
+    patch.push({ op: "replace", path, value: next });
+  }
+};
+
+/**
+ * Work out how a run's state changed between two events
+ * @param previous The previous state
+ * @param next The new state
+ * @returns The operations that turn the previous state into the new one,
+ * in an order they can be applied in
+ */
+export const diffState = (
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>
+): StatePatchOperation[] => {
+  const patch: StatePatchOperation[] = [];
+  diffValues(previous, next, "", patch);
+  return patch;
+};
@@ -0,0 +1,158 @@
+import { WorkflowRunEvents } from "./workflow";
+import { WorkflowRun } from "./run";
+import { WorkflowEvent, WorkflowEventIteratorOptions } from "./events";
+import { WorkflowError } from "./errors";
+
+/**
+ * Text encoding of the events in a workflow stream
+ * - `object`: the `{ type, data }` event objects themselves
+ * - `ndjson`: one JSON-encoded event per line
+ * - `sse`: Server-Sent Events, with the event type as the SSE event name
+ */
+export type WorkflowStreamFormat = "object" | "ndjson" | "sse";
+
+/**
+ * Options for streaming the events of a workflow run
+ */
+export interface WorkflowStreamOptions extends WorkflowEventIteratorOptions {
+  /**
+   * Types of events to include in the stream
+   * @default ["stream_output", "workflow_log"]
+   */
+  events?: (keyof WorkflowRunEvents)[];
+
+  /**
+   * How to encode the events
+   * @default "object"
+   */
+  format?: WorkflowStreamFormat;
+}
+
+/**
+ * Event types streamed when no other types are requested
+ */
+const defaultStreamEvents: (keyof WorkflowRunEvents)[] = [
+  "stream_output",
+  "workflow_log",
+];
+
+/**
+ * Encode an event as a line of newline-delimited JSON
+ * @param event The event to encode
+ * @returns The JSON line, including the trailing newline
+ */
+export const encodeNdjson = (event: WorkflowEvent): string =>
+  `${JSON.stringify(event)}\n`;
+
+/**
+ * Encode an event as a Server-Sent Events message. The event's sequence
+ * number, if any, becomes the message ID so clients can resume with
+ * `Last-Event-ID`.
+ * @param event The event to encode
+ * @returns The SSE message, including the blank line that ends it
+ */
+export const encodeServerSentEvent = (event: WorkflowEvent): string => {
+  const seq = (event.data as { seq?: number } | undefined)?.seq;
+  const id = typeof seq === "number" ? `id: ${seq}\n` : "";
+  return `event: ${event.type}\n${id}data: ${JSON.stringify(event.data)}\n\n`;
+};
+
+/**
+ * Encode an event in the given text format
+ * @param event The event to encode
+ * @param format The text format to use
+ * @returns The encoded event
+ */
+export const encodeWorkflowEvent = (
+  event: WorkflowEvent,
+  format: Exclude<WorkflowStreamFormat, "object">
+): string =>
+  format === "sse" ? encodeServerSentEvent(event) : encodeNdjson(event);
+
+/**
+ * Create a source that pulls the selected events of a run one at a time.
+ * Shared by the WHATWG and Node stream adapters.
+ * @param run The run to read events from
+ * @param options Stream options
+ * @returns A source whose `next` resolves with the next event, or undefined at the end of the run
+ * @internal
+ */
+export const createEventSource = (
+  run: WorkflowRun,
+  options: WorkflowStreamOptions
+): { next: () => Promise<WorkflowEvent | undefined>; close: () => void } => {
+  const { events = defaultStreamEvents, format, ...iteratorOptions } = options;
+  const iterator = run.events(iteratorOptions);
+
+  return {
+    next: async () => {
+      for (;;) {
+        const { value, done } = await iterator.next();
+        if (done) {
+          return undefined;
+        }
+        if (events.includes(value.type)) {
+          return value;
+        }
+      }
+    },
+    close: () => {
+      iterator.return?.();
+    },
+  };
+};
+
+/**
+ * Expose the events of a run as a WHATWG `ReadableStream`. The stream
+ * closes when the run completes and errors with the run's error when it
+ * fails or is cancelled. Events are only read from the run as the stream
+ * is pulled, so a slow reader applies backpressure to the buffer.
+ *
+ * With the `ndjson` or `sse` format the stream carries UTF-8 bytes and can
+ * be used directly as an HTTP response body.
+ * @param run The run to stream
+ * @param options Stream options
+ * @returns A readable stream of events or encoded bytes
+ * @throws {WorkflowError} If the runtime does not provide `ReadableStream`
+ */
+export function createRunReadableStream(
+  run: WorkflowRun,
+  options?: WorkflowStreamOptions & { format?: "object" }
+): ReadableStream<WorkflowEvent>;
+export function createRunReadableStream(
+  run: WorkflowRun,
+  options: WorkflowStreamOptions & { format: "ndjson" | "sse" }
+): ReadableStream<Uint8Array>;
+export function createRunReadableStream(
+  run: WorkflowRun,
+  options: WorkflowStreamOptions = {}
+): ReadableStream<WorkflowEvent | Uint8Array> {
+  // Looked up at runtime, since older runtimes do not provide it
+  if (typeof globalThis.ReadableStream !== "function") {
+    throw new WorkflowError("ReadableStream is not available in this runtime");
+  }
+
+  const { format = "object" } = options;
+  const source = createEventSource(run, options);
+  const encoder = new TextEncoder();
+
+  return new globalThis.ReadableStream<WorkflowEvent | Uint8Array>({
+    async pull(controller) {
+      try {
+        const event = await source.next();
+        if (!event) {
+          controller.close();
+        } else if (format === "object") {
+          controller.enqueue(event);
+        } else {
+          controller.enqueue(encoder.encode(encodeWorkflowEvent(event, format)));
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel() {
+      source.close();
+    },
+  });
+}
@@ -0,0 +1,98 @@
+import { WorkflowRun } from "./run";
+import { Redactor } from "../redact";
+import { Span, SpanAttributes, Tracer } from "../tracing";
+
+/**
+ * Describe an error for a span, which only holds plain values
+ */
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return typeof error === "string" ? error : JSON.stringify(error);
+};
+
+/**
+ * Trace a run: one span for the whole run, with a child span for every
+ * node. A node's span starts with its first `stream_output` event and ends
+ * when an event from another node arrives or the run ends. Workflow logs,
+ * feedback requests and node errors are recorded as events of the active
+ * node's span, or of the run's span when no node is active.
+ * @param run The run to trace
+ * @param tracer The tracer that exports the spans
+ * @param redactor Redactor that masks the log messages and prompts
+ * @param parent Span the run's span is part of, if any
+ */
+export const traceRun = (
+  run: WorkflowRun,
+  tracer: Tracer,
+  redactor: Redactor,
+  parent?: Span
+): void => {
+  const runSpan = tracer.startSpan(`run ${run.workflowId}`, {
+    parent,
+    startTime: run.startedAt.getTime(),
+    attributes: { "workflow.id": run.workflowId, "run.id": run.runId },
+  });
+  let nodeSpan: Span | undefined;
+  let activeNode: string | undefined;
+
+  const activeSpan = () => nodeSpan || runSpan;
+  const addEvent = (name: string, attributes: SpanAttributes) =>
+    activeSpan().addEvent(name, redactor.redact(attributes));
+
+  const unsubscribers = [
+    run.on("stream_output", (data) => {
+      if (!data) {
+        return;
+      }
+      if (data.node !== activeNode) {
+        nodeSpan?.end();
+        activeNode = data.node;
+        nodeSpan = tracer.startSpan(`node ${data.node}`, {
+          parent: runSpan,
+          attributes: { "node.name": data.node, "run.id": run.runId },
+        });
+      }
+      if (data.isError) {
+        nodeSpan?.setStatus("error", redactor.redactText(String(data.action)));
+      }
+    }),
+    run.on("node_error", (data) => {
+      const message = redactor.redactText(describeError(data?.error));
+      addEvent("node_error", { "node.name": data?.node, message });
+      if (nodeSpan && data?.node === activeNode) {
+        nodeSpan.setStatus("error", message);
+      }
+    }),
+    run.on("workflow_log", (data) => {
+      addEvent("workflow_log", {
+        message: data?.message,
+        level: data?.level,
+      });
+    }),
+    run.on("feedback_request", (data) => {
+      addEvent("feedback_request", {
+        "feedback.kind": data?.kind,
+        "feedback.request_id": data?.requestId,
+        "feedback.prompt": data?.prompt,
+      });
+    }),
+  ];
+
+  // A cancelled run has neither succeeded nor failed
+  const finish = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    const endTime = run.finishedAt ? run.finishedAt.getTime() : Date.now();
+    nodeSpan?.end(endTime);
+
+    runSpan.setAttributes({ "run.status": run.status });
+    if (run.status === "completed") {
+      runSpan.setStatus("ok");
+    } else if (run.status === "failed") {
+      runSpan.setStatus("error", run.error?.message);
+    }
+    runSpan.end(endTime);
+  };
+  run.result.then(finish, finish);
+};
@@ -0,0 +1,156 @@
+import { ServerEmittedEvents } from "./workflow";
+import { WorkflowRun } from "./run";
+import { WorkflowStalledError } from "./errors";
+
+/**
+ * Limits that stop a workflow run which is connected but not making progress.
+ * All durations are in milliseconds; limits that are not set are not enforced.
+ */
+export interface WorkflowWatchdogOptions {
+  /**
+   * Maximum time from starting the run until it ends. For a run with a
+   * retry policy this includes every attempt and the delays between them.
+   */
+  deadline?: number;
+
+  /**
+   * Maximum time without a `stream_output` event, counted from the start of
+   * the run and then from each `stream_output` event. The time a feedback
+   * request waits for its answer does not count.
+   */
+  idleTimeout?: number;
+
+  /**
+   * Maximum time a node may stay active. A node becomes active with its
+   * first `stream_output` event and stays active until an event from
+   * another node arrives. The time a feedback request waits for its answer
+   * does not count.
+   */
+  nodeTimeout?: number;
+
+  /**
+   * Per-node overrides of `nodeTimeout`, keyed by `stream_output.node`
+   */
+  nodeTimeouts?: Record<string, number>;
+}
+
+/**
+ * Enforce the watchdog limits on a run. When a limit is hit the run fails
+ * with a `WorkflowStalledError` naming the last active node and the last
+ * state it reported, and the server is asked to cancel the run.
+ * @param run The run to watch
+ * @param options The limits to enforce
+ * @returns A function that stops the watchdog
+ */
+export const watchRun = (
+  run: WorkflowRun,
+  options: WorkflowWatchdogOptions
+): (() => void) => {
+  const { deadline, idleTimeout, nodeTimeout, nodeTimeouts = {} } = options;
+
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let nodeTimer: ReturnType<typeof setTimeout> | undefined;
+  let activeNode: string | undefined;
+  let lastState: any;
+
+  // Feedback requests minus the responses sent for them. The connection may
+  // answer a request before the run has seen it, so this can drop below 0.
+  let pendingFeedback = 0;
+
+  const stall = (
+    limit: WorkflowStalledError["limit"],
+    description: string
+  ) => {
+    const nodeInfo = activeNode ? ` (last active node: '${activeNode}')` : "";
+    run.stall(
+      new WorkflowStalledError(
+        `${description}${nodeInfo}`,
+        limit,
+        activeNode,
+        lastState
+      )
+    );
+  };
+
+  const resetIdleTimer = () => {
+    if (idleTimeout === undefined || pendingFeedback > 0) {
+      return;
+    }
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(
+      () => stall("idle", `No output from the workflow for ${idleTimeout}ms`),
+      idleTimeout
+    );
+  };
+
+  const startNodeTimer = (node: string) => {
+    clearTimeout(nodeTimer);
+    const timeout = nodeTimeouts[node] ?? nodeTimeout;
+    if (timeout === undefined || pendingFeedback > 0) {
+      return;
+    }
+    nodeTimer = setTimeout(
+      () =>
+        stall("node", `Node '${node}' has been active for more than ${timeout}ms`),
+      timeout
+    );
+  };
+
+  const stop = () => {
+    clearTimeout(deadlineTimer);
+    clearTimeout(idleTimer);
+    clearTimeout(nodeTimer);
+    unsubscribe.forEach((unsubscribeEvent) => unsubscribeEvent());
+  };
+
+  // A human answering a feedback request is not a stalled workflow, so the
+  // idle and node timers wait for the answer. The deadline keeps running.
+  const pauseForFeedback = () => {
+    pendingFeedback += 1;
+    if (pendingFeedback === 1) {
+      clearTimeout(idleTimer);
+      clearTimeout(nodeTimer);
+    }
+  };
+
+  const resumeAfterFeedback = () => {
+    pendingFeedback -= 1;
+    if (pendingFeedback === 0) {
+      resetIdleTimer();
+      if (activeNode !== undefined) {
+        startNodeTimer(activeNode);
+      }
+    }
+  };
+
+  const trackProgress = (data: ServerEmittedEvents["stream_output"]) => {
+    if (!data) {
+      return;
+    }
+    lastState = data.state;
+    resetIdleTimer();
+
+    if (data.node !== activeNode) {
+      activeNode = data.node;
+      startNodeTimer(data.node);
+    }
+  };
+
+  const unsubscribe = [
+    run.on("stream_output", trackProgress),
+    run.on("feedback_request", pauseForFeedback),
+    run.on("feedback_response", resumeAfterFeedback),
+  ];
+
+  if (deadline !== undefined) {
+    deadlineTimer = setTimeout(
+      () => stall("deadline", `Workflow run did not complete within ${deadline}ms`),
+      deadline
+    );
+  }
+  resetIdleTimer();
+
+  run.result.then(stop, stop);
+  return stop;
+};
@@ -1,16 +1,48 @@
 import { Socket } from "socket.io-client";
+import { PocketFlowConnection } from "./connection";
+import {
+  WorkflowCancelledError,
+  WorkflowDisconnectedError,
+  WorkflowError,
+} from "./errors";
+import { WorkflowRun } from "./run";
+import { RunRouter } from "./router";
+import { watchRun, WorkflowWatchdogOptions } from "./watchdog";
+import { abortErrorFrom, onAbort } from "../abort";
+import { getDefaultLogger, Logger } from "../logger";
+import { createRedactor, RedactionOptions, redactLogger } from "../redact";
+import { Credentials, resolveCredentials } from "../credentials";
+import { FeedbackKind, FeedbackResponse } from "../feedback";
+import { WorkflowStateDiff } from "./state";
+import { RunRecorder } from "./recorder";
+import { traceRun } from "./tracing";
+import { Span, Tracer } from "../tracing";
+import { collectRunMetrics } from "./metrics";
+import { MetricsRegistry } from "../metrics";
+import {
+  attemptKey,
+  retryDelay,
+  shouldRetry,
+  WorkflowRetryOptions,
+} from "./retry";
+
+export { WorkflowError };
 
 /**
- * Error thrown when a workflow operation fails
+ * Fields the server adds to every event that belongs to a workflow run
  */
-export class WorkflowError extends Error {
-  constructor(message: string, public readonly cause?: Error) {
-    super(message);
-    this.name = "WorkflowError";
+export interface RunEventFields {
+  /**
+   * Correlation ID of the run, as sent in the `run_workflow` payload
+   */
+  runId?: string;
 
-    // Maintain the prototype chain for instanceof checks
-    Object.setPrototypeOf(this, WorkflowError.prototype);
-  }
+  /**
+   * Position of the event within its run. The server numbers the events of
+   * a run consecutively, which lets the client resume a run after a
+   * reconnect and drop events it has already seen.
+   */
+  seq?: number;
 }
 
 /**
@@ -18,37 +50,77 @@ export class WorkflowError extends Error {
  */
 export interface ServerEmittedEvents {
   // Workflow execution related events
-  run_error: { message: string; stack?: string };
-  run_warning: {
+  run_error: RunEventFields & { message: string; stack?: string };
+  run_warning: RunEventFields & {
     message: string;
     errors: any[];
     state: Record<string, unknown>;
     warning: boolean;
   };
-  run_complete: {
+  run_complete: RunEventFields & {
     message: string;
     state: Record<string, unknown>;
     warning: boolean;
     errors?: any[];
     output?: any;
   };
-  run_start: { message: string };
+  run_start: RunEventFields & { message: string };
+  run_cancelled: RunEventFields & { message?: string; reason?: string };
 
   // Stream and node related events
-  stream_output: {
+  stream_output: RunEventFields & {
     type: string;
     node: string;
     state: any;
     action: string;
     isError: boolean;
   };
-  node_error: { node: string; error: any; state: any };
+  node_error: RunEventFields & { node: string; error: any; state: any };
 
   // Add missing handlers that the tests expect
-  workflow_received: { message?: string };
-  workflow_error: { message: string; stack?: string };
+  workflow_received: RunEventFields & { message?: string };
+  workflow_error: RunEventFields & { message: string; stack?: string };
+}
+
+/**
+ * Events of a workflow run that are handled by `connectSocket` rather than
+ * by the run's event handlers, but can still be observed on the run
+ */
+export interface ConnectionRunEvents {
+  workflow_log: RunEventFields & {
+    message?: string;
+    level?: string;
+    [key: string]: any;
+  };
+  feedback_request: RunEventFields & {
+    kind?: FeedbackKind;
+    requestId?: string;
+    prompt?: string;
+    defaultValue?: any;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Events that the SDK derives from the server events of a run
+ */
+export interface DerivedRunEvents {
+  state_diff: WorkflowStateDiff;
+
+  /**
+   * Answer that `connectSocket` sent to one of the run's feedback requests
+   */
+  feedback_response: FeedbackResponse;
 }
 
+/**
+ * Interface for every event that can be observed on a workflow run
+ */
+export interface WorkflowRunEvents
+  extends ServerEmittedEvents,
+    ConnectionRunEvents,
+    DerivedRunEvents {}
+
 /**
  * Type for event handlers that can be registered for workflow events
  */
@@ -56,98 +128,115 @@ export type EventHandlers = {
   [K in keyof ServerEmittedEvents]?: (data: ServerEmittedEvents[K]) => void;
 };
 
+/**
+ * Type for the built-in event handlers, which report events through the
+ * given logger (default: the SDK default logger)
+ */
+export type LoggingEventHandlers = {
+  [K in keyof ServerEmittedEvents]?: (
+    data: ServerEmittedEvents[K],
+    logger?: Logger
+  ) => void;
+};
+
 /**
  * Default handlers for all server-emitted events
  */
-export const defaultHandlers: EventHandlers = {
+export const defaultHandlers: LoggingEventHandlers = {
   // Workflow execution related events
-  run_error: (data) => {
-    console.error(`❌ Workflow Error: ${data.message}`);
-    if (data.stack) console.error(`Stack: ${data.stack}`);
+  run_error: (data, logger = getDefaultLogger()) => {
+    logger.error(`Workflow error: ${data.message}`, { stack: data.stack });
   },
-  run_warning: (data) => {
-    console.warn(`⚠️ Workflow Warning: ${data.message}`);
-    if (data.errors && data.errors.length > 0) {
-      console.warn(`Errors:`, data.errors);
-    }
+  run_warning: (data, logger = getDefaultLogger()) => {
+    logger.warn(`Workflow warning: ${data.message}`, { errors: data.errors });
   },
-  run_complete: (data) => {
+  run_complete: (data, logger = getDefaultLogger()) => {
     if (data.warning || (data.errors && data.errors.length > 0)) {
-      console.warn(`⚠️ Workflow Completed with warnings: ${data.message}`);
-      if (data.errors) console.warn(`Errors:`, data.errors);
+      logger.warn(`Workflow completed with warnings: ${data.message}`, {
+        errors: data.errors,
+      });
     } else {
-      console.log(`✅ Workflow Completed: ${data.message}`);
+      logger.info(`Workflow completed: ${data.message}`);
     }
   },
-  run_start: (data) => {
-    console.log(`🚀 Workflow Started: ${data.message}`);
+  run_start: (data, logger = getDefaultLogger()) => {
+    logger.info(`Workflow started: ${data.message}`);
+  },
+  run_cancelled: (data, logger = getDefaultLogger()) => {
+    logger.warn(`Workflow cancelled: ${data.message || "No reason given"}`);
   },
 
   // Stream and node related events
-  stream_output: (data) => {
-    const prefix = data.isError ? "❌ Error" : "📤 Output";
-    console.log(
-      `${prefix} from node '${data.node}' (${data.type}): ${data.action}`
-    );
+  stream_output: (data, logger = getDefaultLogger()) => {
+    const message = `Output from node '${data.node}' (${data.type}): ${data.action}`;
+    if (data.isError) {
+      logger.error(message);
+    } else {
+      logger.info(message);
+    }
   },
-  node_error: (data) => {
-    console.error(`❌ Error in node '${data.node}':`, data.error);
+  node_error: (data, logger = getDefaultLogger()) => {
+    logger.error(`Error in node '${data.node}'`, { error: data.error });
   },
-  workflow_received: () => {
-    console.log(`📥 Workflow received by server`);
+  workflow_received: (_data, logger = getDefaultLogger()) => {
+    logger.info("Workflow received by server");
   },
-  workflow_error: (data: any) => {
-    console.error(`❌ Workflow Error: ${data.message || "Unknown error"}`);
-    if (data.stack) console.error(`Stack: ${data.stack}`);
+  workflow_error: (data: any, logger = getDefaultLogger()) => {
+    logger.error(`Workflow error: ${data.message || "Unknown error"}`, {
+      stack: data.stack,
+    });
   },
 };
 
 /**
  * Quiet handlers that minimize logging for non-critical events
  */
-export const quietHandlers: EventHandlers = {
+export const quietHandlers: LoggingEventHandlers = {
   // Workflow execution related events - only log errors and completion
-  run_error: (data) => {
-    console.error(`❌ Workflow Error: ${data.message}`);
+  run_error: (data, logger = getDefaultLogger()) => {
+    logger.error(`Workflow error: ${data.message}`);
   },
-  run_warning: (data) => {
+  run_warning: (data, logger = getDefaultLogger()) => {
     // Only log warnings if they're serious enough to affect the result
     if (data.errors && data.errors.length > 0) {
-      console.warn(`⚠️ Workflow Warning: ${data.message}`);
+      logger.warn(`Workflow warning: ${data.message}`);
     }
   },
-  run_complete: (data) => {
+  run_complete: (data, logger = getDefaultLogger()) => {
+    // Log output data if available
+    const fields = data.output ? { output: data.output } : {};
     if (data.warning || (data.errors && data.errors.length > 0)) {
-      console.warn(`⚠️ Workflow Completed with warnings`);
+      logger.warn("Workflow completed with warnings", fields);
     } else {
-      console.log(`✅ Workflow Completed`);
-    }
-    // Log output data if available
-    if (data.output) {
-      console.log(`🏁 Output data:`, data.output);
+      logger.info("Workflow completed", fields);
     }
   },
   run_start: () => {}, // No logging for workflow start
+  run_cancelled: (_data, logger = getDefaultLogger()) => {
+    logger.warn("Workflow cancelled");
+  },
 
   // No logging for stream outputs and node events unless it's an error
-  stream_output: (data) => {
+  stream_output: (data, logger = getDefaultLogger()) => {
     if (data.isError) {
-      console.error(`❌ Error from node '${data.node}': ${data.action}`);
+      logger.error(`Error from node '${data.node}': ${data.action}`);
     }
   },
-  node_error: (data) => {
-    console.error(`❌ Error in node '${data.node}'`);
+  node_error: (data, logger = getDefaultLogger()) => {
+    logger.error(`Error in node '${data.node}'`);
   },
   workflow_received: () => {}, // No logging for workflow received
-  workflow_error: (data: any) => {
-    console.error(`❌ Workflow Error: ${data.message || "Unknown error"}`);
+  workflow_error: (data: any, logger = getDefaultLogger()) => {
+    logger.error(`Workflow error: ${data.message || "Unknown error"}`);
   },
 };
 
 /**
- * Pretty logging handlers that format the output in a more readable way
+ * Pretty logging handlers that format the output in a more readable way.
+ * They write to the console directly, since the formatting is meant for a
+ * terminal.
  */
-export const prettyLogHandlers: EventHandlers = {
+export const prettyLogHandlers: LoggingEventHandlers = {
   // Workflow execution related events
   run_error: (data) => {
     console.error(`\n┌─────────────────────────────────────┐`);
@@ -192,6 +281,9 @@ export const prettyLogHandlers: EventHandlers = {
   run_start: (data) => {
     console.log(`🚀 Workflow started: ${data.message || "Starting workflow"}`);
   },
+  run_cancelled: (data) => {
+    console.warn(`🛑 Workflow cancelled: ${data.message || "Cancelled"}`);
+  },
 
   // Stream and node related events
   stream_output: (data) => {
@@ -233,29 +325,135 @@ export interface WorkflowRunnerOptions {
    * @default false
    */
   verbose?: boolean;
+
+  /**
+   * Signal that stops the run when aborted. The server is asked to cancel
+   * the run and the run's `result` rejects with an `AbortError`.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Limits that fail the run with a `WorkflowStalledError` when it stops
+   * making progress
+   */
+  watchdog?: WorkflowWatchdogOptions;
+
+  /**
+   * Logger for diagnostics about the run (default: the SDK default logger).
+   * The event handlers selected by `prettyLogs` and `verbose` still write
+   * to the console.
+   */
+  logger?: Logger;
+
+  /**
+   * Extra fields and secrets to mask in logs, run errors and the events
+   * printed by the built-in handlers. The auth token is always masked.
+   */
+  redact?: RedactionOptions;
+
+  /**
+   * Recorder for every event the run receives and every request it sends,
+   * redacted like the logs. Feedback responses are sent by `connectSocket`,
+   * so pass the same recorder there to record them too.
+   */
+  recorder?: RunRecorder;
+
+  /**
+   * Tracer for a span covering the run, with a child span for every node
+   */
+  tracer?: Tracer;
+
+  /**
+   * Span the run's span is part of, such as the span of the request that
+   * started the run
+   */
+  traceParent?: Span;
+
+  /**
+   * Registry for the run's outcome and duration, node durations and node
+   * errors. Pass the same registry to `connectSocket` for feedback wait
+   * times and reconnects.
+   */
+  metrics?: MetricsRegistry;
+
+  /**
+   * Start the run again when it fails. Every attempt is a new run on the
+   * server and is listed in `run.attempts`; the run passes on the events
+   * of its attempts and only fails once the policy gives up.
+   */
+  retry?: WorkflowRetryOptions;
+
+  /**
+   * Key sent with the run request so the server can drop accidental
+   * duplicate submissions. Retried attempts send the key with their
+   * attempt number appended.
+   * @default the run ID
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Options accepted by the workflow wrapper functions generated by the CLI
+ */
+export interface WorkflowCallOptions {
+  /**
+   * Called with the run handle as soon as the workflow has been started,
+   * for example to keep a reference for `run.cancel()`
+   */
+  onRun?: (run: WorkflowRun) => void;
+
+  /**
+   * Signal that aborts connecting and stops the run when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Limits that fail the run with a `WorkflowStalledError` when it stops
+   * making progress
+   */
+  watchdog?: WorkflowWatchdogOptions;
+
+  /**
+   * Start the run again when it fails
+   */
+  retry?: WorkflowRetryOptions;
 }
 
 /**
  * Runs a workflow with the given ID, auth token, and input.
- * @param socket The socket connection to use.
+ *
+ * Several runs can share one socket: each run gets a `runId` that is sent
+ * with the run request, and server events are routed to the run whose
+ * `runId` they carry. The connection stays open after the run ends, so
+ * close it yourself once you no longer need it; `close()` waits for the
+ * runs in progress and refuses new ones meanwhile.
+ * @param connection The connection to use, as returned by `connectSocket`, or a socket.io socket.
  * @param workflowId The ID of the workflow to run.
- * @param authToken The authentication token to use.
+ * @param authToken The authentication token to use, or a provider that is asked for it before the run is requested.
  * @param input The input to provide to the workflow.
  * @param options Options for customizing the workflow execution.
- * @throws {WorkflowError} If workflow configuration is invalid
+ * @returns A WorkflowRun handle whose `result` promise settles when the workflow ends. If the run request cannot be sent, the handle is returned already failed.
+ * @throws {WorkflowError} If workflow configuration is invalid or the connection is closing
  */
 export const runWorkflow = (
-  socket: Socket,
+  connection: PocketFlowConnection | Socket,
   workflowId: string,
-  authToken: string,
+  authToken: Credentials,
   input: any,
   options: WorkflowRunnerOptions = {}
-): void => {
+): WorkflowRun => {
   // Validate required parameters
-  if (!socket) {
+  if (!connection) {
     throw new WorkflowError("Socket connection is required to run a workflow");
   }
 
+  if (connection instanceof PocketFlowConnection && connection.isClosing) {
+    throw new WorkflowError("Cannot run a workflow on a closing connection");
+  }
+
+  const socket =
+    connection instanceof PocketFlowConnection ? connection.socket : connection;
+
   if (!workflowId) {
     throw new WorkflowError("Workflow ID is required");
   }
@@ -264,10 +462,24 @@ export const runWorkflow = (
     throw new WorkflowError("Authentication token is required");
   }
 
-  const { handlers = {}, prettyLogs = false, verbose = false } = options;
+  const {
+    handlers = {},
+    prettyLogs = false,
+    verbose = false,
+    signal,
+    watchdog,
+    recorder,
+    tracer,
+    metrics,
+    retry,
+  } = options;
+  const redactor = createRedactor(options.redact).withSecrets(
+    typeof authToken === "string" ? authToken : undefined
+  );
+  const logger = redactLogger(options.logger || getDefaultLogger(), redactor);
 
   // Get the appropriate base handlers
-  let baseHandlers: EventHandlers;
+  let baseHandlers: LoggingEventHandlers;
   if (prettyLogs) {
     baseHandlers = prettyLogHandlers;
   } else if (verbose) {
@@ -276,173 +488,324 @@ export const runWorkflow = (
     baseHandlers = quietHandlers;
   }
 
-  try {
-    // Clear any existing event handlers for the workflow events
-    // This prevents duplicate handlers if the same socket is reused
-    const eventTypes = Object.keys(
-      baseHandlers
-    ) as (keyof ServerEmittedEvents)[];
-    eventTypes.forEach((eventType) => {
-      try {
-        socket.removeAllListeners(eventType);
-      } catch (error) {
-        console.error(
-          `Failed to remove event listeners for ${eventType}:`,
-          error
-        );
-      }
+  // Don't start a run the caller has already given up on. Nothing has been
+  // sent to the server yet, so there is nothing to cancel there either.
+  if (signal?.aborted) {
+    const abortedRun = new WorkflowRun(
+      workflowId,
+      undefined,
+      logger,
+      redactor
+    );
+    abortedRun.abort(abortErrorFrom(signal));
+    return abortedRun;
+  }
+
+  // Ask the server to stop a run and wait for its acknowledgment
+  const cancelServerRun = (serverRun: WorkflowRun, reason?: string) =>
+    new Promise<void>((resolve, reject) => {
+      const request = { runId: serverRun.runId, flowId: workflowId, reason };
+      serverRun.record("out", "cancel_workflow", request);
+      socket.emit("cancel_workflow", request, (ack: any) => {
+        if (ack && ack.error) {
+          reject(
+            new WorkflowError(
+              `Server refused to cancel the workflow: ${ack.error}`
+            )
+          );
+        } else {
+          resolve();
+        }
+      });
     });
 
-    // Function to safely disconnect the socket
-    const safeDisconnect = () => {
-      try {
-        if (
-          socket &&
-          typeof socket.disconnect === "function" &&
-          socket.connected
-        ) {
-          console.log("Disconnecting socket after workflow completion");
-          socket.disconnect();
+  // With a retry policy, the run only passes on the events of its attempts,
+  // and cancelling it cancels the current attempt
+  let currentAttempt: WorkflowRun | undefined;
+  const cancelRun = (reason?: string): Promise<void> => {
+    if (!retry) {
+      return cancelServerRun(run, reason);
+    }
+    return currentAttempt && !currentAttempt.isSettled
+      ? currentAttempt.cancel({ reason })
+      : Promise.resolve();
+  };
+
+  const run = new WorkflowRun(
+    workflowId,
+    cancelRun,
+    logger,
+    redactor,
+    retry ? undefined : recorder
+  );
+  const idempotencyKey = options.idempotencyKey || run.runId;
+  run.idempotencyKey = idempotencyKey;
+
+  if (tracer) {
+    traceRun(run, tracer, redactor, options.traceParent);
+  }
+  if (metrics) {
+    collectRunMetrics(run, metrics);
+  }
+
+  // A draining close() waits for the run to end, including the delays
+  // between its attempts
+  if (connection instanceof PocketFlowConnection) {
+    connection.keepOpenUntil(run.result);
+  }
+
+  // Request a run on the server and route its events to it
+  const startServerRun = (serverRun: WorkflowRun, routedEvents: string[]) => {
+    // A run request that is dropped while the socket is disconnected fails
+    // the run
+    if (connection instanceof PocketFlowConnection) {
+      const removeDropListener = connection.onQueueDrop((drop) => {
+        if (drop.event === "run_workflow" && drop.runId === serverRun.runId) {
+          serverRun.fail(
+            new WorkflowDisconnectedError(
+              `Workflow run request was dropped while the socket was disconnected: ${drop.reason}`
+            )
+          );
         }
-      } catch (error) {
-        console.error("Error disconnecting socket:", error);
-      }
-    };
+      });
+      serverRun.result.then(removeDropListener, removeDropListener);
+    }
 
-    // Register handlers for all event types
-    eventTypes.forEach((eventType) => {
-      const handler = handlers[eventType] || baseHandlers[eventType];
+    RunRouter.for(socket).attach(serverRun, routedEvents);
 
-      if (handler) {
-        try {
-          // For events that should close the socket, add disconnect logic
-          if (
-            eventType === "run_complete" ||
-            eventType === "run_error" ||
-            eventType === "workflow_error" ||
-            eventType === "run_warning"
-          ) {
-            // Create event-specific wrapper with socket disconnection
-            socket.on(eventType, (data: any) => {
-              try {
-                // Call the original handler
-                handler(data);
-              } catch (error) {
-                console.error(`Error in ${eventType} handler:`, error);
-              } finally {
-                // Always disconnect after these events
-                safeDisconnect();
-              }
-            });
-          } else {
-            // Normal event handling without socket disconnection
-            socket.on(eventType, (data: any) => {
-              try {
-                handler(data);
-              } catch (error) {
-                console.error(`Error in ${eventType} handler:`, error);
-              }
-            });
+    // Fail the run if it stops making progress. The deadline of a run with
+    // a retry policy covers all its attempts, so it is enforced on the run.
+    if (watchdog) {
+      watchRun(
+        serverRun,
+        retry ? { ...watchdog, deadline: undefined } : watchdog
+      );
+    }
+
+    const requestRun = (token: string) => {
+      // Create payload for workflow run
+      const payload = {
+        runId: serverRun.runId,
+        flowId: workflowId,
+        token,
+        input: input || {},
+        idempotencyKey: serverRun.idempotencyKey,
+      };
+
+      // Log what we're about to do
+      serverRun.logger.debug("Emitting run_workflow event", {
+        hasInput: !!payload.input,
+        hasToken: !!payload.token,
+        socketId: socket.id,
+        socketConnected: socket.connected,
+      });
+
+      // Optional acknowledgment callback, helpful for debugging
+      const acknowledge = (ack: any) => {
+        if (ack) {
+          serverRun.logger.debug("Server acknowledged workflow run request", {
+            ack,
+          });
+        }
+      };
+
+      // Emit run_workflow event to start the workflow. A connection holds
+      // the request until the socket is connected.
+      serverRun.record("out", "run_workflow", payload);
+      connection.emit("run_workflow", payload, acknowledge);
+    };
+
+    if (typeof authToken === "string") {
+      requestRun(authToken);
+    } else {
+      // The run stays pending until the provider has returned a token
+      resolveCredentials(authToken, { reason: "run", forceRefresh: false })
+        .then((token) => {
+          if (serverRun.isSettled) {
+            return;
+          }
+          if (!token) {
+            throw new WorkflowError("Credentials provider returned no token");
           }
-        } catch (error) {
-          console.error(
-            `Failed to register handler for custom event '${eventType}':`,
-            error
+          redactor.addSecrets(token);
+          requestRun(token);
+        })
+        .catch((error) => {
+          serverRun.logger.error("Error emitting workflow event", { error });
+          serverRun.fail(
+            new WorkflowError(
+              "Failed to start workflow execution",
+              error instanceof Error ? error : undefined
+            )
           );
+        });
+    }
+  };
+
+  // Start an attempt of a run with a retry policy. Its failure is passed on
+  // to the run only when the policy gives up.
+  const startAttempt = (attempt: number, routedEvents: string[]) => {
+    const attemptRun: WorkflowRun = new WorkflowRun(
+      workflowId,
+      (reason) => cancelServerRun(attemptRun, reason),
+      logger,
+      redactor,
+      recorder,
+      attemptKey(run.runId, attempt)
+    );
+    attemptRun.idempotencyKey = attemptKey(idempotencyKey, attempt);
+    currentAttempt = attemptRun;
+    run.addAttempt(attemptRun);
+
+    let failure: { event: string; data: any } | undefined;
+    attemptRun.on("feedback_response", (response) =>
+      run.handleFeedbackResponse(response)
+    );
+    routedEvents.forEach((event) => {
+      attemptRun.on(event, (data: any) => {
+        if (event === "run_error" || event === "workflow_error") {
+          failure = { event, data };
+        } else {
+          run.handleEvent(event, data);
         }
-      }
+      });
     });
 
-    // Add event handlers for any custom handlers not in the default set
-    Object.entries(handlers).forEach(([customEventType, handler]) => {
-      const eventName = customEventType as string;
-
-      // Skip if the event was already handled in the previous loop
-      if (!eventTypes.includes(eventName as any) && handler) {
-        try {
-          // Remove any existing listener
-          socket.removeAllListeners(eventName);
-
-          // Check if this is an event that should trigger socket disconnection
-          if (
-            eventName === "run_complete" ||
-            eventName === "run_error" ||
-            eventName === "workflow_error" ||
-            eventName === "run_warning"
-          ) {
-            // Add event handler with socket disconnection
-            socket.on(eventName, (data: any) => {
-              try {
-                handler(data);
-              } catch (error) {
-                console.error(`Error in custom ${eventName} handler:`, error);
-              } finally {
-                // Always disconnect after these events
-                safeDisconnect();
-              }
-            });
-          } else {
-            // Normal event handling without socket disconnection
-            socket.on(eventName, (data: any) => {
-              try {
-                handler(data);
-              } catch (error) {
-                console.error(`Error in custom ${eventName} handler:`, error);
-              }
-            });
+    attemptRun.result.catch((error: Error) => {
+      // A cancelled run has already been settled by the cancellation
+      if (run.isSettled || run.status === "cancelling") {
+        return;
+      }
+
+      // A closed connection cannot carry another attempt
+      const connectionClosed =
+        connection instanceof PocketFlowConnection && connection.isClosing;
+      if (
+        !(error instanceof WorkflowCancelledError) &&
+        !connectionClosed &&
+        shouldRetry(retry!, error, attempt)
+      ) {
+        const delay = retryDelay(retry!, attempt);
+        run.logger.warn(
+          `Attempt ${attempt} of the workflow run failed, retrying in ${delay}ms`,
+          { error }
+        );
+        const timeoutId = setTimeout(() => {
+          try {
+            startAttempt(attempt + 1, routedEvents);
+          } catch (startError) {
+            run.fail(
+              new WorkflowError(
+                "Failed to start workflow execution",
+                startError instanceof Error ? startError : undefined
+              )
+            );
           }
-        } catch (error) {
-          console.error(
-            `Failed to register handler for custom event '${eventName}':`,
-            error
-          );
-        }
+        }, delay);
+        const cancelRetry = () => clearTimeout(timeoutId);
+        run.result.then(cancelRetry, cancelRetry);
+        return;
       }
+
+      // The run fails with the event of the last attempt, so its handlers
+      // see the failure once
+      if (failure) {
+        run.handleEvent(failure.event, failure.data);
+      }
+      run.fail(error);
     });
 
-    // Create payload for workflow run
-    const payload = {
-      flowId: workflowId,
-      token: authToken,
-      input: input || {},
-    };
+    startServerRun(attemptRun, routedEvents);
+  };
 
-    // Log what we're about to do
-    console.log("Emitting run_workflow event with payload:", {
-      flowId: payload.flowId,
-      hasInput: !!payload.input,
-      hasToken: !!payload.token,
-      socketId: socket.id,
-      socketConnected: socket.connected,
+  try {
+    const eventTypes = Object.keys(
+      baseHandlers
+    ) as (keyof ServerEmittedEvents)[];
+
+    // Register the handlers for all event types on the run
+    eventTypes.forEach((eventType) => {
+      const customHandler = handlers[eventType];
+      const baseHandler = baseHandlers[eventType];
+
+      if (customHandler || baseHandler) {
+        run.on(eventType, (data: any) => {
+          try {
+            if (customHandler) {
+              customHandler(data);
+            } else {
+              // The built-in handlers report events through the run's
+              // logger, so they only see redacted data
+              baseHandler!(redactor.redact(data), run.logger);
+            }
+          } catch (error) {
+            run.logger.error(`Error in ${eventType} handler`, { error });
+          }
+        });
+      }
     });
 
-    // Emit run_workflow event to start the workflow
-    socket.emit("run_workflow", payload, (ack: any) => {
-      // Optional acknowledgment callback, helpful for debugging
-      if (ack) {
-        console.log(
-          `Server acknowledged workflow run request: ${JSON.stringify(ack)}`
-        );
+    // Add event handlers for any custom handlers not in the default set
+    const customEventTypes = (
+      Object.keys(handlers) as (keyof ServerEmittedEvents)[]
+    ).filter((eventName) => !eventTypes.includes(eventName));
+    customEventTypes.forEach((eventName) => {
+      const handler = handlers[eventName];
+
+      if (handler) {
+        run.on(eventName, (data: any) => {
+          try {
+            handler(data);
+          } catch (error) {
+            run.logger.error(`Error in custom ${eventName} handler`, {
+              error,
+            });
+          }
+        });
       }
     });
 
-    // Log immediately after emission to check if socket is still connected
-    console.log(
-      `After emitting run_workflow - Socket still connected: ${socket.connected}, ID: ${socket.id}`
-    );
-  } catch (error: any) {
-    console.error(`Error emitting workflow event: ${error.message}`);
-    console.error(`Error stack: ${error.stack}`);
-    if (handlers.run_error) {
-      (handlers.run_error as any)({
-        message: error.message,
-        stack: error.stack,
-      });
+    // Stop the run when the caller aborts
+    const removeAbortListener = onAbort(signal, () => {
+      run.abort(abortErrorFrom(signal!));
+    });
+    run.result.then(removeAbortListener, removeAbortListener);
+
+    // Route the events received on the socket to this run. Logs and
+    // feedback requests are answered by connectSocket but still observable
+    // through run.on() and run.events()
+    const connectionEventTypes: (keyof ConnectionRunEvents)[] = [
+      "workflow_log",
+      "feedback_request",
+    ];
+    const routedEvents = [
+      ...eventTypes,
+      ...customEventTypes,
+      ...connectionEventTypes,
+    ];
+
+    if (retry) {
+      if (watchdog?.deadline !== undefined) {
+        watchRun(run, { deadline: watchdog.deadline });
+      }
+      startAttempt(1, routedEvents);
     } else {
-      throw new WorkflowError(
+      startServerRun(run, routedEvents);
+    }
+  } catch (error: any) {
+    // The failure is reported through the run like any other, so callers
+    // only have to watch `result`
+    run.logger.error("Error emitting workflow event", { error });
+    run.fail(
+      new WorkflowError(
         "Failed to start workflow execution",
         error instanceof Error ? error : undefined
-      );
+      )
+    );
+    if (handlers.run_error) {
+      handlers.run_error({ message: error.message, stack: error.stack });
     }
   }
+
+  return run;
 };
@@ -0,0 +1,164 @@
+/**
+ * Fixtures that script the workflows of the mock PocketFlow server
+ */
+
+import {
+  WorkflowDetail,
+  WorkflowNode,
+  WorkflowSummary,
+} from "../http/client";
+import { ConnectionRunEvents, ServerEmittedEvents } from "../socket/workflow";
+
+/**
+ * Every event the server sends during a run
+ */
+type MockRunEvents = ServerEmittedEvents & ConnectionRunEvents;
+
+/**
+ * One step of a scripted run
+ * - `{ event, data }`: the server sends the event, with the run's `runId`
+ *   and the next `seq` added to `data`. After a `feedback_request`, the
+ *   server waits for the matching `feedback_response`.
+ * - `{ delay }`: the server waits for the given time, in milliseconds
+ */
+export type MockRunStep =
+  | {
+      [K in keyof MockRunEvents]: {
+        event: K;
+        data?: Partial<Omit<MockRunEvents[K], "runId" | "seq">>;
+      };
+    }[keyof MockRunEvents]
+  | { delay: number };
+
+/**
+ * Steps of a scripted run, or a function that works them out from the
+ * run's input
+ */
+export type MockRunScript = MockRunStep[] | ((input: any) => MockRunStep[]);
+
+/**
+ * A workflow known to the mock server
+ */
+export interface MockWorkflow {
+  id: string;
+
+  /**
+   * @default the workflow ID
+   */
+  name?: string;
+
+  /**
+   * @default ""
+   */
+  prompt?: string;
+
+  /**
+   * YAML content returned by `/workflows/:id`
+   */
+  yaml?: string;
+
+  nodes?: WorkflowNode[];
+
+  /**
+   * When the workflow was created, as an ISO 8601 timestamp
+   * @default "2024-01-01T00:00:00.000Z"
+   */
+  created_at?: string;
+
+  /**
+   * When the workflow was last updated, as an ISO 8601 timestamp
+   * @default the creation time
+   */
+  updated_at?: string;
+
+  /**
+   * What the server sends when the workflow is run. A run whose script
+   * does not end it completes with the last state it streamed.
+   * @default a run that starts and completes right away
+   */
+  script?: MockRunScript;
+}
+
+/**
+ * Events that end a run
+ */
+export const terminalEvents = [
+  "run_complete",
+  "run_warning",
+  "run_error",
+  "workflow_error",
+  "run_cancelled",
+];
+
+const DEFAULT_CREATED_AT = "2024-01-01T00:00:00.000Z";
+
+/**
+ * Build the list entry of a workflow
+ * @param workflow The workflow
+ * @param executions How often the workflow was run, and when it last was
+ * @returns The entry returned by `/workflows`
+ */
+export const workflowSummary = (
+  workflow: MockWorkflow,
+  executions: { count: number; lastAt: string | null } = {
+    count: 0,
+    lastAt: null,
+  }
+): WorkflowSummary => {
+  const createdAt = workflow.created_at || DEFAULT_CREATED_AT;
+  return {
+    id: workflow.id,
+    name: workflow.name || workflow.id,
+    created_at: createdAt,
+    updated_at: workflow.updated_at || createdAt,
+    prompt: workflow.prompt || "",
+    execution_count: executions.count,
+    last_executed_at: executions.lastAt,
+  };
+};
+
+/**
+ * Build the details of a workflow
+ * @param workflow The workflow
+ * @param executions How often the workflow was run, and when it last was
+ * @returns The details returned by `/workflows/:id`
+ */
+export const workflowDetail = (
+  workflow: MockWorkflow,
+  executions?: { count: number; lastAt: string | null }
+): WorkflowDetail => ({
+  ...workflowSummary(workflow, executions),
+  yaml_path: `workflows/${workflow.id}.yaml`,
+  ...(workflow.yaml !== undefined ? { yaml: workflow.yaml } : {}),
+  nodes: workflow.nodes || [],
+});
+
+/**
+ * Work out the steps of a run
+ * @param workflow The workflow that is run
+ * @param input The input of the run
+ * @returns The steps, ending with `run_complete` if the script does not
+ * end the run itself
+ */
+export const scriptSteps = (
+  workflow: MockWorkflow,
+  input: any
+): MockRunStep[] => {
+  const { script = [{ event: "run_start", data: { message: "Started" } }] } =
+    workflow;
+  const steps = typeof script === "function" ? script(input) : [...script];
+
+  if (
+    !steps.some((step) => "event" in step && terminalEvents.includes(step.event))
+  ) {
+    const lastState = steps
+      .filter((step) => "event" in step && step.event === "stream_output")
+      .map((step: any) => step.data?.state)
+      .pop();
+    steps.push({
+      event: "run_complete",
+      data: { message: "Completed", state: lastState || {}, warning: false },
+    });
+  }
+  return steps;
+};
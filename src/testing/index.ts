@@ -0,0 +1,31 @@
+/**
+ * Testing entry point: a local mock PocketFlow server for integration tests
+ * of code built on the SDK. Needs the `socket.io` package.
+ */
+
+// Export the mock server
+import {
+  MockPocketFlowServer,
+  startMockServer,
+  MockServerOptions,
+  MockRunRecord,
+} from "./server";
+
+// Export workflow fixtures
+import { MockWorkflow, MockRunScript, MockRunStep } from "./fixtures";
+
+// Export everything
+export {
+  // Mock server
+  MockPocketFlowServer,
+  startMockServer,
+
+  // Mock server Types
+  MockServerOptions,
+  MockRunRecord,
+
+  // Fixture Types
+  MockWorkflow,
+  MockRunScript,
+  MockRunStep,
+};
@@ -0,0 +1,453 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Server, Socket } from "socket.io";
+import { FeedbackResponse } from "../feedback";
+import { WorkflowListResponse } from "../http/client";
+import { getDefaultLogger, Logger } from "../logger";
+import { ResumeRunAck, ResumeRunRequest } from "../socket/resume";
+import {
+  MockRunStep,
+  MockWorkflow,
+  scriptSteps,
+  terminalEvents,
+  workflowDetail,
+  workflowSummary,
+} from "./fixtures";
+
+/**
+ * Options for the mock PocketFlow server
+ */
+export interface MockServerOptions {
+  /**
+   * Workflows the server knows, with the scripts of their runs
+   */
+  workflows?: MockWorkflow[];
+
+  /**
+   * API key the HTTP API requires in the `X-API-Key` header. Any key is
+   * accepted when not set.
+   */
+  apiKey?: string;
+
+  /**
+   * Token the socket connections and run requests must carry. Any token is
+   * accepted when not set.
+   */
+  token?: string;
+
+  /**
+   * Port to listen on, on the loopback interface
+   * @default 0, a free port
+   */
+  port?: number;
+
+  /**
+   * Logger for server diagnostics (default: the SDK default logger)
+   */
+  logger?: Logger;
+}
+
+/**
+ * What the mock server saw of a run, for assertions in tests
+ */
+export interface MockRunRecord {
+  runId: string;
+  workflowId: string;
+  input: any;
+
+  /**
+   * Token sent with the run request
+   */
+  token?: string;
+
+  status: "running" | "completed" | "failed" | "cancelled";
+
+  /**
+   * Events the server sent for the run, in order
+   */
+  events: { event: string; data: any }[];
+
+  /**
+   * Feedback responses the client sent for the run
+   */
+  feedbackResponses: FeedbackResponse[];
+}
+
+interface ServerRun {
+  record: MockRunRecord;
+  socket: Socket;
+  seq: number;
+  stopped: boolean;
+  timeoutId?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Continues the script once the awaited delay or feedback is over
+   */
+  resume?: () => void;
+
+  /**
+   * Feedback request the script waits for an answer to
+   */
+  awaitedFeedback?: { requestId?: string };
+}
+
+const statusAfter: Record<string, MockRunRecord["status"]> = {
+  run_complete: "completed",
+  run_warning: "completed",
+  run_error: "failed",
+  workflow_error: "failed",
+  run_cancelled: "cancelled",
+};
+
+const errorBody = (code: string, message: string) => ({
+  error: { code, message },
+});
+
+/**
+ * Local PocketFlow server for tests: a real HTTP and socket.io server that
+ * serves `/workflows` and `/workflows/:id` and runs workflows by playing
+ * the scripts of their fixtures.
+ *
+ * Every event sent for a run carries the run's `runId` and a consecutive
+ * `seq`, so the SDK can resume runs after `dropConnections()`.
+ */
+export class MockPocketFlowServer {
+  private readonly httpServer: http.Server;
+  private readonly io: Server;
+  private readonly logger: Logger;
+  private readonly workflows = new Map<string, MockWorkflow>();
+  private readonly executions = new Map<
+    string,
+    { count: number; lastAt: string | null }
+  >();
+  private readonly serverRuns = new Map<string, ServerRun>();
+  private port?: number;
+
+  /**
+   * @param options Options for the server
+   */
+  constructor(private readonly options: MockServerOptions = {}) {
+    this.logger = (options.logger || getDefaultLogger()).child({
+      component: "mock-server",
+    });
+    (options.workflows || []).forEach((workflow) =>
+      this.addWorkflow(workflow)
+    );
+
+    this.httpServer = http.createServer((request, response) =>
+      this.handleRequest(request, response)
+    );
+    this.io = new Server(this.httpServer);
+    this.io.use((socket, next) => {
+      const { token } = options;
+      if (token !== undefined && socket.handshake.auth?.token !== token) {
+        next(new Error("Unauthorized"));
+        return;
+      }
+      next();
+    });
+    this.io.on("connection", (socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Base URL of the server, for both the HTTP client and `connectSocket`
+   * @throws {Error} If the server has not been started
+   */
+  get url(): string {
+    if (this.port === undefined) {
+      throw new Error("The mock server has not been started");
+    }
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  /**
+   * Every run requested so far, in the order they were requested
+   */
+  get runs(): MockRunRecord[] {
+    return Array.from(this.serverRuns.values()).map(({ record }) => record);
+  }
+
+  /**
+   * Add a workflow, or replace the one with the same ID
+   * @param workflow The workflow and the script of its runs
+   */
+  addWorkflow(workflow: MockWorkflow): void {
+    this.workflows.set(workflow.id, workflow);
+  }
+
+  /**
+   * Start listening
+   * @returns A Promise that resolves once the server accepts connections
+   */
+  start(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.httpServer.once("error", reject);
+      this.httpServer.listen(this.options.port ?? 0, "127.0.0.1", () => {
+        this.httpServer.off("error", reject);
+        this.port = (this.httpServer.address() as AddressInfo).port;
+        this.logger.debug(`Mock server listening on ${this.url}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Drop every socket connection as if the network failed, so clients
+   * reconnect and resume their runs
+   */
+  dropConnections(): void {
+    this.io.sockets.sockets.forEach((socket) => socket.conn.close());
+  }
+
+  /**
+   * Stop the runs in progress and close the server
+   * @returns A Promise that resolves once the server is closed
+   */
+  close(): Promise<void> {
+    this.serverRuns.forEach((run) => this.stop(run));
+    return new Promise<void>((resolve, reject) => {
+      this.io.close((error) => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  private handleRequest(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ) {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    const { apiKey } = this.options;
+    if (apiKey !== undefined && request.headers["x-api-key"] !== apiKey) {
+      send(401, errorBody("unauthorized", "Invalid API key"));
+      return;
+    }
+
+    const url = new URL(request.url || "/", "http://127.0.0.1");
+    if (request.method !== "GET") {
+      send(405, errorBody("method_not_allowed", "Method not allowed"));
+      return;
+    }
+
+    if (url.pathname === "/workflows") {
+      send(200, this.listWorkflows(url.searchParams));
+      return;
+    }
+
+    const match = /^\/workflows\/([^/]+)$/.exec(url.pathname);
+    const workflow = match && this.workflows.get(decodeURIComponent(match[1]));
+    if (workflow) {
+      send(200, workflowDetail(workflow, this.executions.get(workflow.id)));
+      return;
+    }
+
+    send(404, errorBody("not_found", `Not found: ${url.pathname}`));
+  }
+
+  private listWorkflows(params: URLSearchParams): WorkflowListResponse {
+    const limit = Math.min(Number(params.get("limit") || 20), 100);
+    const offset = Number(params.get("offset") || 0);
+    const sort = (["updated_at", "name"] as const).find(
+      (field) => field === params.get("sort")
+    ) || "created_at";
+    const order = params.get("order") === "asc" ? 1 : -1;
+    const search = (params.get("search") || "").toLowerCase();
+
+    const workflows = Array.from(this.workflows.values())
+      .map((workflow) =>
+        workflowSummary(workflow, this.executions.get(workflow.id))
+      )
+      .filter(
+        ({ name, prompt }) =>
+          !search ||
+          name.toLowerCase().includes(search) ||
+          prompt.toLowerCase().includes(search)
+      )
+      .sort((a, b) => order * a[sort].localeCompare(b[sort]));
+
+    return {
+      workflows: workflows.slice(offset, offset + limit),
+      meta: { total: workflows.length, limit, offset },
+    };
+  }
+
+  private handleConnection(socket: Socket) {
+    this.logger.debug("Client connected", { socketId: socket.id });
+
+    socket.on("run_workflow", (payload: any, ack?: (data: any) => void) =>
+      this.startRun(socket, payload || {}, ack)
+    );
+
+    socket.on("feedback_response", (response: FeedbackResponse) => {
+      const run = Array.from(this.serverRuns.values()).find(
+        (candidate) =>
+          candidate.awaitedFeedback !== undefined &&
+          (response.runId !== undefined
+            ? candidate.record.runId === response.runId
+            : candidate.socket === socket)
+      );
+      if (!run) {
+        this.logger.warn("Feedback response for no pending request", {
+          runId: response.runId,
+        });
+        return;
+      }
+
+      run.record.feedbackResponses.push(response);
+      const { requestId } = run.awaitedFeedback!;
+      if (requestId === undefined || response.requestId === requestId) {
+        run.awaitedFeedback = undefined;
+        run.resume?.();
+      }
+    });
+
+    socket.on(
+      "cancel_workflow",
+      (
+        request: { runId?: string; reason?: string },
+        ack?: (data: any) => void
+      ) => {
+        const run = request && this.serverRuns.get(String(request.runId));
+        if (!run || run.record.status !== "running") {
+          ack?.({ error: "Unknown run" });
+          return;
+        }
+        ack?.({});
+        this.stop(run);
+        this.send(run, "run_cancelled", {
+          message: "Cancelled",
+          reason: request.reason,
+        });
+      }
+    );
+
+    socket.on(
+      "resume_run",
+      (request: ResumeRunRequest, ack?: (data: ResumeRunAck) => void) => {
+        const run = request && this.serverRuns.get(request.runId);
+        if (!run) {
+          ack?.({ error: "Unknown run" });
+          return;
+        }
+        ack?.({});
+
+        // Later events go to the socket the run was resumed on
+        run.socket = socket;
+        const lastSeq = request.lastSeq ?? 0;
+        run.record.events
+          .filter(({ data }) => data.seq > lastSeq)
+          .forEach(({ event, data }) => socket.emit(event, data));
+      }
+    );
+  }
+
+  private startRun(socket: Socket, payload: any, ack?: (data: any) => void) {
+    const { runId, flowId, token, input } = payload;
+    const run: ServerRun = {
+      record: {
+        runId,
+        workflowId: flowId,
+        input,
+        token,
+        status: "running",
+        events: [],
+        feedbackResponses: [],
+      },
+      socket,
+      seq: 0,
+      stopped: false,
+    };
+    this.serverRuns.set(runId, run);
+
+    const workflow = this.workflows.get(flowId);
+    if (this.options.token !== undefined && token !== this.options.token) {
+      ack?.({ error: "Invalid token" });
+      this.send(run, "run_error", { message: "Invalid token" });
+      return;
+    }
+    if (!workflow) {
+      ack?.({ error: "Workflow not found" });
+      this.send(run, "workflow_error", {
+        message: `Workflow not found: ${flowId}`,
+      });
+      return;
+    }
+
+    ack?.({ runId });
+    this.executions.set(flowId, {
+      count: (this.executions.get(flowId)?.count || 0) + 1,
+      lastAt: new Date().toISOString(),
+    });
+    this.send(run, "workflow_received", { message: "Workflow received" });
+
+    this.play(run, scriptSteps(workflow, input)).catch((error) => {
+      this.logger.error(`Failed to play the script of run ${runId}`, {
+        error,
+      });
+    });
+  }
+
+  private async play(run: ServerRun, steps: MockRunStep[]) {
+    for (const step of steps) {
+      if (run.stopped) {
+        return;
+      }
+
+      if ("delay" in step) {
+        await new Promise<void>((resolve) => {
+          run.resume = resolve;
+          run.timeoutId = setTimeout(resolve, step.delay);
+        });
+        continue;
+      }
+
+      const data: Record<string, any> = { ...(step.data || {}) };
+      this.send(run, step.event, data);
+      if (run.record.status !== "running") {
+        return;
+      }
+
+      // The script goes on once the client answers
+      if (step.event === "feedback_request") {
+        await new Promise<void>((resolve) => {
+          run.awaitedFeedback = { requestId: data.requestId };
+          run.resume = resolve;
+        });
+      }
+    }
+  }
+
+  private send(run: ServerRun, event: string, data: Record<string, any>) {
+    const payload = { ...data, runId: run.record.runId, seq: ++run.seq };
+    run.record.events.push({ event, data: payload });
+    run.socket.emit(event, payload);
+
+    if (terminalEvents.includes(event)) {
+      run.record.status = statusAfter[event];
+      this.stop(run);
+    }
+  }
+
+  private stop(run: ServerRun) {
+    run.stopped = true;
+    clearTimeout(run.timeoutId);
+    run.awaitedFeedback = undefined;
+    run.resume?.();
+  }
+}
+
+/**
+ * Start a mock PocketFlow server
+ * @param options Options for the server
+ * @returns A Promise that resolves with the listening server
+ */
+export const startMockServer = async (
+  options: MockServerOptions = {}
+): Promise<MockPocketFlowServer> => {
+  const server = new MockPocketFlowServer(options);
+  await server.start();
+  return server;
+};
@@ -0,0 +1,338 @@
+/**
+ * Trace spans for workflow runs and API requests, handed to a pluggable
+ * exporter once they end
+ */
+
+import { getDefaultLogger, Logger } from "./logger";
+
+/**
+ * Attributes of a span or span event. Undefined values are left out.
+ */
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * Outcome of the work a span covers
+ * - `unset`: the work ended without a verdict, for example when cancelled
+ * - `ok`: the work succeeded
+ * - `error`: the work failed
+ */
+export type SpanStatus = "unset" | "ok" | "error";
+
+/**
+ * Something that happened at a point in time during a span
+ */
+export interface SpanEvent {
+  name: string;
+
+  /**
+   * When the event happened, in milliseconds since the epoch
+   */
+  time: number;
+
+  attributes: SpanAttributes;
+}
+
+/**
+ * A finished span, as handed to exporters
+ */
+export interface SpanData {
+  /**
+   * ID shared by every span of a trace, as 32 hex digits
+   */
+  traceId: string;
+
+  /**
+   * ID of the span, as 16 hex digits
+   */
+  spanId: string;
+
+  /**
+   * ID of the span this span is part of, if any
+   */
+  parentSpanId?: string;
+
+  name: string;
+
+  /**
+   * When the span started, in milliseconds since the epoch
+   */
+  startTime: number;
+
+  /**
+   * When the span ended, in milliseconds since the epoch
+   */
+  endTime: number;
+
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: SpanStatus;
+
+  /**
+   * Why the work failed, for spans with the `error` status
+   */
+  statusMessage?: string;
+}
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  /**
+   * Export a finished span. Errors thrown here are logged and never affect
+   * the traced work.
+   * @param span The span
+   */
+  export(span: SpanData): void;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /**
+   * Span the new span is part of. Without it, the span starts a new trace.
+   */
+  parent?: Span;
+
+  attributes?: SpanAttributes;
+
+  /**
+   * When the span started, in milliseconds since the epoch
+   * @default now
+   */
+  startTime?: number;
+}
+
+/**
+ * Random ID of the given number of hex digits
+ */
+const randomHex = (digits: number): string =>
+  Array.from({ length: digits }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+/**
+ * Copy attributes without the undefined values
+ */
+const definedAttributes = (attributes: SpanAttributes = {}): SpanAttributes =>
+  Object.keys(attributes).reduce<SpanAttributes>((defined, key) => {
+    if (attributes[key] !== undefined) {
+      defined[key] = attributes[key];
+    }
+    return defined;
+  }, {});
+
+/**
+ * A span in progress, started with `Tracer.startSpan`. It is exported when
+ * it ends; changes made afterwards are ignored.
+ */
+export class Span {
+  /**
+   * ID shared by every span of the trace
+   */
+  public readonly traceId: string;
+
+  public readonly spanId: string = randomHex(16);
+  public readonly parentSpanId?: string;
+  public readonly startTime: number;
+
+  private attributes: SpanAttributes;
+  private events: SpanEvent[] = [];
+  private status: SpanStatus = "unset";
+  private statusMessage?: string;
+  private ended = false;
+
+  /**
+   * @param tracer The tracer that exports the span
+   * @param name The name of the span
+   * @param options Parent, attributes and start time of the span
+   * @internal
+   */
+  constructor(
+    private readonly tracer: Tracer,
+    public readonly name: string,
+    options: SpanOptions = {}
+  ) {
+    this.traceId = options.parent ? options.parent.traceId : randomHex(32);
+    this.parentSpanId = options.parent?.spanId;
+    this.startTime = options.startTime ?? Date.now();
+    this.attributes = definedAttributes(options.attributes);
+  }
+
+  /**
+   * Whether the span has ended
+   */
+  get isEnded(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * Set attributes of the span, replacing the ones with the same keys
+   * @param attributes The attributes
+   * @returns The span
+   */
+  setAttributes(attributes: SpanAttributes): this {
+    if (!this.ended) {
+      Object.assign(this.attributes, definedAttributes(attributes));
+    }
+    return this;
+  }
+
+  /**
+   * Record something that happened during the span
+   * @param name The name of the event
+   * @param attributes The attributes of the event
+   * @param time When the event happened, in milliseconds since the epoch
+   * @returns The span
+   */
+  addEvent(
+    name: string,
+    attributes?: SpanAttributes,
+    time: number = Date.now()
+  ): this {
+    if (!this.ended) {
+      this.events.push({
+        name,
+        time,
+        attributes: definedAttributes(attributes),
+      });
+    }
+    return this;
+  }
+
+  /**
+   * Set the outcome of the span
+   * @param status The outcome
+   * @param message Why the work failed, for the `error` status
+   * @returns The span
+   */
+  setStatus(status: SpanStatus, message?: string): this {
+    if (!this.ended) {
+      this.status = status;
+      this.statusMessage = status === "error" ? message : undefined;
+    }
+    return this;
+  }
+
+  /**
+   * End the span and export it. Later calls do nothing.
+   * @param endTime When the span ended, in milliseconds since the epoch
+   */
+  end(endTime: number = Date.now()): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    this.tracer.export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId !== undefined
+        ? { parentSpanId: this.parentSpanId }
+        : {}),
+      name: this.name,
+      startTime: this.startTime,
+      endTime,
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+      ...(this.statusMessage !== undefined
+        ? { statusMessage: this.statusMessage }
+        : {}),
+    });
+  }
+}
+
+/**
+ * Starts spans and hands them to an exporter once they end
+ */
+export class Tracer {
+  /**
+   * @param exporter The destination of finished spans
+   * @param logger Logger that export failures are reported to
+   */
+  constructor(
+    private readonly exporter: SpanExporter,
+    private readonly logger: Logger = getDefaultLogger()
+  ) {}
+
+  /**
+   * Start a span
+   * @param name The name of the span
+   * @param options Parent, attributes and start time of the span
+   * @returns The span, which must be ended with `end()`
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new Span(this, name, options);
+  }
+
+  /**
+   * Hand a finished span to the exporter
+   * @param span The span
+   * @internal
+   */
+  export(span: SpanData): void {
+    try {
+      this.exporter.export(span);
+    } catch (error) {
+      this.logger.error(`Failed to export span '${span.name}'`, { error });
+    }
+  }
+}
+
+/**
+ * Create a tracer
+ * @param exporter The destination of finished spans
+ * @param options Logger that export failures are reported to
+ * @returns The tracer
+ */
+export const createTracer = (
+  exporter: SpanExporter,
+  options: { logger?: Logger } = {}
+): Tracer => new Tracer(exporter, options.logger);
+
+/**
+ * Exporter that keeps finished spans in memory, for tests
+ */
+export interface InMemorySpanExporter extends SpanExporter {
+  /**
+   * The finished spans, in the order they ended
+   */
+  readonly spans: SpanData[];
+
+  /**
+   * Forget the spans exported so far
+   */
+  reset(): void;
+}
+
+/**
+ * Create an exporter that keeps finished spans in memory
+ * @returns The exporter
+ */
+export const createInMemorySpanExporter = (): InMemorySpanExporter => {
+  const spans: SpanData[] = [];
+  return {
+    spans,
+    export: (span) => {
+      spans.push(span);
+    },
+    reset: () => {
+      spans.length = 0;
+    },
+  };
+};
+
+/**
+ * Create an exporter that writes every finished span as one line of JSON
+ * @param write Function that writes a line, including its trailing newline
+ * @returns The exporter
+ */
+export const createJsonlSpanExporter = (
+  write: (line: string) => void
+): SpanExporter => ({
+  export: (span) => write(`${JSON.stringify(span)}\n`),
+});
@@ -1,4 +1,5 @@
 import { Socket } from "socket.io-client";
+import { FeedbackRequest } from "../feedback";
 
 /**
  * Handler function for workflow log events
@@ -6,9 +7,24 @@ import { Socket } from "socket.io-client";
 export type WorkflowLogHandler = (data: any) => void;
 
 /**
- * Handler function for feedback request events
+ * Context passed to a feedback request handler
  */
-export type FeedbackRequestHandler = (data: any) => any;
+export interface FeedbackHandlerContext {
+  /**
+   * Aborted when the answer is no longer needed, for example because the
+   * feedback policy timed out and answered on the handler's behalf
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Handler function for feedback request events. Returns the answer, whose
+ * type depends on the request's `kind`, or a Promise for it.
+ */
+export type FeedbackRequestHandler = (
+  request: FeedbackRequest,
+  context?: FeedbackHandlerContext
+) => unknown | Promise<unknown>;
 
 /**
  * Handler function for generation update events
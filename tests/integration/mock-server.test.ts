@@ -0,0 +1,204 @@
+import { connectSocket, SocketConnectionError } from "../../src/socket/connect";
+import { PocketFlowConnection } from "../../src/socket/connection";
+import { runWorkflow } from "../../src/socket/workflow";
+import {
+  WorkflowCancelledError,
+  WorkflowRunError,
+} from "../../src/socket/errors";
+import {
+  AuthenticationError,
+  getWorkflowDetail,
+  listWorkflows,
+  NotFoundError,
+} from "../../src/http/client";
+import { createSilentLogger } from "../../src/logger";
+import {
+  MockPocketFlowServer,
+  MockWorkflow,
+  startMockServer,
+} from "../../src/testing";
+
+describe("Mock PocketFlow server", () => {
+  const apiKey = "test-api-key";
+  const token = "test-token";
+  const logger = createSilentLogger();
+
+  const summarize: MockWorkflow = {
+    id: "summarize",
+    name: "Summarize",
+    prompt: "Summarize a video",
+    nodes: [{ id: "fetch", name: "Fetch", type: "http" }],
+    script: [
+      { event: "run_start", data: { message: "Started" } },
+      {
+        event: "stream_output",
+        data: { node: "fetch", state: { transcript: "..." } },
+      },
+      {
+        event: "feedback_request",
+        data: { requestId: "title", kind: "text", prompt: "Title?" },
+      },
+      {
+        event: "stream_output",
+        data: { node: "summarize", state: { summary: "Short" } },
+      },
+    ],
+  };
+  const slow: MockWorkflow = {
+    id: "slow",
+    name: "Slow",
+    script: [
+      { event: "run_start", data: { message: "Started" } },
+      { delay: 300 },
+      { event: "stream_output", data: { node: "first", state: { step: 1 } } },
+      { delay: 300 },
+      { event: "stream_output", data: { node: "second", state: { step: 2 } } },
+    ],
+  };
+
+  let server: MockPocketFlowServer;
+  let connection: PocketFlowConnection | undefined;
+
+  beforeEach(async () => {
+    server = await startMockServer({
+      workflows: [summarize, slow],
+      apiKey,
+      token,
+      logger,
+    });
+  });
+
+  afterEach(async () => {
+    connection?.disconnect();
+    connection = undefined;
+    await server.close();
+  });
+
+  const connect = (options = {}) =>
+    connectSocket(server.url, {
+      token,
+      logger,
+      handleConnection: () => {},
+      handleDisconnection: () => {},
+      handleStreamOutput: () => {},
+      handleFeedback: async () => "My title",
+      ...options,
+    });
+
+  describe("HTTP API", () => {
+    const auth = () => ({ apiKey, baseUrl: server.url, logger });
+
+    it("should list the workflows", async () => {
+      const { workflows, meta } = await listWorkflows(auth(), {
+        sort: "name",
+        order: "asc",
+      });
+
+      expect(workflows.map(({ id }) => id)).toEqual(["slow", "summarize"]);
+      expect(meta).toEqual({ total: 2, limit: 20, offset: 0 });
+    });
+
+    it("should search and paginate the workflows", async () => {
+      const { workflows, meta } = await listWorkflows(auth(), {
+        search: "video",
+        limit: 1,
+      });
+
+      expect(workflows.map(({ id }) => id)).toEqual(["summarize"]);
+      expect(meta.total).toBe(1);
+    });
+
+    it("should get the details of a workflow", async () => {
+      const detail = await getWorkflowDetail(auth(), "summarize");
+
+      expect(detail).toMatchObject({
+        id: "summarize",
+        name: "Summarize",
+        execution_count: 0,
+        nodes: [{ id: "fetch", name: "Fetch", type: "http" }],
+      });
+    });
+
+    it("should answer 404 for unknown workflows", async () => {
+      await expect(getWorkflowDetail(auth(), "missing")).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+    });
+
+    it("should reject a wrong API key", async () => {
+      await expect(
+        listWorkflows({ ...auth(), apiKey: "wrong" })
+      ).rejects.toBeInstanceOf(AuthenticationError);
+    });
+  });
+
+  describe("socket", () => {
+    it("should run a scripted workflow end to end", async () => {
+      const outputs: any[] = [];
+      connection = await connect({
+        handleStreamOutput: (data: any) => outputs.push(data),
+      });
+
+      const run = runWorkflow(connection, "summarize", token, { url: "v" });
+      const result = await run.result;
+
+      expect(result.state).toEqual({ summary: "Short" });
+      expect(outputs.map(({ node }) => node)).toEqual(["fetch", "summarize"]);
+      expect(server.runs).toEqual([
+        expect.objectContaining({
+          runId: run.runId,
+          workflowId: "summarize",
+          input: { url: "v" },
+          status: "completed",
+          feedbackResponses: [
+            expect.objectContaining({ requestId: "title", input: "My title" }),
+          ],
+        }),
+      ]);
+      await expect(
+        getWorkflowDetail({ apiKey, baseUrl: server.url, logger }, "summarize")
+      ).resolves.toMatchObject({ execution_count: 1 });
+    });
+
+    it("should refuse connections with a wrong token", async () => {
+      await expect(connect({ token: "wrong" })).rejects.toBeInstanceOf(
+        SocketConnectionError
+      );
+    });
+
+    it("should fail runs of unknown workflows", async () => {
+      connection = await connect();
+
+      const run = runWorkflow(connection, "missing", token, {});
+
+      await expect(run.result).rejects.toBeInstanceOf(WorkflowRunError);
+      await expect(run.result).rejects.toThrow("Workflow not found: missing");
+    });
+
+    it("should cancel a run", async () => {
+      connection = await connect();
+      const run = runWorkflow(connection, "slow", token, {});
+
+      await run.cancel({ reason: "Not needed" });
+
+      await expect(run.result).rejects.toBeInstanceOf(WorkflowCancelledError);
+      expect(server.runs[0].status).toBe("cancelled");
+    });
+
+    it("should resume a run after the connection drops", async () => {
+      const nodes: string[] = [];
+      connection = await connect({
+        handleStreamOutput: (data: any) => nodes.push(data.node),
+      });
+      const run = runWorkflow(connection, "slow", token, {});
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      server.dropConnections();
+
+      await expect(run.result).resolves.toMatchObject({
+        state: { step: 2 },
+      });
+      expect(nodes).toEqual(["first", "second"]);
+    }, 15000);
+  });
+});
@@ -7,6 +7,13 @@ export class MockSocket {
   public connected = true;
   public eventHandlers: Record<string, Array<(...args: any[]) => void>> = {};
 
+  // Manager of the socket, used for reconnection events
+  public io = {
+    on: jest.fn(),
+    off: jest.fn(),
+    opts: { transports: ["polling", "websocket"] },
+  };
+
   // Event handling
   on = jest
     .fn()
@@ -28,6 +35,19 @@ export class MockSocket {
       return this;
     });
 
+  off = jest
+    .fn()
+    .mockImplementation((event: string, handler?: (...args: any[]) => void) => {
+      if (!handler) {
+        delete this.eventHandlers[event];
+      } else if (this.eventHandlers[event]) {
+        this.eventHandlers[event] = this.eventHandlers[event].filter(
+          (registered) => registered !== handler
+        );
+      }
+      return this;
+    });
+
   emit = jest.fn().mockImplementation((event: string, ...args: any[]) => {
     // Call event handlers
     if (this.eventHandlers[event]) {
@@ -64,9 +84,12 @@ export class MockSocket {
     return this;
   });
 
+  // Like socket.io, only a connected socket emits the disconnect event
   disconnect = jest.fn().mockImplementation(() => {
-    this.connected = false;
-    this.emit("disconnect", "io client disconnect");
+    if (this.connected) {
+      this.connected = false;
+      this.emit("disconnect", "io client disconnect");
+    }
     return this;
   });
 
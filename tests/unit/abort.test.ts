@@ -0,0 +1,85 @@
+import {
+  AbortError,
+  abortErrorFrom,
+  onAbort,
+  throwIfAborted,
+} from "../../src/abort";
+
+describe("Abort helpers", () => {
+  describe("AbortError", () => {
+    it("should maintain instanceof checks", () => {
+      const error = new AbortError();
+      expect(error instanceof Error).toBe(true);
+      expect(error instanceof AbortError).toBe(true);
+      expect(error.name).toBe("AbortError");
+      expect(error.message).toBe("The operation was aborted");
+    });
+  });
+
+  describe("abortErrorFrom", () => {
+    it("should keep an Error reason as the cause", () => {
+      const controller = new AbortController();
+      const reason = new Error("shutting down");
+      controller.abort(reason);
+
+      const error = abortErrorFrom(controller.signal);
+      expect(error).toBeInstanceOf(AbortError);
+      expect(error.cause).toBe(reason);
+    });
+
+    it("should include a string reason in the message", () => {
+      const controller = new AbortController();
+      controller.abort("request closed");
+
+      expect(abortErrorFrom(controller.signal).message).toBe(
+        "The operation was aborted: request closed"
+      );
+    });
+
+    it("should reuse an AbortError reason", () => {
+      const controller = new AbortController();
+      const reason = new AbortError("custom");
+      controller.abort(reason);
+
+      expect(abortErrorFrom(controller.signal)).toBe(reason);
+    });
+  });
+
+  describe("throwIfAborted", () => {
+    it("should do nothing without a signal or for an active signal", () => {
+      expect(() => throwIfAborted()).not.toThrow();
+      expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    });
+
+    it("should throw an AbortError for an aborted signal", () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(() => throwIfAborted(controller.signal)).toThrow(AbortError);
+    });
+  });
+
+  describe("onAbort", () => {
+    it("should call the listener once when the signal aborts", () => {
+      const controller = new AbortController();
+      const listener = jest.fn();
+      onAbort(controller.signal, listener);
+
+      controller.abort();
+      controller.abort();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not call the listener after it has been removed", () => {
+      const controller = new AbortController();
+      const listener = jest.fn();
+      const remove = onAbort(controller.signal, listener);
+
+      remove();
+      controller.abort();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -118,8 +118,11 @@ steps:
       expect(code).toContain("socket?: any");
       expect(code).toContain("): Promise<TestWorkflowWorkflowOutput> {");
       expect(code).toContain(
-        "runWorkflow(socketInstance, 'wf_123456789', authToken, input, { handlers });"
+        "const run = runWorkflow(socketInstance, 'wf_123456789', authToken, input, { signal: options.signal, watchdog: options.watchdog, retry: options.retry });"
       );
+      expect(code).toContain("const { state } = await run.result;");
+      expect(code).toContain("options: WorkflowCallOptions = {}");
+      expect(code).toContain("options.onRun?.(run);");
     });
 
     it("should handle different YAML types correctly", () => {
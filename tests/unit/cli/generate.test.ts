@@ -122,16 +122,17 @@ describe("Generate Module", () => {
     expect(listWorkflows).toHaveBeenCalledWith({
       apiKey: "test_api_key",
       verbose: true,
+      logger: expect.anything(),
     });
 
     // Verify getWorkflowDetail was called for each workflow
     expect(getWorkflowDetail).toHaveBeenCalledTimes(2);
     expect(getWorkflowDetail).toHaveBeenCalledWith(
-      { apiKey: "test_api_key", verbose: true },
+      { apiKey: "test_api_key", verbose: true, logger: expect.anything() },
       "wf_123"
     );
     expect(getWorkflowDetail).toHaveBeenCalledWith(
-      { apiKey: "test_api_key", verbose: true },
+      { apiKey: "test_api_key", verbose: true, logger: expect.anything() },
       "wf_456"
     );
 
@@ -190,7 +191,8 @@ describe("Generate Module", () => {
         name: "Nested Workflow",
         yaml: "type: flow\nname: Nested Workflow\ninput: []\noutputs: []\nsteps: []",
       }),
-      "type: flow\nname: Nested Workflow\ninput: []\noutputs: []\nsteps: []"
+      "type: flow\nname: Nested Workflow\ninput: []\noutputs: []\nsteps: []",
+      expect.anything()
     );
   });
 
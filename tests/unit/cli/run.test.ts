@@ -0,0 +1,158 @@
+import { runWorkflowCommand } from "../../../src/cli/run";
+import { PocketFlowClient } from "../../../src/client";
+import * as fs from "fs";
+
+jest.mock("../../../src/client", () => ({
+  PocketFlowClient: jest.fn(),
+}));
+
+jest.mock("fs");
+
+describe("Run Module", () => {
+  const runWorkflow = jest.fn();
+  const close = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PocketFlowClient as unknown as jest.Mock).mockImplementation(() => ({
+      runWorkflow,
+      close,
+    }));
+    runWorkflow.mockResolvedValue({
+      result: Promise.resolve({ state: {}, output: { summary: "done" } }),
+    });
+  });
+
+  it("should run the workflow with the given input and print its output", async () => {
+    const output = await runWorkflowCommand({
+      auth: { apiKey: "test-api-key" },
+      workflowId: "summarize",
+      input: '{"topic": "AI"}',
+      verbose: false,
+    });
+
+    expect(output).toEqual({ summary: "done" });
+    expect(runWorkflow).toHaveBeenCalledWith(
+      "summarize",
+      { topic: "AI" },
+      { signal: undefined, handlers: expect.any(Object) }
+    );
+    expect(console.log).toHaveBeenCalledWith(
+      JSON.stringify({ summary: "done" }, null, 2)
+    );
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("should print and return the final state when the run has no output", async () => {
+    runWorkflow.mockResolvedValue({
+      result: Promise.resolve({ state: { done: true } }),
+    });
+
+    const printed = await runWorkflowCommand({
+      auth: { apiKey: "test-api-key" },
+      workflowId: "summarize",
+      verbose: false,
+    });
+
+    expect(printed).toEqual({ done: true });
+    expect(console.log).toHaveBeenCalledWith(
+      JSON.stringify({ done: true }, null, 2)
+    );
+  });
+
+  it("should write nothing but the output to stdout", async () => {
+    runWorkflow.mockImplementation(async (_workflowId, _input, options) => {
+      const { socketOptions } = (PocketFlowClient as unknown as jest.Mock).mock
+        .calls[0][0];
+      socketOptions.handleConnection();
+      socketOptions.handleLog({ runId: "run-1", message: "working" });
+      socketOptions.handleStreamOutput({ node: "search", isError: true });
+      options.handlers.run_start({ message: "started" });
+      options.handlers.run_complete({ message: "done", output: { ok: true } });
+      socketOptions.handleDisconnection("io client disconnect");
+      return {
+        result: Promise.resolve({ state: {}, output: { ok: true } }),
+      };
+    });
+
+    await runWorkflowCommand({
+      auth: { apiKey: "test-api-key" },
+      workflowId: "summarize",
+      verbose: true,
+    });
+
+    const stdout = (console.log as jest.Mock).mock.calls
+      .map((args) => args.join(" "))
+      .join("\n");
+    expect(JSON.parse(stdout)).toEqual({ ok: true });
+  });
+
+  it("should reject input that is not JSON", async () => {
+    await expect(
+      runWorkflowCommand({
+        auth: { apiKey: "test-api-key" },
+        workflowId: "summarize",
+        input: "topic=AI",
+        verbose: false,
+      })
+    ).rejects.toThrow("Invalid input: Expected a JSON object");
+  });
+
+  it("should answer feedback requests from the answers file and print the coverage report", async () => {
+    (fs.readFileSync as jest.Mock).mockReturnValue(
+      "answers:\n  - prompt: Publish?\n    answer: true\n"
+    );
+
+    await runWorkflowCommand({
+      auth: { apiKey: "test-api-key" },
+      workflowId: "summarize",
+      answers: "answers.yaml",
+      verbose: false,
+    });
+
+    expect(fs.readFileSync).toHaveBeenCalledWith("answers.yaml", "utf8");
+    const { socketOptions } = (PocketFlowClient as unknown as jest.Mock).mock
+      .calls[0][0];
+    expect(socketOptions.feedbackPolicy).toBe("ask");
+    expect(socketOptions.handleFeedback({ kind: "confirm", prompt: "Publish?" })).toBe(
+      true
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Feedback answers: 0 of 1 used")
+    );
+  });
+
+  it("should record the run's events to the given file", async () => {
+    (fs.openSync as jest.Mock).mockReturnValue(7);
+
+    await runWorkflowCommand({
+      auth: { apiKey: "test-api-key" },
+      workflowId: "summarize",
+      record: "run.jsonl",
+      verbose: false,
+    });
+
+    expect(fs.openSync).toHaveBeenCalledWith("run.jsonl", "a");
+    const { recorder } = (PocketFlowClient as unknown as jest.Mock).mock
+      .calls[0][0];
+    expect(recorder).toBeDefined();
+    expect(fs.closeSync).toHaveBeenCalledWith(7);
+  });
+
+  it("should trace the run to the given file", async () => {
+    (fs.openSync as jest.Mock).mockReturnValue(8);
+
+    await runWorkflowCommand({
+      auth: { apiKey: "test-api-key" },
+      workflowId: "summarize",
+      trace: "spans.jsonl",
+      verbose: false,
+    });
+
+    expect(fs.openSync).toHaveBeenCalledWith("spans.jsonl", "a");
+    const { tracer } = (PocketFlowClient as unknown as jest.Mock).mock
+      .calls[0][0];
+    expect(tracer).toBeDefined();
+    expect(fs.closeSync).toHaveBeenCalledWith(8);
+  });
+});
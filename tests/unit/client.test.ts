@@ -0,0 +1,180 @@
+import { PocketFlowClient } from "../../src/client";
+import { AbortError } from "../../src/abort";
+import { MockSocket, mockIo } from "../mocks/socket.mock";
+import {
+  setupFetchMock,
+  resetFetchMock,
+  mockSuccessResponse,
+  mockWorkflowListResponse,
+  mockWorkflowDetailResponse,
+} from "../mocks/fetch.mock";
+
+jest.mock("socket.io-client", () => {
+  const originalModule = jest.requireActual("../mocks/socket.mock");
+  return {
+    io: originalModule.mockIo,
+  };
+});
+
+jest.mock("../../src/settings", () => ({
+  getEnvironmentSettings: () => ({
+    API_KEY: "env_api_key",
+    SERVER_URL: "http://localhost:8080",
+  }),
+}));
+
+describe("PocketFlowClient", () => {
+  let sockets: MockSocket[];
+
+  beforeEach(() => {
+    setupFetchMock();
+    sockets = [];
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      const socket = new MockSocket();
+      sockets.push(socket);
+      return socket;
+    });
+  });
+
+  afterEach(() => {
+    resetFetchMock();
+  });
+
+  it("should fall back to the environment configuration", () => {
+    const client = new PocketFlowClient();
+
+    expect(client.baseUrl).toBe("http://localhost:8080");
+    expect(client.socketUrl).toBe("http://localhost:8080");
+  });
+
+  it("should keep the configuration of each client separate", async () => {
+    const staging = new PocketFlowClient({
+      baseUrl: "https://staging.example.com/",
+      apiKey: "staging_key",
+    });
+    const production = new PocketFlowClient({
+      baseUrl: "https://prod.example.com",
+      apiKey: "prod_key",
+    });
+    mockSuccessResponse(mockWorkflowListResponse);
+    mockSuccessResponse(mockWorkflowDetailResponse);
+
+    await staging.listWorkflows({ limit: 5 });
+    await production.getWorkflowDetail("wf_123456789");
+
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      1,
+      "https://staging.example.com/workflows?limit=5",
+      expect.objectContaining({
+        headers: expect.objectContaining({ "X-API-Key": "staging_key" }),
+      })
+    );
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      2,
+      "https://prod.example.com/workflows/wf_123456789",
+      expect.objectContaining({
+        headers: expect.objectContaining({ "X-API-Key": "prod_key" }),
+      })
+    );
+  });
+
+  it("should connect to its socket URL with its API key", async () => {
+    const client = new PocketFlowClient({
+      baseUrl: "https://api.example.com",
+      socketUrl: "https://socket.example.com",
+      apiKey: "client_key",
+    });
+
+    await client.connect();
+
+    expect(mockIo).toHaveBeenCalledWith(
+      "https://socket.example.com",
+      expect.objectContaining({ auth: { token: "client_key" } })
+    );
+  });
+
+  it("should share one socket between workflow runs", async () => {
+    const client = new PocketFlowClient({ apiKey: "client_key" });
+
+    const first = await client.runWorkflow("wf-a", {});
+    const second = await client.runWorkflow("wf-b", {});
+
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].emit).toHaveBeenCalledWith(
+      "run_workflow",
+      expect.objectContaining({ runId: first.runId, token: "client_key" }),
+      expect.any(Function)
+    );
+    expect(sockets[0].emit).toHaveBeenCalledWith(
+      "run_workflow",
+      expect.objectContaining({ runId: second.runId }),
+      expect.any(Function)
+    );
+  });
+
+  it("should open a new socket for runs started after close", async () => {
+    const client = new PocketFlowClient({ apiKey: "client_key" });
+
+    await client.runWorkflow("wf-a", {});
+    client.close();
+    await client.runWorkflow("wf-b", {});
+
+    expect(sockets).toHaveLength(2);
+    expect(sockets[0].connected).toBe(false);
+  });
+
+  it("should report the queue depth and drops of the shared socket", async () => {
+    const client = new PocketFlowClient({ apiKey: "client_key" });
+    const drops: any[] = [];
+    client.onQueueDrop((drop) => drops.push(drop));
+
+    const run = await client.runWorkflow("wf-a", {});
+    sockets[0].emit("disconnect", "transport close");
+    await client.runWorkflow("wf-b", {});
+
+    expect(client.queueDepth).toBe(1);
+
+    client.close();
+
+    expect(client.queueDepth).toBe(0);
+    expect(drops).toEqual([
+      expect.objectContaining({ event: "run_workflow", reason: "closed" }),
+    ]);
+    expect(drops[0].runId).not.toBe(run.runId);
+  });
+
+  it("should stop waiting for the socket when the signal aborts", async () => {
+    const client = new PocketFlowClient({ apiKey: "client_key" });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.runWorkflow("wf-a", {}, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it("should use the credentials provider for requests, sockets and runs", async () => {
+    const credentials = jest.fn().mockResolvedValue("short_lived_token");
+    const client = new PocketFlowClient({ credentials });
+    mockSuccessResponse(mockWorkflowListResponse);
+
+    await client.listWorkflows();
+    const run = await client.runWorkflow("wf-a", {});
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect((global.fetch as jest.Mock).mock.calls[0][1].headers).toEqual(
+      expect.objectContaining({ "X-API-Key": "short_lived_token" })
+    );
+    expect(typeof mockIo.mock.calls[0][1].auth).toBe("function");
+    expect(sockets[0].emit).toHaveBeenCalledWith(
+      "run_workflow",
+      expect.objectContaining({ runId: run.runId, token: "short_lived_token" }),
+      expect.any(Function)
+    );
+    expect(credentials).toHaveBeenCalledWith({
+      reason: "run",
+      forceRefresh: false,
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  canRefreshCredentials,
+  resolveCredentials,
+} from "../../src/credentials";
+
+describe("Credentials", () => {
+  const context = { reason: "request" as const, forceRefresh: false };
+
+  describe("resolveCredentials", () => {
+    it("should return static credentials as they are", async () => {
+      await expect(resolveCredentials("api_key", context)).resolves.toBe(
+        "api_key"
+      );
+    });
+
+    it("should call a provider with the context", async () => {
+      const provider = jest.fn().mockResolvedValue("fresh_token");
+
+      await expect(resolveCredentials(provider, context)).resolves.toBe(
+        "fresh_token"
+      );
+      expect(provider).toHaveBeenCalledWith(context);
+    });
+
+    it("should accept providers that return synchronously", async () => {
+      await expect(resolveCredentials(() => "sync_token", context)).resolves.toBe(
+        "sync_token"
+      );
+    });
+
+    it("should resolve to undefined without credentials", async () => {
+      await expect(resolveCredentials(undefined, context)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("canRefreshCredentials", () => {
+    it("should only be true for providers", () => {
+      expect(canRefreshCredentials(() => "token")).toBe(true);
+      expect(canRefreshCredentials("api_key")).toBe(false);
+      expect(canRefreshCredentials(undefined)).toBe(false);
+    });
+  });
+});
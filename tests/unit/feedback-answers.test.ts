@@ -0,0 +1,163 @@
+import {
+  createAnswersFeedbackHandler,
+  formatFeedbackAnswersReport,
+  parseFeedbackAnswers,
+} from "../../src/feedback-answers";
+import { FeedbackRequiredError } from "../../src/socket/feedback-policy";
+import { createSilentLogger } from "../../src/logger";
+
+describe("Feedback answers", () => {
+  const logger = createSilentLogger();
+
+  describe("parseFeedbackAnswers", () => {
+    it("should parse a YAML answers file", () => {
+      expect(
+        parseFeedbackAnswers(`
+fallback: defaults
+answers:
+  - prompt: Publish?
+    answer: true
+  - match: "^Tone"
+    answer: "2"
+`)
+      ).toEqual({
+        fallback: "defaults",
+        answers: [
+          { prompt: "Publish?", answer: true },
+          { match: "^Tone", answer: "2" },
+        ],
+      });
+    });
+
+    it("should accept a JSON list of answers", () => {
+      expect(
+        parseFeedbackAnswers('[{"requestId": "req-1", "answer": "ok"}]')
+      ).toEqual({ answers: [{ requestId: "req-1", answer: "ok" }] });
+    });
+
+    it("should reject answers without a value or with invalid patterns", () => {
+      expect(() => parseFeedbackAnswers("answers:\n  - prompt: Publish?\n")).toThrow(
+        "Invalid answers file: Answer 1 has no answer"
+      );
+      expect(() =>
+        parseFeedbackAnswers('answers:\n  - match: "("\n    answer: x\n')
+      ).toThrow("Invalid answers file: Answer 1 has an invalid match pattern");
+      expect(() => parseFeedbackAnswers("just text")).toThrow(
+        "Invalid answers file: Expected a list of answers"
+      );
+    });
+  });
+
+  describe("createAnswersFeedbackHandler", () => {
+    it("should match answers by prompt, pattern and request ID", () => {
+      const handler = createAnswersFeedbackHandler(
+        [
+          { requestId: "req-1", answer: "by id" },
+          { prompt: "Title?", answer: "by prompt" },
+          { match: "^Summary", answer: "by pattern" },
+        ],
+        { logger }
+      );
+
+      expect(handler({ kind: "text", prompt: "Title?" })).toBe("by prompt");
+      expect(handler({ kind: "text", prompt: "Summary of run" })).toBe(
+        "by pattern"
+      );
+      expect(handler({ kind: "text", prompt: "Other", requestId: "req-1" })).toBe(
+        "by id"
+      );
+    });
+
+    it("should apply matching answers in order and only once unless repeated", () => {
+      const handler = createAnswersFeedbackHandler(
+        [
+          { prompt: "Next?", answer: "first" },
+          { prompt: "Next?", answer: "second" },
+          { prompt: "Again?", answer: "always", repeat: true },
+        ],
+        { logger, fallback: "defaults" }
+      );
+
+      expect(handler({ kind: "text", prompt: "Next?" })).toBe("first");
+      expect(handler({ kind: "text", prompt: "Next?" })).toBe("second");
+      expect(
+        handler({ kind: "text", prompt: "Next?", defaultValue: "fallback" })
+      ).toBe("fallback");
+      expect(handler({ kind: "text", prompt: "Again?" })).toBe("always");
+      expect(handler({ kind: "text", prompt: "Again?" })).toBe("always");
+    });
+
+    it("should convert text answers to the kind of the request", () => {
+      const handler = createAnswersFeedbackHandler(
+        [
+          { prompt: "Publish?", answer: "yes" },
+          { prompt: "Tone?", answer: "2" },
+        ],
+        { logger }
+      );
+
+      expect(handler({ kind: "confirm", prompt: "Publish?" })).toBe(true);
+      expect(
+        handler({
+          kind: "single-choice",
+          prompt: "Tone?",
+          choices: ["formal", "casual"],
+        })
+      ).toBe("casual");
+    });
+
+    it("should fail unmatched requests by default", () => {
+      const handler = createAnswersFeedbackHandler([], { logger });
+
+      expect(() => handler({ kind: "text", prompt: "Title?" })).toThrow(
+        FeedbackRequiredError
+      );
+    });
+
+    it("should ask the fallback handler with the ask fallback", () => {
+      const fallbackHandler = jest.fn().mockReturnValue("asked");
+      const handler = createAnswersFeedbackHandler(
+        { answers: [], fallback: "ask" },
+        { logger, fallbackHandler }
+      );
+
+      expect(handler({ kind: "text", prompt: "Title?" })).toBe("asked");
+      expect(fallbackHandler).toHaveBeenCalledWith(
+        { kind: "text", prompt: "Title?" },
+        undefined
+      );
+    });
+
+    it("should report which answers were used and which requests had none", () => {
+      const handler = createAnswersFeedbackHandler(
+        [
+          { prompt: "Title?", answer: "A title" },
+          { match: "^Unused", answer: "never" },
+        ],
+        { logger, fallback: "defaults" }
+      );
+
+      handler({ kind: "text", prompt: "Title?" });
+      handler({ kind: "text", prompt: "Tags?", requestId: "req-2" });
+
+      const report = handler.report();
+      expect(report).toEqual({
+        answers: [
+          { index: 1, description: 'prompt "Title?"', uses: 1 },
+          { index: 2, description: "prompt matching ^Unused", uses: 0 },
+        ],
+        unmatched: [
+          { runId: undefined, requestId: "req-2", kind: "text", prompt: "Tags?" },
+        ],
+      });
+      expect(formatFeedbackAnswersReport(report)).toBe(
+        [
+          "Feedback answers: 1 of 2 used, 1 unmatched requests",
+          '  ✓ #1 prompt "Title?" (used 1x)',
+          "  ✗ #2 prompt matching ^Unused (used 0x)",
+          '  ? unmatched text request req-2: "Tags?"',
+        ].join("\n")
+      );
+    });
+  });
+});
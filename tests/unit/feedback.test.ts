@@ -0,0 +1,134 @@
+import {
+  FeedbackRequest,
+  normalizeFeedbackRequest,
+  parseFeedbackInput,
+  validateFeedback,
+} from "../../src/feedback";
+
+describe("Feedback", () => {
+  describe("normalizeFeedbackRequest", () => {
+    it("should turn requests without a kind into text requests", () => {
+      expect(
+        normalizeFeedbackRequest({ prompt: "Name?", defaultValue: "Ada" })
+      ).toEqual({ kind: "text", prompt: "Name?", defaultValue: "Ada" });
+    });
+
+    it("should keep known kinds and their fields", () => {
+      expect(
+        normalizeFeedbackRequest({ kind: "number", prompt: "Age?", min: 0 })
+      ).toEqual({ kind: "number", prompt: "Age?", min: 0 });
+    });
+
+    it("should treat unknown kinds as text", () => {
+      expect(normalizeFeedbackRequest({ kind: "color", prompt: "?" }).kind).toBe(
+        "text"
+      );
+    });
+  });
+
+  describe("validateFeedback", () => {
+    it("should reject empty answers to required requests without a default", () => {
+      const request: FeedbackRequest = { kind: "text", prompt: "?", required: true };
+
+      expect(validateFeedback(request, "")).toBe("A value is required");
+      expect(
+        validateFeedback({ ...request, defaultValue: "fallback" }, "")
+      ).toBeUndefined();
+    });
+
+    it("should check text length and pattern", () => {
+      const request: FeedbackRequest = {
+        kind: "text",
+        prompt: "Code?",
+        pattern: "[A-Z]{3}",
+        patternMessage: "Three capital letters",
+        maxLength: 3,
+      };
+
+      expect(validateFeedback(request, "ABC")).toBeUndefined();
+      expect(validateFeedback(request, "ABCD")).toBe("Enter at most 3 characters");
+      expect(validateFeedback(request, "abc")).toBe("Three capital letters");
+    });
+
+    it("should check number bounds and whole numbers", () => {
+      const request: FeedbackRequest = {
+        kind: "number",
+        prompt: "Count?",
+        min: 1,
+        max: 5,
+        integer: true,
+      };
+
+      expect(validateFeedback(request, 3)).toBeUndefined();
+      expect(validateFeedback(request, 0)).toBe("Enter a number of at least 1");
+      expect(validateFeedback(request, 2.5)).toBe("Expected a whole number");
+      expect(validateFeedback(request, "3")).toBe("Expected a number");
+    });
+
+    it("should check choices and the number of selected options", () => {
+      const request: FeedbackRequest = {
+        kind: "multi-choice",
+        prompt: "Pick",
+        choices: ["a", { value: "b", label: "Option B" }],
+        maxSelected: 1,
+      };
+
+      expect(validateFeedback(request, ["b"])).toBeUndefined();
+      expect(validateFeedback(request, ["c"])).toBe("Choose from: a, b");
+      expect(validateFeedback(request, ["a", "b"])).toBe(
+        "Choose at most 1 options"
+      );
+    });
+  });
+
+  describe("parseFeedbackInput", () => {
+    it("should parse confirm answers", () => {
+      const request: FeedbackRequest = { kind: "confirm", prompt: "OK?" };
+
+      expect(parseFeedbackInput(request, "Yes")).toEqual({ valid: true, value: true });
+      expect(parseFeedbackInput(request, "n")).toEqual({ valid: true, value: false });
+      expect(parseFeedbackInput(request, "maybe")).toEqual({
+        valid: false,
+        error: "Answer yes or no",
+      });
+    });
+
+    it("should accept option numbers and values for choices", () => {
+      const request: FeedbackRequest = {
+        kind: "multi-choice",
+        prompt: "Pick",
+        choices: ["red", "green", "blue"],
+      };
+
+      expect(parseFeedbackInput(request, "1, blue")).toEqual({
+        valid: true,
+        value: ["red", "blue"],
+      });
+    });
+
+    it("should parse numbers and JSON", () => {
+      expect(
+        parseFeedbackInput({ kind: "number", prompt: "?" }, "42")
+      ).toEqual({ valid: true, value: 42 });
+      expect(
+        parseFeedbackInput({ kind: "number", prompt: "?" }, "forty")
+      ).toEqual({ valid: false, error: "Expected a number" });
+      expect(
+        parseFeedbackInput({ kind: "json", prompt: "?" }, '{"a": 1}')
+      ).toEqual({ valid: true, value: { a: 1 } });
+      expect(parseFeedbackInput({ kind: "json", prompt: "?" }, "{")).toEqual({
+        valid: false,
+        error: "Expected valid JSON",
+      });
+    });
+
+    it("should use the default value for empty answers", () => {
+      expect(
+        parseFeedbackInput(
+          { kind: "single-choice", prompt: "?", choices: ["a", "b"], defaultValue: "b" },
+          ""
+        )
+      ).toEqual({ valid: true, value: "b" });
+    });
+  });
+});
@@ -1,8 +1,15 @@
 import {
   defaultSocketConnectionHandler,
   defaultSocketDisconnectionHandler,
+  defaultStreamOutputHandler,
   defaultWorkflowLogHandler,
 } from "../../../src/handlers/defaultHandlers";
+import {
+  createConsoleLogger,
+  createSilentLogger,
+  setDefaultLogger,
+} from "../../../src/logger";
+import { defaultHandlers, quietHandlers } from "../../../src/socket/workflow";
 
 // Mock the readline module for testing the feedback handler
 jest.mock("readline", () => ({
@@ -32,26 +39,66 @@ describe("Default Handlers", () => {
     console.warn = originalConsoleWarn;
   });
 
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+
   describe("defaultSocketConnectionHandler", () => {
     it("should log connection message", () => {
-      defaultSocketConnectionHandler();
-      expect(console.log).toHaveBeenCalledWith("Socket connected successfully");
+      defaultSocketConnectionHandler(logger);
+      expect(logger.info).toHaveBeenCalledWith("Socket connected successfully");
     });
   });
 
   describe("defaultSocketDisconnectionHandler", () => {
     it("should log disconnection message with reason", () => {
-      const reason = "test-reason";
-      defaultSocketDisconnectionHandler(reason);
-      expect(console.log).toHaveBeenCalledWith("Socket disconnected:", reason);
+      defaultSocketDisconnectionHandler("transport close", logger);
+      expect(logger.debug).toHaveBeenCalledWith(
+        "Socket disconnected: transport close",
+        {
+          reason: "transport close",
+          explanation: expect.stringContaining("The connection was closed"),
+        }
+      );
     });
   });
 
   describe("defaultWorkflowLogHandler", () => {
     it("should log the data", () => {
       const testData = { message: "test log message" };
-      defaultWorkflowLogHandler(testData);
-      expect(console.log).toHaveBeenCalledWith(testData);
+      defaultWorkflowLogHandler(testData, logger);
+      expect(logger.info).toHaveBeenCalledWith("Workflow log", {
+        log: testData,
+      });
+    });
+  });
+
+  describe("with a silent default logger", () => {
+    afterEach(() => {
+      setDefaultLogger(createConsoleLogger());
+    });
+
+    it("should not write to the console", () => {
+      setDefaultLogger(createSilentLogger());
+
+      defaultSocketConnectionHandler();
+      defaultSocketDisconnectionHandler("transport close");
+      defaultWorkflowLogHandler({ message: "working" });
+      defaultStreamOutputHandler({ node: "search", isError: true });
+      Object.values(defaultHandlers).forEach((handler: any) =>
+        handler({ message: "done", node: "search", isError: true })
+      );
+      Object.values(quietHandlers).forEach((handler: any) =>
+        handler({ message: "done", node: "search", output: { ok: true } })
+      );
+
+      expect(console.log).not.toHaveBeenCalled();
+      expect(console.warn).not.toHaveBeenCalled();
+      expect(console.error).not.toHaveBeenCalled();
     });
   });
 });
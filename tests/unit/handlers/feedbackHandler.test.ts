@@ -1,4 +1,9 @@
-import { defaultFeedbackRequestHandler } from "../../../src/handlers/defaultHandlers";
+import {
+  defaultFeedbackRequestHandler,
+  setFeedbackPrompt,
+} from "../../../src/handlers/defaultHandlers";
+import { terminalFeedbackPrompt } from "../../../src/node/feedback-prompt";
+import { FeedbackRequiredError } from "../../../src/socket/feedback-policy";
 
 // Mock data for testing
 const mockData = {
@@ -11,15 +16,41 @@ const mockQuestion = jest.fn();
 const mockClose = jest.fn();
 
 jest.mock("readline", () => ({
-  createInterface: jest.fn().mockReturnValue({
+  createInterface: jest.fn(() => ({
     question: mockQuestion,
     close: mockClose,
-  }),
+  })),
 }));
 
 describe("defaultFeedbackRequestHandler", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    setFeedbackPrompt(terminalFeedbackPrompt);
+  });
+
+  afterEach(() => {
+    setFeedbackPrompt();
+  });
+
+  describe("without a prompt", () => {
+    beforeEach(() => {
+      setFeedbackPrompt();
+    });
+
+    it("should answer with the default value without reading input", () => {
+      expect(defaultFeedbackRequestHandler(mockData)).toBe("default-value");
+      expect(mockQuestion).not.toHaveBeenCalled();
+    });
+
+    it("should fail required requests without a default value", () => {
+      expect(() =>
+        defaultFeedbackRequestHandler({
+          kind: "confirm",
+          prompt: "Publish?",
+          required: true,
+        })
+      ).toThrow(FeedbackRequiredError);
+    });
   });
 
   it("should log the feedback request data", async () => {
@@ -38,7 +69,9 @@ describe("defaultFeedbackRequestHandler", () => {
     const response = await result;
 
     // Verify logging
-    expect(console.log).toHaveBeenCalledWith("Feedback request:", mockData);
+    expect(console.log).toHaveBeenCalledWith("Feedback request", {
+      request: mockData,
+    });
 
     // Verify readline usage
     expect(mockQuestion).toHaveBeenCalledWith(
@@ -65,4 +98,68 @@ describe("defaultFeedbackRequestHandler", () => {
     // Verify response uses default value
     expect(response).toBe(mockData.defaultValue);
   });
+
+  it("should convert answers to the kind of the request", async () => {
+    mockQuestion.mockImplementation((question, callback) => {
+      callback("y");
+    });
+
+    const response = await defaultFeedbackRequestHandler({
+      kind: "confirm",
+      prompt: "Publish?",
+    });
+
+    expect(mockQuestion).toHaveBeenCalledWith(
+      "Publish? (y/n): ",
+      expect.any(Function)
+    );
+    expect(response).toBe(true);
+  });
+
+  it("should list the options of a choice request and accept their numbers", async () => {
+    mockQuestion.mockImplementation((question, callback) => {
+      callback("2");
+    });
+
+    const response = await defaultFeedbackRequestHandler({
+      kind: "single-choice",
+      prompt: "Tone?",
+      choices: ["formal", { value: "casual", label: "Casual" }],
+    });
+
+    expect(console.log).toHaveBeenCalledWith("  2) Casual");
+    expect(response).toBe("casual");
+  });
+
+  it("should ask again until the answer is valid", async () => {
+    const answers = ["many", "12", "3"];
+    mockQuestion.mockImplementation((question, callback) => {
+      callback(answers.shift());
+    });
+
+    const response = await defaultFeedbackRequestHandler({
+      kind: "number",
+      prompt: "Count?",
+      max: 5,
+    });
+
+    expect(console.log).toHaveBeenCalledWith(
+      "Invalid answer: Expected a number"
+    );
+    expect(console.log).toHaveBeenCalledWith(
+      "Invalid answer: Enter a number of at most 5"
+    );
+    expect(mockQuestion).toHaveBeenCalledTimes(3);
+    expect(response).toBe(3);
+  });
+
+  it("should close the prompt when the signal aborts", () => {
+    mockQuestion.mockImplementation(() => {});
+    const controller = new AbortController();
+
+    defaultFeedbackRequestHandler(mockData, { signal: controller.signal });
+    controller.abort();
+
+    expect(mockClose).toHaveBeenCalled();
+  });
 });
@@ -12,7 +12,11 @@ import {
   ApiAuth,
   listWorkflows,
   getWorkflowDetail,
+  createInMemorySpanExporter,
+  createTracer,
+  createMetricsRegistry,
 } from "../../../src";
+import { AbortError } from "../../../src/abort";
 
 // Import test utilities
 import {
@@ -29,13 +33,12 @@ import {
   mockErrorResponse,
 } from "../../mocks/fetch.mock";
 
-// Mock the env module to control the SERVER_URL
-jest.mock("../../../src/env", () => ({
-  __esModule: true,
-  default: {
+// Mock the environment settings to control the SERVER_URL
+jest.mock("../../../src/settings", () => ({
+  getEnvironmentSettings: () => ({
     API_KEY: "test_api_key",
     SERVER_URL: "http://localhost:8080",
-  },
+  }),
 }));
 
 // Simple tests for error classes - these should work without any mocking
@@ -175,4 +178,298 @@ describe("HTTP Client API", () => {
       expect(global.fetch).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe("abort signal", () => {
+    it("should not call fetch when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        listWorkflows({ ...auth, signal: controller.signal })
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should abort the in-flight fetch and reject with an AbortError", async () => {
+      const controller = new AbortController();
+      (global.fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_, reject) => {
+            init.signal!.addEventListener("abort", () => {
+              reject(new DOMException("The operation was aborted", "AbortError"));
+            });
+          })
+      );
+
+      const request = getWorkflowDetail(
+        { ...auth, signal: controller.signal },
+        "wf_123456789"
+      );
+      controller.abort();
+
+      await expect(request).rejects.toBeInstanceOf(AbortError);
+    });
+  });
+
+  describe("redaction", () => {
+    const createMockLogger = () => {
+      const logger: any = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      logger.child = jest.fn(() => logger);
+      return logger;
+    };
+
+    it("should mask the API key in verbose request logs", async () => {
+      const logger = createMockLogger();
+      mockSuccessResponse(mockWorkflowListResponse);
+
+      await listWorkflows({ ...auth, verbose: true, logger });
+
+      expect(logger.debug).toHaveBeenCalledWith("Request details", {
+        headers: {
+          "Content-Type": "application/json",
+          "X-API-Key": "[REDACTED]",
+        },
+        body: undefined,
+      });
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain(
+        "test_api_key"
+      );
+    });
+
+    it("should mask the API key and configured secrets in error messages", async () => {
+      mockErrorResponseFn(500, {
+        error: {
+          code: "invalid_key",
+          message: "Key test_api_key was revoked for tenant acme-secret",
+        },
+      });
+
+      await expect(
+        listWorkflows({
+          ...auth,
+          logger: createMockLogger(),
+          redact: { secrets: ["acme-secret"] },
+        })
+      ).rejects.toThrow(
+        "API error: Key [REDACTED] was revoked for tenant [REDACTED]"
+      );
+    });
+  });
+
+  describe("tracing", () => {
+    it("should trace every request in a span", async () => {
+      const exporter = createInMemorySpanExporter();
+      mockSuccessResponse(mockWorkflowListResponse);
+
+      await listWorkflows({ ...auth, tracer: createTracer(exporter) });
+
+      expect(exporter.spans).toEqual([
+        expect.objectContaining({
+          name: "GET /workflows",
+          status: "ok",
+          attributes: {
+            "http.method": "GET",
+            "http.route": "/workflows",
+            "url.path": "/workflows",
+            "http.url": "http://localhost:8080/workflows",
+            "http.status_code": 200,
+          },
+        }),
+      ]);
+    });
+
+    it("should mark failed requests as errors", async () => {
+      const exporter = createInMemorySpanExporter();
+      const tracer = createTracer(exporter);
+      const parent = tracer.startSpan("job");
+      mockErrorResponseFn(404, mockErrorResponse);
+
+      await expect(
+        getWorkflowDetail(
+          { ...auth, tracer, traceParent: parent },
+          "wf_missing"
+        )
+      ).rejects.toBeInstanceOf(NotFoundError);
+
+      expect(exporter.spans).toEqual([
+        expect.objectContaining({
+          name: "GET /workflows/:id",
+          traceId: parent.traceId,
+          parentSpanId: parent.spanId,
+          status: "error",
+          statusMessage: "Resource not found: /workflows/wf_missing",
+          attributes: expect.objectContaining({
+            "http.route": "/workflows/:id",
+            "url.path": "/workflows/wf_missing",
+            "http.status_code": 404,
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe("metrics", () => {
+    it("should count requests by status code and observe their latency", async () => {
+      const metrics = createMetricsRegistry();
+      mockSuccessResponse(mockWorkflowListResponse);
+      mockErrorResponseFn(404, mockErrorResponse);
+
+      await listWorkflows({ ...auth, metrics });
+      await expect(listWorkflows({ ...auth, metrics })).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+
+      const metric = (name: string) =>
+        metrics.snapshot().find((snapshot) => snapshot.name === name);
+      expect(metric("pocketflow_http_requests_total")).toMatchObject({
+        series: [
+          {
+            labels: { method: "GET", route: "/workflows", status_code: "200" },
+            value: 1,
+          },
+          {
+            labels: { method: "GET", route: "/workflows", status_code: "404" },
+            value: 1,
+          },
+        ],
+      });
+      expect(metric("pocketflow_http_request_duration_seconds")).toMatchObject({
+        series: [{ labels: { method: "GET", route: "/workflows" }, count: 2 }],
+      });
+    });
+
+    it("should count requests for different workflows in one series", async () => {
+      const metrics = createMetricsRegistry();
+      mockSuccessResponse(mockWorkflowDetailResponse);
+      mockSuccessResponse(mockWorkflowDetailResponse);
+
+      await getWorkflowDetail({ ...auth, metrics }, "wf_1");
+      await getWorkflowDetail({ ...auth, metrics }, "wf_2");
+
+      const requests = metrics
+        .snapshot()
+        .find(({ name }) => name === "pocketflow_http_requests_total");
+      expect(requests?.series).toEqual([
+        {
+          labels: {
+            method: "GET",
+            route: "/workflows/:id",
+            status_code: "200",
+          },
+          value: 2,
+        },
+      ]);
+    });
+
+    it("should count requests that got no response", async () => {
+      const metrics = createMetricsRegistry();
+      (global.fetch as jest.Mock).mockRejectedValueOnce(
+        new TypeError("fetch failed")
+      );
+
+      await expect(listWorkflows({ ...auth, metrics })).rejects.toThrow();
+
+      const requests = metrics
+        .snapshot()
+        .find(({ name }) => name === "pocketflow_http_requests_total");
+      expect(requests?.series).toEqual([
+        {
+          labels: { method: "GET", route: "/workflows", status_code: "none" },
+          value: 1,
+        },
+      ]);
+    });
+  });
+
+  describe("credentials provider", () => {
+    it("should ask the provider for the API key before every request", async () => {
+      const credentials = jest
+        .fn()
+        .mockResolvedValueOnce("key_1")
+        .mockResolvedValueOnce("key_2");
+      mockSuccessResponse(mockWorkflowListResponse);
+      mockSuccessResponse(mockWorkflowListResponse);
+
+      await listWorkflows({ credentials });
+      await listWorkflows({ credentials });
+
+      expect(credentials).toHaveBeenCalledWith({
+        reason: "request",
+        forceRefresh: false,
+      });
+      const keys = (global.fetch as jest.Mock).mock.calls.map(
+        ([, init]) => init.headers["X-API-Key"]
+      );
+      expect(keys).toEqual(["key_1", "key_2"]);
+    });
+
+    it("should refresh the credentials and retry once after a 401", async () => {
+      const credentials = jest
+        .fn()
+        .mockResolvedValueOnce("expired_key")
+        .mockResolvedValueOnce("fresh_key");
+      mockErrorResponseFn(401);
+      mockSuccessResponse(mockWorkflowListResponse);
+
+      await expect(listWorkflows({ credentials })).resolves.toEqual(
+        mockWorkflowListResponse
+      );
+
+      expect(credentials).toHaveBeenLastCalledWith({
+        reason: "request",
+        forceRefresh: true,
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect((global.fetch as jest.Mock).mock.calls[1][1].headers).toEqual(
+        expect.objectContaining({ "X-API-Key": "fresh_key" })
+      );
+    });
+
+    it("should give up when the refreshed credentials are rejected too", async () => {
+      const credentials = jest.fn().mockResolvedValue("revoked_key");
+      mockErrorResponseFn(401);
+      mockErrorResponseFn(401);
+
+      await expect(listWorkflows({ credentials })).rejects.toBeInstanceOf(
+        AuthenticationError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry requests that are forbidden", async () => {
+      const credentials = jest.fn().mockResolvedValue("valid_key");
+      mockErrorResponseFn(403);
+
+      await expect(listWorkflows({ credentials })).rejects.toMatchObject({
+        name: "AuthenticationError",
+        status: 403,
+      });
+      expect(credentials).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry when the provider fails", async () => {
+      const credentials = jest.fn().mockRejectedValue(new Error("vault down"));
+
+      await expect(listWorkflows({ credentials })).rejects.toThrow(
+        "Failed to get credentials for the request"
+      );
+      expect(credentials).toHaveBeenCalledTimes(1);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should not retry static credentials", async () => {
+      mockErrorResponseFn(401);
+
+      await expect(
+        listWorkflows({ credentials: "revoked_key" })
+      ).rejects.toBeInstanceOf(AuthenticationError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -1,4 +1,45 @@
 import * as sdk from "../../src/index";
+import * as fs from "fs";
+import * as path from "path";
+import { builtinModules } from "module";
+
+/**
+ * Collect the packages imported by a module and every SDK module it
+ * imports, directly or indirectly
+ */
+const collectPackageImports = (entry: string): Map<string, string> => {
+  const packages = new Map<string, string>();
+  const visited = new Set<string>();
+  const pending = [entry];
+
+  while (pending.length > 0) {
+    const file = pending.pop()!;
+    if (visited.has(file)) continue;
+    visited.add(file);
+
+    // Type-only imports are included, since they end up in the declarations
+    const source = fs.readFileSync(file, "utf8");
+    const specifiers = [
+      ...source.matchAll(
+        /(?:from|import|import\(|require\()\s*["']([^"']+)["']/g
+      ),
+    ].map((match) => match[1]);
+
+    specifiers.forEach((specifier) => {
+      if (!specifier.startsWith(".")) {
+        packages.set(specifier, path.relative(process.cwd(), file));
+        return;
+      }
+      const base = path.resolve(path.dirname(file), specifier);
+      const resolved = [`${base}.ts`, path.join(base, "index.ts")].find(
+        (candidate) => fs.existsSync(candidate)
+      );
+      if (resolved) pending.push(resolved);
+    });
+  }
+
+  return packages;
+};
 
 describe("SDK Exports", () => {
   it("should export socket connection functions", () => {
@@ -58,4 +99,38 @@ describe("SDK Exports", () => {
     // Note: TypeScript types are not present in the compiled JavaScript
     // so we can't test for them directly. They're only used during compilation.
   });
+
+  describe("runtime-agnostic core", () => {
+    it("should not import Node.js built-ins or Node-only packages, even for types", () => {
+      const nodeOnly = new Set([...builtinModules, "dotenv", "commander"]);
+      const imports = collectPackageImports(
+        path.resolve(__dirname, "../../src/index.ts")
+      );
+
+      const offending = [...imports]
+        .filter(([specifier]) => {
+          const name = specifier.replace(/^node:/, "").split("/")[0];
+          return specifier.startsWith("node:") || nodeOnly.has(name);
+        })
+        .map(([specifier, file]) => `${specifier} (imported by ${file})`);
+
+      expect(offending).toEqual([]);
+    });
+
+    it("should leave Node-only features to the Node.js entry point", () => {
+      const exportedProperties = Object.keys(sdk);
+
+      [
+        "env",
+        "cli",
+        "createRunNodeReadable",
+        "loadFeedbackAnswers",
+        "createFileRecorder",
+        "readRecording",
+        "createFileSpanExporter",
+      ].forEach((name) => {
+        expect(exportedProperties).not.toContain(name);
+      });
+    });
+  });
 });
@@ -0,0 +1,112 @@
+import {
+  createConsoleLogger,
+  createJsonLogger,
+  createSilentLogger,
+  getDefaultLogger,
+  setDefaultLogger,
+  serializeLogFields,
+} from "../../src/logger";
+
+describe("Logger", () => {
+  describe("createConsoleLogger", () => {
+    it("should write entries at or above the configured level", () => {
+      const logger = createConsoleLogger({ level: "warn" });
+
+      logger.debug("debug message");
+      logger.info("info message");
+      logger.warn("warn message");
+      logger.error("error message", { code: 42 });
+
+      expect(console.log).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith("warn message");
+      expect(console.error).toHaveBeenCalledWith("error message", { code: 42 });
+    });
+
+    it("should default to the info level", () => {
+      const logger = createConsoleLogger();
+
+      logger.debug("hidden");
+      logger.info("shown");
+
+      expect(console.log).toHaveBeenCalledTimes(1);
+      expect(console.log).toHaveBeenCalledWith("shown");
+    });
+
+    it("should add the fields of child loggers to every entry", () => {
+      const logger = createConsoleLogger({ fields: { component: "socket" } });
+      const child = logger.child({ runId: "run_1" });
+
+      child.info("started", { node: "search" });
+
+      expect(console.log).toHaveBeenCalledWith("started", {
+        component: "socket",
+        runId: "run_1",
+        node: "search",
+      });
+    });
+  });
+
+  describe("createJsonLogger", () => {
+    it("should write one JSON line per entry", () => {
+      const write = jest.fn();
+      const logger = createJsonLogger({ write, level: "debug" });
+
+      logger.debug("request", { url: "https://example.com" });
+
+      expect(write).toHaveBeenCalledTimes(1);
+      const entry = JSON.parse(write.mock.calls[0][0]);
+      expect(entry).toEqual({
+        time: expect.any(String),
+        level: "debug",
+        msg: "request",
+        url: "https://example.com",
+      });
+    });
+
+    it("should serialize errors in the fields", () => {
+      const write = jest.fn();
+      const logger = createJsonLogger({ write });
+
+      logger.error("failed", { error: new Error("boom") });
+
+      const entry = JSON.parse(write.mock.calls[0][0]);
+      expect(entry.error).toEqual(
+        expect.objectContaining({ name: "Error", message: "boom" })
+      );
+    });
+  });
+
+  describe("serializeLogFields", () => {
+    it("should leave values other than errors untouched", () => {
+      const fields = { count: 1, nested: { ok: true } };
+      expect(serializeLogFields(fields)).toEqual(fields);
+    });
+  });
+
+  describe("createSilentLogger", () => {
+    it("should discard every entry", () => {
+      const logger = createSilentLogger();
+
+      logger.error("error message");
+      logger.child({ runId: "run_1" }).warn("warn message");
+
+      expect(console.error).not.toHaveBeenCalled();
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("default logger", () => {
+    const originalLogger = getDefaultLogger();
+
+    afterEach(() => {
+      setDefaultLogger(originalLogger);
+    });
+
+    it("should be replaceable", () => {
+      const logger = createSilentLogger();
+      setDefaultLogger(logger);
+
+      expect(getDefaultLogger()).toBe(logger);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { createMetricsRegistry } from "../../src/metrics";
+
+describe("MetricsRegistry", () => {
+  it("should count each label combination separately", () => {
+    const registry = createMetricsRegistry();
+    const runs = registry.counter("runs_total", "Runs");
+
+    runs.inc({ workflow_id: "wf_1", outcome: "complete" });
+    runs.inc({ outcome: "complete", workflow_id: "wf_1" }, 2);
+    runs.inc({ workflow_id: "wf_1", outcome: "error" });
+
+    expect(runs.snapshot()).toEqual({
+      type: "counter",
+      name: "runs_total",
+      help: "Runs",
+      series: [
+        { labels: { workflow_id: "wf_1", outcome: "complete" }, value: 3 },
+        { labels: { workflow_id: "wf_1", outcome: "error" }, value: 1 },
+      ],
+    });
+  });
+
+  it("should refuse to decrease a counter", () => {
+    const runs = createMetricsRegistry().counter("runs_total", "Runs");
+
+    expect(() => runs.inc({}, -1)).toThrow(RangeError);
+  });
+
+  it("should count observations in cumulative buckets", () => {
+    const registry = createMetricsRegistry();
+    const duration = registry.histogram("duration_seconds", "Duration", [
+      5, 1,
+    ]);
+
+    duration.observe(0.5);
+    duration.observe(2);
+    duration.observe(10);
+
+    expect(duration.snapshot()).toEqual({
+      type: "histogram",
+      name: "duration_seconds",
+      help: "Duration",
+      buckets: [1, 5],
+      series: [{ labels: {}, count: 3, sum: 12.5, bucketCounts: [1, 2] }],
+    });
+  });
+
+  it("should return the existing metric with the same name", () => {
+    const registry = createMetricsRegistry();
+    const runs = registry.counter("runs_total", "Runs");
+
+    expect(registry.counter("runs_total", "Runs")).toBe(runs);
+    expect(() => registry.histogram("runs_total", "Runs")).toThrow(
+      "Metric runs_total is not a histogram"
+    );
+  });
+
+  it("should take snapshots that later updates do not change", () => {
+    const registry = createMetricsRegistry();
+    const runs = registry.counter("runs_total", "Runs");
+    runs.inc();
+
+    const snapshot = registry.snapshot();
+    runs.inc();
+
+    expect(snapshot).toEqual([
+      expect.objectContaining({ series: [{ labels: {}, value: 1 }] }),
+    ]);
+  });
+
+  it("should format the metrics in the Prometheus text format", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("runs_total", "Workflow runs").inc({ outcome: "ok" });
+    registry
+      .histogram("duration_seconds", "Run duration", [1, 5])
+      .observe(2, { workflow_id: "wf_1" });
+    registry.counter("reconnects_total", "Reconnects");
+
+    expect(registry.toPrometheus()).toBe(
+      [
+        "# HELP runs_total Workflow runs",
+        "# TYPE runs_total counter",
+        'runs_total{outcome="ok"} 1',
+        "# HELP duration_seconds Run duration",
+        "# TYPE duration_seconds histogram",
+        'duration_seconds_bucket{workflow_id="wf_1",le="1"} 0',
+        'duration_seconds_bucket{workflow_id="wf_1",le="5"} 1',
+        'duration_seconds_bucket{workflow_id="wf_1",le="+Inf"} 1',
+        'duration_seconds_sum{workflow_id="wf_1"} 2',
+        'duration_seconds_count{workflow_id="wf_1"} 1',
+        "# HELP reconnects_total Reconnects",
+        "# TYPE reconnects_total counter",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should escape help texts and label values", () => {
+    const registry = createMetricsRegistry();
+    registry
+      .counter("errors_total", "Errors\nby node")
+      .inc({ node: 'say "hi"\\' });
+
+    const lines = registry.toPrometheus().split("\n");
+    expect(lines[0]).toBe("# HELP errors_total Errors\\nby node");
+    expect(lines[2]).toBe('errors_total{node="say \\"hi\\"\\\\"} 1');
+  });
+
+  it("should forget every metric on reset", () => {
+    const registry = createMetricsRegistry();
+    registry.counter("runs_total", "Runs").inc();
+
+    registry.reset();
+
+    expect(registry.snapshot()).toEqual([]);
+    expect(registry.toPrometheus()).toBe("");
+  });
+});
@@ -0,0 +1,48 @@
+import * as sdk from "../../../src/node";
+import {
+  defaultFeedbackRequestHandler,
+  setFeedbackPrompt,
+} from "../../../src/handlers/defaultHandlers";
+
+const mockQuestion = jest.fn();
+
+jest.mock("readline", () => ({
+  createInterface: jest.fn(() => ({
+    question: mockQuestion,
+    close: jest.fn(),
+  })),
+}));
+
+describe("Node.js entry point", () => {
+  afterAll(() => {
+    setFeedbackPrompt();
+  });
+
+  it("should export the runtime-agnostic SDK", () => {
+    expect(typeof sdk.connectSocket).toBe("function");
+    expect(typeof sdk.runWorkflow).toBe("function");
+    expect(typeof sdk.PocketFlowClient).toBe("function");
+  });
+
+  it("should export the Node-only features", () => {
+    expect(typeof sdk.terminalFeedbackPrompt).toBe("function");
+    expect(typeof sdk.loadFeedbackAnswers).toBe("function");
+    expect(typeof sdk.createFileRecorder).toBe("function");
+    expect(typeof sdk.readRecording).toBe("function");
+    expect(typeof sdk.createFileSpanExporter).toBe("function");
+    expect(typeof sdk.createRunNodeReadable).toBe("function");
+    expect(sdk.env).toEqual(
+      expect.objectContaining({ API_KEY: process.env.POCKETFLOW_API_KEY })
+    );
+    expect(sdk.cli).toBeDefined();
+  });
+
+  it("should ask feedback requests in the terminal", async () => {
+    mockQuestion.mockImplementation((question, callback) => callback("typed"));
+
+    await expect(
+      defaultFeedbackRequestHandler({ prompt: "Title?" })
+    ).resolves.toBe("typed");
+    expect(mockQuestion).toHaveBeenCalledWith("Title?: ", expect.any(Function));
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createFileRecorder,
+  readRecording,
+} from "../../../src/node/recording-file";
+
+describe("createFileRecorder", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pocketflow-recording-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append every event to the file as it is recorded", () => {
+    const filePath = path.join(dir, "run.jsonl");
+    fs.writeFileSync(filePath, '{"event":"earlier"}\n');
+    const recorder = createFileRecorder(filePath);
+
+    recorder.record({
+      time: "2024-01-01T00:00:00.000Z",
+      direction: "in",
+      event: "run_start",
+      payload: {},
+    });
+
+    const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({ event: "run_start" });
+    recorder.close();
+  });
+
+  it("should ignore events recorded after it was closed", () => {
+    const filePath = path.join(dir, "run.jsonl");
+    const recorder = createFileRecorder(filePath);
+    recorder.close();
+
+    recorder.record({
+      time: "2024-01-01T00:00:00.000Z",
+      direction: "in",
+      event: "run_start",
+      payload: {},
+    });
+
+    expect(fs.readFileSync(filePath, "utf8")).toBe("");
+  });
+});
+
+describe("readRecording", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pocketflow-recording-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read back the events written by a file recorder", () => {
+    const filePath = path.join(dir, "run.jsonl");
+    const entry = {
+      time: "2024-01-01T00:00:00.000Z",
+      direction: "in" as const,
+      event: "run_start",
+      runId: "run-1",
+      payload: { runId: "run-1", message: "started" },
+    };
+    const recorder = createFileRecorder(filePath);
+    recorder.record(entry);
+    recorder.close();
+
+    expect(readRecording(filePath)).toEqual([entry]);
+  });
+
+  it("should throw when the file does not exist", () => {
+    expect(() => readRecording(path.join(dir, "missing.jsonl"))).toThrow();
+  });
+});
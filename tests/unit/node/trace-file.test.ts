@@ -0,0 +1,46 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createFileSpanExporter } from "../../../src/node/trace-file";
+import { createTracer } from "../../../src/tracing";
+
+describe("createFileSpanExporter", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pocketflow-trace-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append every span to the file as it ends", () => {
+    const filePath = path.join(dir, "spans.jsonl");
+    fs.writeFileSync(filePath, '{"name":"earlier"}\n');
+    const exporter = createFileSpanExporter(filePath);
+    const tracer = createTracer(exporter);
+
+    const runSpan = tracer.startSpan("run wf_1");
+    tracer.startSpan("node search", { parent: runSpan }).end();
+    runSpan.end();
+
+    const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).name)).toEqual([
+      "earlier",
+      "node search",
+      "run wf_1",
+    ]);
+    exporter.close();
+  });
+
+  it("should ignore spans exported after it was closed", () => {
+    const filePath = path.join(dir, "spans.jsonl");
+    const exporter = createFileSpanExporter(filePath);
+    exporter.close();
+
+    createTracer(exporter).startSpan("run wf_1").end();
+
+    expect(fs.readFileSync(filePath, "utf8")).toBe("");
+  });
+});
@@ -0,0 +1,167 @@
+import { createRedactor, redactLogger } from "../../src/redact";
+
+describe("Redactor", () => {
+  describe("redact", () => {
+    it("should mask the built-in sensitive keys at any depth", () => {
+      const redactor = createRedactor();
+
+      expect(
+        redactor.redact({
+          headers: { "X-API-Key": "key_12345678", Authorization: "Bearer abc" },
+          input: { query: "pocketflow", auth_token: "tok_1" },
+          config: { max_tokens: 100, password: "hunter2" },
+        })
+      ).toEqual({
+        headers: { "X-API-Key": "[REDACTED]", Authorization: "[REDACTED]" },
+        input: { query: "pocketflow", auth_token: "[REDACTED]" },
+        config: { max_tokens: 100, password: "[REDACTED]" },
+      });
+    });
+
+    it("should mask user-designated key paths, with wildcards", () => {
+      const redactor = createRedactor({
+        paths: ["input.email", "state.users.*.ssn"],
+      });
+
+      expect(
+        redactor.redact({
+          input: { email: "a@example.com", name: "Ada" },
+          state: { users: [{ ssn: "123", name: "Ada" }] },
+        })
+      ).toEqual({
+        input: { email: "[REDACTED]", name: "Ada" },
+        state: { users: [{ ssn: "[REDACTED]", name: "Ada" }] },
+      });
+    });
+
+    it("should mask keys matching user-designated patterns", () => {
+      const redactor = createRedactor({
+        keys: [/^ssn$/i, "phone"],
+        mask: "***",
+      });
+
+      expect(
+        redactor.redact({ SSN: "123", phone: "555", city: "Paris" })
+      ).toEqual({ SSN: "***", phone: "***", city: "Paris" });
+    });
+
+    it("should mask secrets inside strings and leave the original untouched", () => {
+      const redactor = createRedactor({ secrets: ["s3cr3t-value"] });
+      const value = {
+        message: "token s3cr3t-value was rejected",
+        nested: ["s3cr3t-value"],
+      };
+
+      expect(redactor.redact(value)).toEqual({
+        message: "token [REDACTED] was rejected",
+        nested: ["[REDACTED]"],
+      });
+      expect(value.message).toBe("token s3cr3t-value was rejected");
+    });
+
+    it("should redact errors without losing their class", () => {
+      class CustomError extends Error {}
+      const redactor = createRedactor({ secrets: ["s3cr3t-value"] });
+
+      const redacted = redactor.redact({
+        error: new CustomError("bad s3cr3t-value"),
+      });
+
+      expect(redacted.error).toBeInstanceOf(CustomError);
+      expect(redacted.error.message).toBe("bad [REDACTED]");
+    });
+
+    it("should handle circular references", () => {
+      const redactor = createRedactor();
+      const value: any = { password: "hunter2" };
+      value.self = value;
+
+      const redacted = redactor.redact(value);
+
+      expect(redacted.password).toBe("[REDACTED]");
+      expect(redacted.self).toBe(redacted);
+    });
+  });
+
+  describe("redactText", () => {
+    it("should mask bearer credentials", () => {
+      expect(
+        createRedactor().redactText("Authorization: Bearer abc.def-123")
+      ).toBe("Authorization: Bearer [REDACTED]");
+    });
+  });
+
+  describe("redactError", () => {
+    it("should mask secrets in the message and stack in place", () => {
+      const error = new Error("key_12345678 is invalid");
+
+      expect(
+        createRedactor().withSecrets("key_12345678").redactError(error)
+      ).toBe(error);
+      expect(error.message).toBe("[REDACTED] is invalid");
+      expect(error.stack).not.toContain("key_12345678");
+    });
+  });
+
+  describe("withSecrets", () => {
+    it("should ignore missing secrets", () => {
+      const redactor = createRedactor().withSecrets(undefined, "");
+
+      expect(redactor.redactText("nothing to hide")).toBe("nothing to hide");
+    });
+    it("should only mask short secrets that make up a whole string", () => {
+      const redactor = createRedactor().withSecrets("k");
+      redactor.addSecrets("abc");
+
+      expect(redactor.redactText("Socket connected")).toBe("Socket connected");
+      expect(redactor.redactText("k")).toBe("[REDACTED]");
+      expect(redactor.redact({ note: "abc", other: "abcd" })).toEqual({
+        note: "[REDACTED]",
+        other: "abcd",
+      });
+    });
+  });
+
+  describe("addSecrets", () => {
+    it("should mask the added secrets in everything that shares the redactor", () => {
+      const redactor = createRedactor({ secrets: ["key_live_1"] });
+      const extended = redactor.withSecrets("key_live_2");
+
+      redactor.addSecrets("token_live_3", undefined);
+
+      expect(redactor.redactText("key_live_1 token_live_3")).toBe(
+        "[REDACTED] [REDACTED]"
+      );
+      expect(extended.redactText("token_live_3")).toBe("token_live_3");
+      expect(redactor.withSecrets().redactText("token_live_3")).toBe(
+        "[REDACTED]"
+      );
+    });
+  });
+
+  describe("redactLogger", () => {
+    it("should redact messages, fields and child fields", () => {
+      const entries: any[] = [];
+      const logger: any = {
+        debug: jest.fn(),
+        info: (message: string, fields?: any) =>
+          entries.push([message, fields]),
+        warn: jest.fn(),
+        error: jest.fn(),
+        child: jest.fn(() => logger),
+      };
+      const redactor = createRedactor({ secrets: ["key_12345678"] });
+
+      redactLogger(logger, redactor)
+        .child({ apiKey: "key_12345678" })
+        .info("using key_12345678", {
+          headers: { "X-API-Key": "key_12345678" },
+        });
+
+      expect(logger.child).toHaveBeenCalledWith({ apiKey: "[REDACTED]" });
+      expect(entries).toEqual([
+        ["using [REDACTED]", { headers: { "X-API-Key": "[REDACTED]" } }],
+      ]);
+    });
+  });
+});
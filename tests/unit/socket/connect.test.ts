@@ -4,6 +4,10 @@ import {
   SocketConnectionError,
 } from "../../../src/socket/connect";
 import { MockSocket, mockIo } from "../../mocks/socket.mock";
+import { AbortError } from "../../../src/abort";
+import { createMetricsRegistry } from "../../../src/metrics";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { FeedbackRequiredError } from "../../../src/socket/feedback-policy";
 
 // Import the mock module to access the mock implementation
 jest.mock("socket.io-client", () => {
@@ -355,4 +359,470 @@ describe("connectSocket", () => {
     expect(mockDisconnect).toHaveBeenCalled();
     expect(mockRemoveAllListeners).toHaveBeenCalled();
   }, 10000); // Increase timeout for this test
+
+  it("should reject with an AbortError when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      originalConnectSocket("api.pocketflow.ai", { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(mockIo).not.toHaveBeenCalled();
+  });
+
+  it("should tear down a pending connection when the signal aborts", async () => {
+    // Keep the socket from ever connecting
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      socket.connect = jest.fn().mockReturnValue(socket);
+      return socket;
+    });
+    const controller = new AbortController();
+
+    const promise = originalConnectSocket("api.pocketflow.ai", {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(socket.disconnect).toHaveBeenCalled();
+    expect(socket.removeAllListeners).not.toHaveBeenCalled();
+    expect(Object.values(socket.eventHandlers).flat()).toHaveLength(0);
+  });
+
+  it("should only remove its own listeners when the connection closes", async () => {
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      return socket;
+    });
+
+    const connection = await originalConnectSocket("api.pocketflow.ai");
+    const callerListener = jest.fn();
+    connection.socket.on("stream_output", callerListener);
+
+    await connection.close();
+
+    expect(connection.state).toBe("disconnected");
+    expect(socket.removeAllListeners).not.toHaveBeenCalled();
+    expect(socket.eventHandlers["stream_output"]).toEqual([callerListener]);
+    expect(socket.eventHandlers["workflow_log"]).toEqual([]);
+  });
+
+  it("should echo the runId of a feedback request in the response", async () => {
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      return socket;
+    });
+
+    await originalConnectSocket("api.pocketflow.ai", {
+      handleFeedback: () => "approved",
+    });
+    socket.emit("feedback_request", { runId: "run-1", prompt: "Continue?" });
+
+    expect(socket.emit).toHaveBeenCalledWith("feedback_response", {
+      runId: "run-1",
+      kind: "text",
+      input: "approved",
+    });
+  });
+
+  it("should record the feedback responses it sends", async () => {
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      return socket;
+    });
+    const record = jest.fn();
+
+    await originalConnectSocket("api.pocketflow.ai", {
+      handleFeedback: () => "approved",
+      recorder: { record },
+    });
+    socket.emit("feedback_request", { runId: "run-1", prompt: "Continue?" });
+
+    expect(record).toHaveBeenCalledWith({
+      time: expect.any(String),
+      direction: "out",
+      event: "feedback_response",
+      runId: "run-1",
+      payload: { runId: "run-1", kind: "text", input: "approved" },
+    });
+  });
+
+  it("should pause the watchdog of a run until its feedback is answered", async () => {
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      return socket;
+    });
+    let answer!: (input: string) => void;
+
+    const connection = await originalConnectSocket("api.pocketflow.ai", {
+      handleFeedback: () =>
+        new Promise<string>((resolve) => (answer = resolve)),
+    });
+    const run = runWorkflow(
+      connection,
+      "wf-a",
+      "test-token",
+      {},
+      { watchdog: { idleTimeout: 20 } }
+    );
+    socket.emit("feedback_request", { runId: run.runId, prompt: "Continue?" });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(run.status).toBe("running");
+
+    answer("approved");
+    await expect(run.result).rejects.toMatchObject({ limit: "idle" });
+    expect(socket.emit).toHaveBeenCalledWith("feedback_response", {
+      runId: run.runId,
+      kind: "text",
+      input: "approved",
+    });
+  });
+
+  it("should only warn about disconnects the client did not ask for", async () => {
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      return socket;
+    });
+    const logger: any = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    logger.child = () => logger;
+
+    const connection = await originalConnectSocket("api.pocketflow.ai", {
+      logger,
+    });
+    socket.emit("disconnect", "transport close");
+    socket.emit("connect");
+    await connection.close();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Socket disconnected: transport close",
+      expect.objectContaining({ reason: "transport close" })
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Socket disconnected: io client disconnect",
+      expect.objectContaining({ reason: "io client disconnect" })
+    );
+    expect(logger.warn).not.toHaveBeenCalledWith(
+      "Socket disconnected: io client disconnect",
+      expect.anything()
+    );
+  });
+
+  it("should record how long feedback requests wait and how often it reconnects", async () => {
+    (mockIo as jest.Mock).mockReset();
+    (mockIo as jest.Mock).mockImplementation(() => {
+      socket = new MockSocket();
+      return socket;
+    });
+    const metrics = createMetricsRegistry();
+
+    await originalConnectSocket("api.pocketflow.ai", {
+      handleFeedback: () => "approved",
+      metrics,
+    });
+    socket.emit("feedback_request", { runId: "run-1", prompt: "Continue?" });
+    socket.emit("disconnect", "transport close");
+    socket.emit("connect");
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot).toContainEqual(
+      expect.objectContaining({
+        name: "pocketflow_feedback_wait_seconds",
+        series: [
+          expect.objectContaining({ labels: { kind: "text" }, count: 1 }),
+        ],
+      })
+    );
+    expect(snapshot).toContainEqual(
+      expect.objectContaining({
+        name: "pocketflow_reconnects_total",
+        series: [{ labels: {}, value: 1 }],
+      })
+    );
+  });
+
+  describe("typed feedback", () => {
+    const connectWithFeedback = async (handleFeedback: (request: any) => any) => {
+      (mockIo as jest.Mock).mockReset();
+      (mockIo as jest.Mock).mockImplementation(() => {
+        socket = new MockSocket();
+        return socket;
+      });
+      await originalConnectSocket("api.pocketflow.ai", { handleFeedback });
+    };
+
+    it("should pass the typed request to the handler and echo the request ID", async () => {
+      const handleFeedback = jest.fn().mockReturnValue(["a", "c"]);
+      await connectWithFeedback(handleFeedback);
+
+      socket.emit("feedback_request", {
+        runId: "run-1",
+        requestId: "req-1",
+        kind: "multi-choice",
+        prompt: "Pick",
+        choices: ["a", "b", "c"],
+      });
+
+      expect(handleFeedback).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: "multi-choice", choices: ["a", "b", "c"] })
+      );
+      expect(socket.emit).toHaveBeenCalledWith("feedback_response", {
+        runId: "run-1",
+        requestId: "req-1",
+        kind: "multi-choice",
+        input: ["a", "c"],
+      });
+    });
+
+    it("should treat requests without a kind as text requests", async () => {
+      const handleFeedback = jest.fn().mockReturnValue({ approved: true });
+      await connectWithFeedback(handleFeedback);
+
+      socket.emit("feedback_request", { prompt: "Continue?" });
+
+      expect(handleFeedback).toHaveBeenCalledWith({ kind: "text", prompt: "Continue?" });
+      expect(socket.emit).toHaveBeenCalledWith("feedback_response", {
+        kind: "text",
+        input: { approved: true },
+      });
+    });
+
+    it("should answer with an error when the feedback policy refuses to ask", async () => {
+      const handleFeedback = jest.fn();
+      (mockIo as jest.Mock).mockReset();
+      (mockIo as jest.Mock).mockImplementation(() => {
+        socket = new MockSocket();
+        return socket;
+      });
+      await originalConnectSocket("api.pocketflow.ai", {
+        handleFeedback,
+        feedbackPolicy: "fail",
+      });
+
+      socket.emit("feedback_request", { runId: "run-1", prompt: "Continue?" });
+
+      expect(handleFeedback).not.toHaveBeenCalled();
+      expect(socket.emit).toHaveBeenCalledWith("feedback_response", {
+        runId: "run-1",
+        kind: "text",
+        input: null,
+        error:
+          "Feedback required but the feedback policy does not allow asking: Continue?",
+      });
+    });
+
+    it("should fail the run when the feedback policy refuses to ask", async () => {
+      (mockIo as jest.Mock).mockReset();
+      (mockIo as jest.Mock).mockImplementation(() => {
+        socket = new MockSocket();
+        return socket;
+      });
+      const connection = await originalConnectSocket("api.pocketflow.ai", {
+        handleFeedback: () => new Promise(() => {}),
+        feedbackPolicy: { timeout: 10, fallback: "fail" },
+      });
+      const run = runWorkflow(connection, "wf-a", "test-token", {});
+
+      socket.emit("feedback_request", { runId: run.runId, prompt: "Continue?" });
+
+      await expect(run.result).rejects.toThrow(FeedbackRequiredError);
+      expect(socket.emit).toHaveBeenCalledWith(
+        "feedback_response",
+        expect.objectContaining({ runId: run.runId, input: null })
+      );
+    });
+
+    it("should answer with an error when the handler returns an invalid value", async () => {
+      await connectWithFeedback(() => 42);
+
+      socket.emit("feedback_request", {
+        runId: "run-1",
+        kind: "number",
+        prompt: "How many?",
+        max: 10,
+      });
+      await Promise.resolve();
+
+      expect(socket.emit).toHaveBeenCalledWith("feedback_response", {
+        runId: "run-1",
+        kind: "number",
+        input: null,
+        error: "Invalid feedback: Enter a number of at most 10",
+      });
+    });
+  });
+
+  describe("credentials provider", () => {
+    let ioOptions: any;
+
+    beforeEach(() => {
+      (mockIo as jest.Mock).mockReset();
+      (mockIo as jest.Mock).mockImplementation((_url: string, opts: any) => {
+        ioOptions = opts;
+        socket = new MockSocket();
+        return socket;
+      });
+    });
+
+    const authenticate = () =>
+      new Promise<object>((resolve) => ioOptions.auth(resolve));
+
+    it("should ask the provider for a token on every connection attempt", async () => {
+      const credentials = jest
+        .fn()
+        .mockResolvedValueOnce("token_1")
+        .mockResolvedValueOnce("token_2");
+
+      const connecting = originalConnectSocket("api.pocketflow.ai", {
+        credentials,
+      });
+      await expect(authenticate()).resolves.toEqual({ token: "token_1" });
+      await connecting;
+      await expect(authenticate()).resolves.toEqual({ token: "token_2" });
+
+      expect(credentials).toHaveBeenNthCalledWith(1, {
+        reason: "connect",
+        forceRefresh: false,
+      });
+      expect(credentials).toHaveBeenNthCalledWith(2, {
+        reason: "reconnect",
+        forceRefresh: false,
+      });
+    });
+
+    it("should retry once with fresh credentials when the server rejects them", async () => {
+      const credentials = jest.fn().mockResolvedValue("token");
+      let attempts = 0;
+      (mockIo as jest.Mock).mockImplementation((_url: string, opts: any) => {
+        ioOptions = opts;
+        socket = new MockSocket();
+        // Like socket.io, authenticate on every connection attempt
+        socket.connect = jest.fn().mockImplementation(() => {
+          attempts += 1;
+          ioOptions.auth(() => {
+            if (attempts === 1) {
+              socket.emit("connect_error", new Error("unauthorized"));
+            } else {
+              socket.emit("connect");
+            }
+          });
+          return socket;
+        });
+        return socket;
+      });
+
+      await originalConnectSocket("api.pocketflow.ai", { credentials });
+
+      expect(attempts).toBe(2);
+      expect(credentials.mock.calls).toEqual([
+        [{ reason: "connect", forceRefresh: false }],
+        [{ reason: "connect", forceRefresh: true }],
+      ]);
+    });
+
+    it("should fail when the fresh credentials are rejected too", async () => {
+      const credentials = jest.fn().mockResolvedValue("token");
+      (mockIo as jest.Mock).mockImplementation((_url: string, opts: any) => {
+        ioOptions = opts;
+        socket = new MockSocket();
+        socket.connect = jest.fn().mockImplementation(() => {
+          setTimeout(() => {
+            socket.emit("connect_error", new Error("unauthorized"));
+          }, 10);
+          return socket;
+        });
+        return socket;
+      });
+
+      await expect(
+        originalConnectSocket("api.pocketflow.ai", { credentials })
+      ).rejects.toThrow(SocketConnectionError);
+      expect(socket.connect).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry static tokens", async () => {
+      (mockIo as jest.Mock).mockImplementation((_url: string, opts: any) => {
+        ioOptions = opts;
+        socket = new MockSocket();
+        socket.connect = jest.fn().mockImplementation(() => {
+          setTimeout(() => {
+            socket.emit("connect_error", new Error("unauthorized"));
+          }, 10);
+          return socket;
+        });
+        return socket;
+      });
+
+      await expect(
+        originalConnectSocket("api.pocketflow.ai", { credentials: "token" })
+      ).rejects.toThrow(SocketConnectionError);
+      expect(ioOptions.auth).toEqual({ token: "token" });
+      expect(socket.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mask the tokens it resolves in logged errors", async () => {
+      const errors: any[] = [];
+      const logger: any = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: (message: string, fields?: any) => errors.push(fields),
+      };
+      logger.child = () => logger;
+      const credentials = jest.fn().mockResolvedValue("tok_live_42");
+
+      const connecting = originalConnectSocket("api.pocketflow.ai", {
+        credentials,
+        logger,
+        handleFeedback: () => {
+          throw new Error("Token tok_live_42 was rejected");
+        },
+      });
+      await authenticate();
+      await connecting;
+      socket.emit("feedback_request", { runId: "run-1", prompt: "Continue?" });
+
+      expect(errors).toEqual([
+        {
+          runId: "run-1",
+          error: expect.objectContaining({
+            message: "Token [REDACTED] was rejected",
+          }),
+        },
+      ]);
+    });
+
+    it("should mask static credentials in logged errors", async () => {
+      const errors: any[] = [];
+      const logger: any = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: (message: string, fields?: any) => errors.push(fields),
+      };
+      logger.child = () => logger;
+
+      await originalConnectSocket("api.pocketflow.ai", {
+        credentials: "tok_static_7",
+        logger,
+        handleFeedback: () => {
+          throw new Error("Token tok_static_7 was rejected");
+        },
+      });
+      socket.emit("feedback_request", { runId: "run-1", prompt: "Continue?" });
+
+      expect(errors[0].error.message).toBe("Token [REDACTED] was rejected");
+    });
+  });
 });
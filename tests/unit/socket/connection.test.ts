@@ -0,0 +1,387 @@
+import { Socket } from "socket.io-client";
+import {
+  ConnectionStateChange,
+  PocketFlowConnection,
+} from "../../../src/socket/connection";
+import { runWorkflow } from "../../../src/socket/workflow";
+import {
+  WorkflowDisconnectedError,
+  WorkflowError,
+} from "../../../src/socket/errors";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("PocketFlowConnection", () => {
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+  let mockSocket: MockSocket;
+  let connection: PocketFlowConnection;
+  let changes: ConnectionStateChange[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+    connection = new PocketFlowConnection(
+      mockSocket as unknown as Socket,
+      logger
+    );
+    changes = [];
+    connection.onStateChange((change) => changes.push(change));
+  });
+
+  const managerListener = (event: string) =>
+    mockSocket.io.on.mock.calls.find(([name]) => name === event)![1];
+
+  const completeRun = (runId: string) =>
+    mockSocket.emit("run_complete", {
+      runId,
+      message: "done",
+      state: {},
+      warning: false,
+    });
+
+  describe("state", () => {
+    it("should start out connecting", () => {
+      expect(connection.state).toBe("connecting");
+      expect(connection.active).toBe(true);
+      expect(connection.connected).toBe(false);
+    });
+
+    it("should report every state change", () => {
+      mockSocket.emit("connect");
+      mockSocket.emit("disconnect", "transport close");
+      managerListener("reconnect_attempt")(1);
+      mockSocket.emit("connect");
+
+      expect(changes).toEqual([
+        { state: "connected", previous: "connecting" },
+        {
+          state: "reconnecting",
+          previous: "connected",
+          reason: "transport close",
+        },
+        { state: "connected", previous: "reconnecting" },
+      ]);
+    });
+
+    it("should be disconnected when the server closes the connection", () => {
+      mockSocket.emit("connect");
+      mockSocket.emit("disconnect", "io server disconnect");
+
+      expect(connection.state).toBe("disconnected");
+      expect(connection.active).toBe(false);
+    });
+
+    it("should fail when reconnecting gives up", () => {
+      mockSocket.emit("connect");
+      mockSocket.emit("disconnect", "transport close");
+      managerListener("reconnect_failed")();
+
+      expect(connection.state).toBe("failed");
+      expect(changes[changes.length - 1].error).toBeInstanceOf(Error);
+    });
+
+    it("should stay failed once torn down after a failure", () => {
+      const error = new Error("refused");
+      connection.fail(error);
+
+      expect(connection.state).toBe("failed");
+      expect(changes).toEqual([
+        { state: "failed", previous: "connecting", error },
+      ]);
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+    });
+
+    it("should stop reporting to listeners that unsubscribed", () => {
+      const listener = jest.fn();
+      const unsubscribe = connection.onStateChange(listener);
+      unsubscribe();
+
+      mockSocket.emit("connect");
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should keep reporting when a listener throws", () => {
+      connection.onStateChange(() => {
+        throw new Error("listener failed");
+      });
+
+      mockSocket.emit("connect");
+
+      expect(connection.state).toBe("connected");
+      expect(logger.error).toHaveBeenCalledWith(
+        "Error in connection state listener",
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("listeners", () => {
+    it("should remove only the listeners registered through it", async () => {
+      const ownListener = jest.fn();
+      const foreignListener = jest.fn();
+      connection.on("stream_output", ownListener);
+      connection.onManager("reconnect_error", ownListener);
+      mockSocket.on("stream_output", foreignListener);
+
+      await connection.close();
+
+      expect(mockSocket.removeAllListeners).not.toHaveBeenCalled();
+      expect(mockSocket.eventHandlers["stream_output"]).toEqual([
+        foreignListener,
+      ]);
+      expect(mockSocket.io.off).toHaveBeenCalledWith(
+        "reconnect_error",
+        ownListener
+      );
+    });
+
+    it("should let listeners see the disconnect when closing", async () => {
+      const listener = jest.fn();
+      connection.on("disconnect", listener);
+
+      await connection.close();
+
+      expect(listener).toHaveBeenCalledWith("io client disconnect");
+    });
+
+    it("should call a once listener a single time", () => {
+      const listener = jest.fn();
+      connection.once("connect", listener);
+
+      mockSocket.emit("connect");
+      mockSocket.emit("connect");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should remove a listener with the returned function", () => {
+      const listener = jest.fn();
+      const remove = connection.on("stream_output", listener);
+      remove();
+
+      mockSocket.emit("stream_output", {});
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("outbound queue", () => {
+    const reconnect = () => {
+      mockSocket.emit("disconnect", "transport close");
+      managerListener("reconnect_attempt")(1);
+    };
+
+    beforeEach(() => {
+      mockSocket.emit("connect");
+    });
+
+    it("should send events right away while connected", () => {
+      connection.emit("feedback_response", { runId: "run-1", input: "yes" });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith("feedback_response", {
+        runId: "run-1",
+        input: "yes",
+      });
+      expect(connection.queueDepth).toBe(0);
+    });
+
+    it("should hold events until the socket reconnects", () => {
+      reconnect();
+      connection.emit("feedback_response", { runId: "run-1", input: "yes" });
+
+      expect(connection.queueDepth).toBe(1);
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        "feedback_response",
+        expect.anything()
+      );
+
+      mockSocket.emit("connect");
+
+      expect(connection.queueDepth).toBe(0);
+      expect(mockSocket.emit).toHaveBeenCalledWith("feedback_response", {
+        runId: "run-1",
+        input: "yes",
+      });
+    });
+
+    it("should request a run started while reconnecting once connected", () => {
+      reconnect();
+      const run = runWorkflow(connection, "test-workflow-id", "test-token", {});
+
+      mockSocket.emit("connect");
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "run_workflow",
+        expect.objectContaining({ runId: run.runId }),
+        expect.any(Function)
+      );
+    });
+
+    it("should fail a run whose request is dropped", async () => {
+      connection = new PocketFlowConnection(
+        mockSocket as unknown as Socket,
+        logger,
+        { maxSize: 0 }
+      );
+      mockSocket.emit("connect");
+      reconnect();
+      const drops: any[] = [];
+      connection.onQueueDrop((drop) => drops.push(drop));
+
+      const run = runWorkflow(connection, "test-workflow-id", "test-token", {});
+
+      await expect(run.result).rejects.toThrow(
+        "Workflow run request was dropped while the socket was disconnected: full"
+      );
+      expect(drops).toEqual([
+        expect.objectContaining({ event: "run_workflow", runId: run.runId }),
+      ]);
+    });
+
+    it("should drop queued events when the connection closes", async () => {
+      reconnect();
+      const drops: any[] = [];
+      connection.onQueueDrop((drop) => drops.push(drop));
+      connection.emit("feedback_response", { runId: "run-1", input: "yes" });
+
+      await connection.close({ drain: false });
+
+      expect(drops).toEqual([
+        expect.objectContaining({
+          event: "feedback_response",
+          reason: "closed",
+        }),
+      ]);
+    });
+  });
+
+  describe("close", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockSocket.emit("connect");
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should close right away when nothing is in progress", async () => {
+      await connection.close();
+
+      expect(mockSocket.disconnect).toHaveBeenCalledTimes(1);
+      expect(connection.state).toBe("disconnected");
+    });
+
+    it("should wait for runs in progress before disconnecting", async () => {
+      const run = runWorkflow(connection, "test-workflow-id", "test-token", {});
+      let closed = false;
+      const closing = connection.close().then(() => {
+        closed = true;
+      });
+
+      await Promise.resolve();
+      expect(closed).toBe(false);
+      expect(mockSocket.disconnect).not.toHaveBeenCalled();
+
+      completeRun(run.runId);
+      await closing;
+
+      expect(mockSocket.disconnect).toHaveBeenCalledTimes(1);
+      await expect(run.result).resolves.toMatchObject({ message: "done" });
+    });
+
+    it("should refuse new runs while draining", () => {
+      runWorkflow(connection, "test-workflow-id", "test-token", {});
+      connection.close();
+
+      expect(() =>
+        runWorkflow(connection, "test-workflow-id", "test-token", {})
+      ).toThrow(WorkflowError);
+    });
+
+    it("should close anyway once the drain timeout passes", async () => {
+      const run = runWorkflow(connection, "test-workflow-id", "test-token", {});
+      const closing = connection.close({ timeout: 1000 });
+
+      jest.advanceTimersByTime(1000);
+      await closing;
+
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Closing connection with work still in progress after 1000ms",
+        { pending: 1 }
+      );
+      await expect(run.result).rejects.toThrow(
+        "Socket disconnected before the workflow completed"
+      );
+    });
+
+    it("should fail the runs of a connection closed while reconnecting", async () => {
+      const run = runWorkflow(connection, "test-workflow-id", "test-token", {});
+      mockSocket.emit("disconnect", "transport close");
+      mockSocket.connected = false;
+      managerListener("reconnect_attempt")(1);
+
+      const closing = connection.close({ timeout: 500 });
+      jest.advanceTimersByTime(500);
+      await closing;
+
+      expect(connection.state).toBe("disconnected");
+      await expect(run.result).rejects.toThrow(
+        "Socket disconnected before the workflow completed: connection closed"
+      );
+    });
+
+    it("should fail retried runs without another attempt when closed while reconnecting", async () => {
+      const run = runWorkflow(
+        connection,
+        "test-workflow-id",
+        "test-token",
+        {},
+        { retry: { initialDelay: 10, jitter: 0 } }
+      );
+      mockSocket.emit("disconnect", "transport close");
+      mockSocket.connected = false;
+      managerListener("reconnect_attempt")(1);
+
+      await connection.close({ drain: false });
+      await jest.advanceTimersByTimeAsync(100);
+
+      await expect(run.result).rejects.toBeInstanceOf(
+        WorkflowDisconnectedError
+      );
+      expect(run.attempts).toHaveLength(1);
+    });
+
+    it("should not wait when drain is disabled", async () => {
+      const run = runWorkflow(connection, "test-workflow-id", "test-token", {});
+
+      await connection.close({ drain: false });
+
+      expect(mockSocket.disconnect).toHaveBeenCalled();
+      await expect(run.result).rejects.toBeInstanceOf(WorkflowError);
+    });
+
+    it("should return the same promise when called again", () => {
+      runWorkflow(connection, "test-workflow-id", "test-token", {});
+
+      expect(connection.close()).toBe(connection.close());
+    });
+
+    it("should disconnect immediately during a drain", () => {
+      runWorkflow(connection, "test-workflow-id", "test-token", {});
+      connection.close();
+
+      connection.disconnect();
+
+      expect(mockSocket.disconnect).toHaveBeenCalledTimes(1);
+      expect(connection.state).toBe("disconnected");
+    });
+  });
+});
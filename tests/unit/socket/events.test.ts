@@ -0,0 +1,150 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { WorkflowEvent } from "../../../src/socket/events";
+import { WorkflowRunError } from "../../../src/socket/errors";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("WorkflowRun.events", () => {
+  let mockSocket: MockSocket;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+  });
+
+  const startRun = () =>
+    runWorkflow(mockSocket as unknown as Socket, "test-workflow-id", "test-token", {});
+
+  const streamOutput = (node: string) => ({
+    type: "node_update",
+    node,
+    state: {},
+    action: "default",
+    isError: false,
+  });
+
+  const complete = { message: "done", state: {}, warning: false };
+
+  const collect = async (events: AsyncIterable<WorkflowEvent>) => {
+    const collected: WorkflowEvent[] = [];
+    for await (const event of events) {
+      collected.push(event);
+    }
+    return collected;
+  };
+
+  it("should yield events in order and end after run_complete", async () => {
+    const run = startRun();
+    const events = run.events();
+
+    mockSocket.emit("run_start", { message: "started" });
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("run_complete", complete);
+
+    expect((await collect(events)).map((event) => event.type)).toEqual([
+      "run_start",
+      "stream_output",
+      "run_complete",
+    ]);
+  });
+
+  it("should include workflow logs and feedback requests of the run", async () => {
+    const run = startRun();
+    const events = run.events();
+
+    mockSocket.emit("workflow_log", { runId: run.runId, message: "hello" });
+    mockSocket.emit("feedback_request", { runId: run.runId, prompt: "Continue?" });
+    mockSocket.emit("run_complete", { ...complete, runId: run.runId });
+
+    const collected = await collect(events);
+    expect(collected[0]).toEqual({
+      type: "workflow_log",
+      data: { runId: run.runId, message: "hello" },
+    });
+    expect(collected[1].type).toBe("feedback_request");
+  });
+
+  it("should deliver events to a consumer that is already waiting", async () => {
+    const run = startRun();
+    const events = run.events();
+
+    const next = events.next();
+    mockSocket.emit("stream_output", streamOutput("search"));
+
+    await expect(next).resolves.toEqual({
+      value: { type: "stream_output", data: streamOutput("search") },
+      done: false,
+    });
+  });
+
+  it("should throw the run error after the buffered events", async () => {
+    const run = startRun();
+    const events = run.events();
+    const seen: string[] = [];
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("run_error", { message: "boom" });
+
+    await expect(
+      (async () => {
+        for await (const event of events) {
+          seen.push(event.type);
+        }
+      })()
+    ).rejects.toBeInstanceOf(WorkflowRunError);
+    expect(seen).toEqual(["stream_output"]);
+  });
+
+  it("should stop listening when the consumer breaks out early", async () => {
+    const run = startRun();
+    const events = run.events();
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    for await (const event of events) {
+      expect(event.type).toBe("stream_output");
+      break;
+    }
+    mockSocket.emit("stream_output", streamOutput("rank"));
+
+    await expect(events.next()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it("should drop the oldest events when the buffer is full and asked to", async () => {
+    const run = startRun();
+    const events = run.events({ maxBufferedEvents: 2, overflow: "drop-oldest" });
+
+    mockSocket.emit("stream_output", streamOutput("a"));
+    mockSocket.emit("stream_output", streamOutput("b"));
+    mockSocket.emit("stream_output", streamOutput("c"));
+    mockSocket.emit("run_complete", complete);
+
+    const nodes = (await collect(events)).map((event) =>
+      event.type === "stream_output" ? event.data.node : event.type
+    );
+    expect(nodes).toEqual(["c", "run_complete"]);
+  });
+
+  it("should fail the iteration when the buffer overflows", async () => {
+    const run = startRun();
+    const events = run.events({ maxBufferedEvents: 1 });
+
+    mockSocket.emit("stream_output", streamOutput("a"));
+    mockSocket.emit("stream_output", streamOutput("b"));
+
+    await expect(events.next()).rejects.toThrow(
+      "More than 1 workflow events were buffered"
+    );
+    expect(run.status).toBe("running");
+  });
+
+  it("should end right away for a run that has already completed", async () => {
+    const run = startRun();
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    await expect(collect(run.events())).resolves.toEqual([]);
+  });
+});
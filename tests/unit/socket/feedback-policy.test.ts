@@ -0,0 +1,167 @@
+import {
+  answerFeedback,
+  FeedbackRequiredError,
+} from "../../../src/socket/feedback-policy";
+import { FeedbackRequest } from "../../../src/feedback";
+
+describe("Feedback policies", () => {
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+  const request: FeedbackRequest = {
+    runId: "run-1",
+    kind: "text",
+    prompt: "Title?",
+    defaultValue: "Untitled",
+  };
+  const originalIsTTY = process.stdin.isTTY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.stdin.isTTY = originalIsTTY;
+  });
+
+  it("should call the handler with the ask policy", () => {
+    const handler = jest.fn().mockReturnValue("My title");
+
+    expect(answerFeedback(request, handler, "ask", logger, false)).toBe(
+      "My title"
+    );
+    expect(handler).toHaveBeenCalledWith(request);
+    expect(logger.info).toHaveBeenCalledWith(
+      "Asking the feedback handler to answer the request",
+      { runId: "run-1", requestId: undefined, kind: "text" }
+    );
+  });
+
+  it("should answer with the default value without asking", () => {
+    const handler = jest.fn();
+
+    expect(answerFeedback(request, handler, "defaults", logger, false)).toBe(
+      "Untitled"
+    );
+    expect(handler).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith(
+      "Answered feedback request with its default value",
+      { runId: "run-1", requestId: undefined, kind: "text" }
+    );
+  });
+
+  it("should fail required requests without a default value", () => {
+    const required: FeedbackRequest = {
+      kind: "confirm",
+      prompt: "Publish?",
+      required: true,
+    };
+
+    expect(() =>
+      answerFeedback(required, jest.fn(), "defaults", logger, false)
+    ).toThrow(FeedbackRequiredError);
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it("should fail every request with the fail policy", () => {
+    const handler = jest.fn();
+
+    expect(() => answerFeedback(request, handler, "fail", logger, false)).toThrow(
+      "Feedback required but the feedback policy does not allow asking: Title?"
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  describe("auto", () => {
+    it("should ask a custom handler", () => {
+      process.stdin.isTTY = false;
+      const handler = jest.fn().mockReturnValue("My title");
+
+      expect(answerFeedback(request, handler, "auto", logger, true)).toBe(
+        "My title"
+      );
+    });
+
+    it("should prompt when stdin is a terminal", () => {
+      process.stdin.isTTY = true;
+      const handler = jest.fn().mockReturnValue("My title");
+
+      expect(answerFeedback(request, handler, "auto", logger, false)).toBe(
+        "My title"
+      );
+    });
+
+    it("should answer with defaults when stdin is not a terminal", () => {
+      process.stdin.isTTY = false;
+      const handler = jest.fn();
+
+      expect(answerFeedback(request, handler, "auto", logger, false)).toBe(
+        "Untitled"
+      );
+      expect(handler).not.toHaveBeenCalled();
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Feedback policy "auto" resolved to "defaults"',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("timeout", () => {
+    it("should use the handler's answer when it arrives in time", async () => {
+      const handler = jest.fn().mockResolvedValue("My title");
+
+      await expect(
+        answerFeedback(request, handler, { timeout: 1000 }, logger, false)
+      ).resolves.toBe("My title");
+      expect(logger.info).toHaveBeenCalledWith(
+        "Asking the feedback handler to answer the request within 1000ms",
+        { runId: "run-1", requestId: undefined, kind: "text" }
+      );
+    });
+
+    it("should answer with the default value and abort the handler when time is up", async () => {
+      jest.useFakeTimers();
+      let signal: AbortSignal | undefined;
+      const handler = jest.fn((_request, context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      });
+
+      const answer = answerFeedback(
+        request,
+        handler,
+        { timeout: 1000 },
+        logger,
+        false
+      );
+      jest.advanceTimersByTime(1000);
+
+      await expect(answer).resolves.toBe("Untitled");
+      expect(signal?.aborted).toBe(true);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Feedback handler did not answer within 1000ms, using the "defaults" fallback',
+        expect.any(Object)
+      );
+    });
+
+    it("should fail when time is up with the fail fallback", async () => {
+      jest.useFakeTimers();
+
+      const answer = answerFeedback(
+        request,
+        () => new Promise(() => {}),
+        { timeout: 500, fallback: "fail" },
+        logger,
+        false
+      );
+      jest.advanceTimersByTime(500);
+
+      await expect(answer).rejects.toThrow(FeedbackRequiredError);
+    });
+  });
+});
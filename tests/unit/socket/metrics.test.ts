@@ -0,0 +1,117 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import {
+  createMetricsRegistry,
+  MetricSnapshot,
+  MetricsRegistry,
+} from "../../../src/metrics";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("Workflow run metrics", () => {
+  let mockSocket: MockSocket;
+  let metrics: MetricsRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockSocket = new MockSocket();
+    metrics = createMetricsRegistry();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const startRun = () =>
+    runWorkflow(
+      mockSocket as unknown as Socket,
+      "test-workflow-id",
+      "test-token",
+      {},
+      { metrics }
+    );
+
+  const streamOutput = (node: string) => ({
+    type: "node_update",
+    node,
+    state: {},
+    action: "default",
+    isError: false,
+  });
+
+  const complete = { message: "done", state: {}, warning: false };
+
+  const metric = (name: string): MetricSnapshot | undefined =>
+    metrics.snapshot().find((snapshot) => snapshot.name === name);
+
+  it("should count completed runs and observe their duration", async () => {
+    const run = startRun();
+
+    jest.advanceTimersByTime(1500);
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    const labels = { workflow_id: "test-workflow-id", outcome: "complete" };
+    expect(metric("pocketflow_runs_total")?.series).toEqual([
+      { labels, value: 1 },
+    ]);
+    expect(metric("pocketflow_run_duration_seconds")?.series).toEqual([
+      expect.objectContaining({ labels, count: 1, sum: 1.5 }),
+    ]);
+  });
+
+  it("should tell runs with warnings, failed runs and cancelled runs apart", async () => {
+    const warned = startRun();
+    mockSocket.emit("run_warning", {
+      ...complete,
+      warning: true,
+      runId: warned.runId,
+    });
+    await warned.result;
+
+    const failed = startRun();
+    mockSocket.emit("run_error", { message: "boom", runId: failed.runId });
+    await expect(failed.result).rejects.toThrow();
+
+    const cancelled = startRun();
+    mockSocket.emit("run_cancelled", {
+      message: "stopped by admin",
+      runId: cancelled.runId,
+    });
+    await expect(cancelled.result).rejects.toThrow();
+
+    expect(
+      metric("pocketflow_runs_total")?.series.map(
+        ({ labels }) => labels.outcome
+      )
+    ).toEqual(["warning", "error", "cancelled"]);
+  });
+
+  it("should observe how long each node was active and count node errors", async () => {
+    const run = startRun();
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    jest.advanceTimersByTime(200);
+    mockSocket.emit("stream_output", streamOutput("search"));
+    jest.advanceTimersByTime(300);
+    mockSocket.emit("stream_output", streamOutput("rank"));
+    mockSocket.emit("node_error", { node: "rank", error: "timeout" });
+    jest.advanceTimersByTime(1000);
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(metric("pocketflow_node_duration_seconds")?.series).toEqual([
+      expect.objectContaining({
+        labels: { workflow_id: "test-workflow-id", node: "search" },
+        sum: 0.5,
+      }),
+      expect.objectContaining({
+        labels: { workflow_id: "test-workflow-id", node: "rank" },
+        sum: 1,
+      }),
+    ]);
+    expect(metric("pocketflow_node_errors_total")?.series).toEqual([
+      { labels: { workflow_id: "test-workflow-id", node: "rank" }, value: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { createRunNodeReadable } from "../../../src/socket/node-stream";
+import { encodeServerSentEvent } from "../../../src/socket/streams";
+import { WorkflowRunError } from "../../../src/socket/errors";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("createRunNodeReadable", () => {
+  let mockSocket: MockSocket;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+  });
+
+  const startRun = () =>
+    runWorkflow(mockSocket as unknown as Socket, "test-workflow-id", "test-token", {});
+
+  const streamOutput = (node: string) => ({
+    type: "node_update",
+    node,
+    state: {},
+    action: "default",
+    isError: false,
+  });
+
+  const complete = { message: "done", state: {}, warning: false };
+
+  const readAll = async (readable: AsyncIterable<any>) => {
+    const chunks: any[] = [];
+    for await (const chunk of readable) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  it("should emit event objects in object mode", async () => {
+    const run = startRun();
+    const readable = createRunNodeReadable(run);
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("workflow_log", { message: "searching" });
+    mockSocket.emit("run_complete", complete);
+
+    expect(readable.readableObjectMode).toBe(true);
+    await expect(readAll(readable)).resolves.toEqual([
+      { type: "stream_output", data: streamOutput("search") },
+      { type: "workflow_log", data: { message: "searching" } },
+    ]);
+  });
+
+  it("should emit Server-Sent Events as text", async () => {
+    const run = startRun();
+    const readable = createRunNodeReadable(run, { format: "sse" });
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("run_complete", complete);
+
+    const text = (await readAll(readable)).join("");
+    expect(text).toBe(
+      encodeServerSentEvent({ type: "stream_output", data: streamOutput("search") })
+    );
+  });
+
+  it("should be destroyed with the run error when the run fails", async () => {
+    const run = startRun();
+    const readable = createRunNodeReadable(run);
+
+    mockSocket.emit("run_error", { message: "boom" });
+
+    await expect(readAll(readable)).rejects.toBeInstanceOf(WorkflowRunError);
+  });
+});
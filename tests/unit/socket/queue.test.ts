@@ -0,0 +1,101 @@
+import { OutboundDrop, OutboundQueue } from "../../../src/socket/queue";
+
+describe("OutboundQueue", () => {
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+  let drops: OutboundDrop[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    drops = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createQueue = (options = {}) => {
+    const queue = new OutboundQueue(logger, options);
+    queue.onDrop((drop) => drops.push(drop));
+    return queue;
+  };
+
+  it("should send queued events in order when flushed", async () => {
+    const queue = createQueue();
+    const send = jest.fn();
+    const first = queue.push("run_workflow", [{ runId: "run-1" }]);
+    queue.push("feedback_response", [{ runId: "run-2", input: "yes" }]);
+
+    expect(queue.size).toBe(2);
+    queue.flush(send);
+
+    expect(send.mock.calls).toEqual([
+      ["run_workflow", [{ runId: "run-1" }]],
+      ["feedback_response", [{ runId: "run-2", input: "yes" }]],
+    ]);
+    expect(queue.size).toBe(0);
+    await expect(first).resolves.toBeUndefined();
+  });
+
+  it("should drop events once the queue is full", () => {
+    const queue = createQueue({ maxSize: 1 });
+    queue.push("run_workflow", [{ runId: "run-1" }]);
+    queue.push("run_workflow", [{ runId: "run-2" }]);
+
+    expect(queue.size).toBe(1);
+    expect(drops).toEqual([
+      { event: "run_workflow", runId: "run-2", reason: "full", queuedFor: 0 },
+    ]);
+  });
+
+  it("should drop events that outlive their TTL", () => {
+    const queue = createQueue({ ttl: 5000 });
+    queue.push("run_workflow", [{ runId: "run-1" }]);
+
+    jest.advanceTimersByTime(5000);
+
+    expect(queue.size).toBe(0);
+    expect(drops).toEqual([
+      {
+        event: "run_workflow",
+        runId: "run-1",
+        reason: "expired",
+        queuedFor: 5000,
+      },
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Dropped 'run_workflow' without sending it: expired",
+      { runId: "run-1", queuedFor: 5000 }
+    );
+  });
+
+  it("should not expire events that were already sent", () => {
+    const queue = createQueue({ ttl: 5000 });
+    queue.push("run_workflow", [{ runId: "run-1" }]);
+    queue.flush(jest.fn());
+
+    jest.advanceTimersByTime(5000);
+
+    expect(drops).toHaveLength(0);
+  });
+
+  it("should drop every queued event when cleared", () => {
+    const queue = createQueue();
+    queue.push("run_workflow", [{ runId: "run-1" }]);
+    queue.push("feedback_response", [{ runId: "run-1" }]);
+
+    queue.clear("closed");
+
+    expect(queue.size).toBe(0);
+    expect(drops.map((drop) => [drop.event, drop.reason])).toEqual([
+      ["run_workflow", "closed"],
+      ["feedback_response", "closed"],
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { Socket } from "socket.io-client";
+import {
+  createJsonlRecorder,
+  RecordedEvent,
+  recordEvent,
+} from "../../../src/socket/recorder";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { createRedactor } from "../../../src/redact";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("Run recorder", () => {
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("createJsonlRecorder", () => {
+    it("should write every event as one line of JSON", () => {
+      const lines: string[] = [];
+      const recorder = createJsonlRecorder((line) => lines.push(line));
+      const entry: RecordedEvent = {
+        time: "2024-01-01T00:00:00.000Z",
+        direction: "in",
+        event: "run_start",
+        runId: "run-1",
+        payload: { message: "started" },
+      };
+
+      recorder.record(entry);
+
+      expect(lines).toEqual([`${JSON.stringify(entry)}\n`]);
+    });
+  });
+
+  describe("recordEvent", () => {
+    it("should record the redacted payload with its run ID", () => {
+      const record = jest.fn();
+
+      recordEvent(
+        { record },
+        "out",
+        "run_workflow",
+        { runId: "run-1", token: "secret-token", input: { topic: "AI" } },
+        createRedactor(),
+        logger
+      );
+
+      expect(record).toHaveBeenCalledWith({
+        time: expect.any(String),
+        direction: "out",
+        event: "run_workflow",
+        runId: "run-1",
+        payload: {
+          runId: "run-1",
+          token: "[REDACTED]",
+          input: { topic: "AI" },
+        },
+      });
+    });
+
+    it("should log recorder failures instead of throwing", () => {
+      const record = jest.fn(() => {
+        throw new Error("disk full");
+      });
+
+      expect(() =>
+        recordEvent({ record }, "in", "run_start", {}, createRedactor(), logger)
+      ).not.toThrow();
+      expect(logger.error).toHaveBeenCalledWith(
+        "Failed to record 'run_start'",
+        { error: expect.any(Error) }
+      );
+    });
+  });
+
+  describe("runWorkflow", () => {
+    it("should record the run request and every event of the run", async () => {
+      const mockSocket = new MockSocket();
+      const entries: RecordedEvent[] = [];
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        "test-workflow-id",
+        "secret-token",
+        { topic: "AI" },
+        { recorder: { record: (entry) => entries.push(entry) } }
+      );
+
+      mockSocket.emit("run_start", { runId: run.runId, message: "started" });
+      mockSocket.emit("run_complete", {
+        runId: run.runId,
+        message: "done with secret-token",
+        state: {},
+        warning: false,
+      });
+      await run.result;
+
+      expect(
+        entries.map(({ direction, event }) => `${direction} ${event}`)
+      ).toEqual(["out run_workflow", "in run_start", "in run_complete"]);
+      expect(entries[0].payload).toEqual({
+        runId: run.runId,
+        flowId: "test-workflow-id",
+        token: "[REDACTED]",
+        input: { topic: "AI" },
+        idempotencyKey: run.runId,
+      });
+      expect(entries[2].payload).toMatchObject({
+        message: "done with [REDACTED]",
+      });
+      expect(JSON.stringify(entries)).not.toContain("secret-token");
+    });
+
+    it("should record cancellation requests", async () => {
+      const mockSocket = new MockSocket();
+      mockSocket.on("cancel_workflow", (_payload: any, ack: () => void) =>
+        ack()
+      );
+      const entries: RecordedEvent[] = [];
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        "test-workflow-id",
+        "test-token",
+        {},
+        { recorder: { record: (entry) => entries.push(entry) } }
+      );
+
+      await run.cancel({ reason: "no longer needed" });
+
+      expect(entries[entries.length - 1]).toMatchObject({
+        direction: "out",
+        event: "cancel_workflow",
+        runId: run.runId,
+        payload: { reason: "no longer needed" },
+      });
+    });
+  });
+});
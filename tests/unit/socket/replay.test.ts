@@ -0,0 +1,307 @@
+import {
+  parseRecording,
+  replayRecording,
+  ReplayError,
+} from "../../../src/socket/replay";
+import { RecordedEvent } from "../../../src/socket/recorder";
+import { AbortError } from "../../../src/abort";
+
+describe("parseRecording", () => {
+  it("should read one event per line and skip blank lines", () => {
+    const content = [
+      '{"time":"2024-01-01T00:00:00.000Z","direction":"in","event":"run_start","payload":{}}',
+      "",
+      '{"time":"2024-01-01T00:00:01.000Z","direction":"out","event":"run_workflow","payload":{}}',
+      "",
+    ].join("\n");
+
+    expect(parseRecording(content).map((entry) => entry.event)).toEqual([
+      "run_start",
+      "run_workflow",
+    ]);
+  });
+
+  it("should report the line that is not valid JSON", () => {
+    const content = '{"direction":"in","event":"run_start"}\n{not json';
+
+    expect(() => parseRecording(content)).toThrow(ReplayError);
+    expect(() => parseRecording(content)).toThrow(
+      "Invalid recording at line 2: not valid JSON"
+    );
+  });
+
+  it("should reject lines that are not recorded events", () => {
+    expect(() => parseRecording('{"event":"run_start"}')).toThrow(
+      "Invalid recording at line 1: not a recorded event"
+    );
+  });
+});
+
+describe("replayRecording", () => {
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+
+  const at = (seconds: number) =>
+    new Date(Date.UTC(2024, 0, 1, 0, 0, seconds)).toISOString();
+
+  const received = (
+    seconds: number,
+    event: string,
+    payload: Record<string, unknown> = {}
+  ): RecordedEvent => ({
+    time: at(seconds),
+    direction: "in",
+    event,
+    runId: "recorded-run",
+    payload: { runId: "recorded-run", ...payload },
+  });
+
+  const requested: RecordedEvent = {
+    time: at(0),
+    direction: "out",
+    event: "run_workflow",
+    runId: "recorded-run",
+    payload: {
+      runId: "recorded-run",
+      flowId: "test-workflow-id",
+      token: "[REDACTED]",
+      input: { topic: "AI" },
+    },
+  };
+
+  const completeRecording: RecordedEvent[] = [
+    requested,
+    received(1, "run_start", { message: "started" }),
+    received(2, "workflow_log", { message: "working" }),
+    received(3, "stream_output", {
+      node: "search",
+      state: { results: [1] },
+      type: "update",
+      action: "search",
+      isError: false,
+    }),
+    received(4, "run_complete", {
+      message: "done",
+      state: { results: [1, 2] },
+      warning: false,
+    }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should deliver the recorded events to the connection and run handlers", async () => {
+    const handleLog = jest.fn();
+    const handleStreamOutput = jest.fn();
+    const runStart = jest.fn();
+
+    const { runs } = await replayRecording(completeRecording, {
+      handleLog,
+      handleStreamOutput,
+      handlers: { run_start: runStart },
+      logger,
+    });
+
+    expect(runs).toHaveLength(1);
+    const [run] = runs;
+    expect(run.workflowId).toBe("test-workflow-id");
+    expect(runStart).toHaveBeenCalledWith({
+      runId: run.runId,
+      message: "started",
+    });
+    expect(handleLog).toHaveBeenCalledWith(
+      expect.objectContaining({ runId: run.runId, message: "working" })
+    );
+    expect(handleStreamOutput).toHaveBeenCalledWith(
+      expect.objectContaining({ node: "search" })
+    );
+    await expect(run.result).resolves.toMatchObject({
+      message: "done",
+      state: { results: [1, 2] },
+    });
+  });
+
+  it("should replay a recording given as JSON lines", async () => {
+    const content = completeRecording
+      .map((entry) => JSON.stringify(entry))
+      .join("\n");
+
+    const { runs } = await replayRecording(content, { logger });
+
+    expect(runs[0].status).toBe("completed");
+  });
+
+  it("should collect the feedback responses of the handlers", async () => {
+    const recording = [
+      requested,
+      received(1, "feedback_request", {
+        requestId: "request-1",
+        kind: "text",
+        prompt: "Title?",
+      }),
+      received(2, "run_complete", { message: "done", state: {} }),
+    ];
+
+    const { runs, feedbackResponses } = await replayRecording(recording, {
+      handleFeedback: async () => "Replayed title",
+      logger,
+    });
+
+    expect(feedbackResponses).toEqual([
+      {
+        runId: runs[0].runId,
+        requestId: "request-1",
+        kind: "text",
+        input: "Replayed title",
+      },
+    ]);
+  });
+
+  it("should answer feedback requests with the recorded responses by default", async () => {
+    const recording = [
+      requested,
+      received(1, "feedback_request", {
+        requestId: "request-1",
+        kind: "text",
+        prompt: "Title?",
+      }),
+      {
+        time: at(2),
+        direction: "out" as const,
+        event: "feedback_response",
+        runId: "recorded-run",
+        payload: {
+          runId: "recorded-run",
+          requestId: "request-1",
+          kind: "text",
+          input: "Recorded title",
+        },
+      },
+      received(3, "feedback_request", {
+        requestId: "request-2",
+        kind: "confirm",
+        prompt: "Publish?",
+        defaultValue: false,
+      }),
+      received(4, "run_complete", { message: "done", state: {} }),
+    ];
+
+    const { runs, feedbackResponses } = await replayRecording(recording, {
+      logger,
+    });
+
+    expect(feedbackResponses).toEqual([
+      {
+        runId: runs[0].runId,
+        requestId: "request-1",
+        kind: "text",
+        input: "Recorded title",
+      },
+      {
+        runId: runs[0].runId,
+        requestId: "request-2",
+        kind: "confirm",
+        input: false,
+      },
+    ]);
+  });
+
+  it("should start runs whose request was not recorded", async () => {
+    const runStart = jest.fn();
+
+    const { runs } = await replayRecording(completeRecording.slice(1), {
+      handlers: { run_start: runStart },
+      logger,
+    });
+
+    expect(runs).toHaveLength(1);
+    expect(runStart).toHaveBeenCalledWith(
+      expect.objectContaining({ runId: runs[0].runId })
+    );
+  });
+
+  it("should fail runs the recording does not see to the end", async () => {
+    const { runs } = await replayRecording(completeRecording.slice(0, 3), {
+      logger,
+    });
+
+    await expect(runs[0].result).rejects.toThrow(
+      "The recording ended before the workflow completed"
+    );
+  });
+
+  it("should reject a speed that is not positive", async () => {
+    await expect(
+      replayRecording(completeRecording, { pacing: { speed: 0 } })
+    ).rejects.toThrow(ReplayError);
+  });
+
+  describe("pacing", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should space out events as they were recorded in real time", async () => {
+      const handleLog = jest.fn();
+      const replay = replayRecording(completeRecording, {
+        pacing: "realtime",
+        handleLog,
+        logger,
+      });
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(handleLog).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(handleLog).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      await expect(replay).resolves.toMatchObject({
+        runs: [expect.objectContaining({ status: "completed" })],
+      });
+    });
+
+    it("should divide the recorded gaps by the speed", async () => {
+      const handleLog = jest.fn();
+      const replay = replayRecording(completeRecording, {
+        pacing: { speed: 10 },
+        handleLog,
+        logger,
+      });
+
+      await jest.advanceTimersByTimeAsync(200);
+      expect(handleLog).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(200);
+      await expect(replay).resolves.toBeDefined();
+    });
+
+    it("should stop the replay when the signal aborts", async () => {
+      const controller = new AbortController();
+      const runs: any[] = [];
+      const replay = replayRecording(completeRecording, {
+        pacing: "realtime",
+        signal: controller.signal,
+        onRun: (run) => runs.push(run),
+        logger,
+      });
+      const rejection = expect(replay).rejects.toBeInstanceOf(AbortError);
+
+      await jest.advanceTimersByTimeAsync(1500);
+      controller.abort();
+
+      await rejection;
+      await expect(runs[0].result).rejects.toBeInstanceOf(AbortError);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  createSequenceFilter,
+  eventSequence,
+} from "../../../src/socket/resume";
+
+describe("eventSequence", () => {
+  it("should read the run ID and sequence number of a run event", () => {
+    expect(eventSequence({ runId: "a", seq: 3, message: "x" })).toEqual({
+      runId: "a",
+      seq: 3,
+    });
+  });
+
+  it("should ignore events without both fields", () => {
+    expect(eventSequence({ runId: "a" })).toBeUndefined();
+    expect(eventSequence({ seq: 1 })).toBeUndefined();
+    expect(eventSequence(null)).toBeUndefined();
+  });
+});
+
+describe("createSequenceFilter", () => {
+  it("should accept each sequenced event of a run once", () => {
+    const isNewEvent = createSequenceFilter();
+
+    expect(isNewEvent({ runId: "a", seq: 1 })).toBe(true);
+    expect(isNewEvent({ runId: "b", seq: 1 })).toBe(true);
+    expect(isNewEvent({ runId: "a", seq: 1 })).toBe(false);
+    expect(isNewEvent({ runId: "a", seq: 2 })).toBe(true);
+  });
+
+  it("should accept events without a sequence number", () => {
+    const isNewEvent = createSequenceFilter();
+
+    expect(isNewEvent({ message: "legacy" })).toBe(true);
+    expect(isNewEvent({ message: "legacy" })).toBe(true);
+    expect(isNewEvent(undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,241 @@
+import { Socket } from "socket.io-client";
+import {
+  runWorkflow,
+  WorkflowRunnerOptions,
+} from "../../../src/socket/workflow";
+import {
+  WorkflowCancelledError,
+  WorkflowDisconnectedError,
+  WorkflowRunError,
+  WorkflowStalledError,
+} from "../../../src/socket/errors";
+import {
+  isRetryableRunError,
+  retryDelay,
+  shouldRetry,
+} from "../../../src/socket/retry";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("Workflow run retries", () => {
+  describe("retryDelay", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should grow the delay exponentially up to the maximum", () => {
+      const options = { initialDelay: 100, maxDelay: 1000, jitter: 0 };
+
+      expect(
+        [1, 2, 3, 4, 5].map((attempt) => retryDelay(options, attempt))
+      ).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it("should shorten or lengthen the delay by up to the jitter", () => {
+      const options = { initialDelay: 1000, jitter: 0.5 };
+
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      expect(retryDelay(options, 1)).toBe(500);
+      jest.spyOn(Math, "random").mockReturnValue(0.999999);
+      expect(retryDelay(options, 1)).toBe(1500);
+    });
+  });
+
+  describe("shouldRetry", () => {
+    it("should retry server failures and lost sockets by default", () => {
+      expect(
+        isRetryableRunError(new WorkflowRunError("boom", "run_error"))
+      ).toBe(true);
+      expect(isRetryableRunError(new WorkflowDisconnectedError("gone"))).toBe(
+        true
+      );
+      expect(
+        isRetryableRunError(new WorkflowStalledError("stuck", "idle"))
+      ).toBe(false);
+    });
+
+    it("should stop after the maximum number of attempts", () => {
+      const error = new WorkflowRunError("boom", "run_error");
+
+      expect(shouldRetry({ maxAttempts: 2 }, error, 1)).toBe(true);
+      expect(shouldRetry({ maxAttempts: 2 }, error, 2)).toBe(false);
+    });
+  });
+
+  describe("runWorkflow", () => {
+    let mockSocket: MockSocket;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.useFakeTimers();
+      mockSocket = new MockSocket();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const startRun = (options: WorkflowRunnerOptions = {}) =>
+      runWorkflow(
+        mockSocket as unknown as Socket,
+        "test-workflow-id",
+        "test-token",
+        { topic: "AI" },
+        { retry: { initialDelay: 1000, jitter: 0 }, ...options }
+      );
+
+    const runRequests = () =>
+      mockSocket.emit.mock.calls
+        .filter(([event]: any[]) => event === "run_workflow")
+        .map(([, payload]: any[]) => payload);
+
+    const complete = { message: "done", state: { done: true }, warning: false };
+
+    it("should start a failed run again after the backoff delay", async () => {
+      const nodes: string[] = [];
+      const runError = jest.fn();
+      const run = startRun({
+        idempotencyKey: "order-42",
+        handlers: { run_error: runError },
+      });
+      run.on("stream_output", (data) => nodes.push(data.node));
+
+      mockSocket.emit("stream_output", {
+        runId: run.runId,
+        seq: 1,
+        node: "search",
+      });
+      mockSocket.emit("run_error", {
+        runId: run.runId,
+        seq: 2,
+        message: "boom",
+      });
+      await jest.advanceTimersByTimeAsync(999);
+      expect(runRequests()).toHaveLength(1);
+      expect(run.status).toBe("running");
+
+      await jest.advanceTimersByTimeAsync(1);
+      const [, second] = run.attempts;
+      mockSocket.emit("stream_output", {
+        runId: second.runId,
+        seq: 1,
+        node: "search",
+      });
+      mockSocket.emit("run_complete", {
+        ...complete,
+        runId: second.runId,
+        seq: 2,
+      });
+
+      await expect(run.result).resolves.toMatchObject({
+        state: { done: true },
+      });
+      expect(runRequests()).toEqual([
+        expect.objectContaining({
+          runId: run.runId,
+          idempotencyKey: "order-42",
+          input: { topic: "AI" },
+        }),
+        expect.objectContaining({
+          runId: `${run.runId}:2`,
+          idempotencyKey: "order-42:2",
+          input: { topic: "AI" },
+        }),
+      ]);
+      expect(run.attempts.map(({ status }) => status)).toEqual([
+        "failed",
+        "completed",
+      ]);
+      expect(run.attempts[0].error).toBeInstanceOf(WorkflowRunError);
+      expect(nodes).toEqual(["search", "search"]);
+      expect(runError).not.toHaveBeenCalled();
+    });
+
+    it("should fail with the last attempt's error once the policy gives up", async () => {
+      const runError = jest.fn();
+      const run = startRun({
+        retry: { maxAttempts: 2, initialDelay: 10, jitter: 0 },
+        handlers: { run_error: runError },
+      });
+
+      mockSocket.emit("run_error", { runId: run.runId, message: "first" });
+      await jest.advanceTimersByTimeAsync(10);
+      mockSocket.emit("run_error", {
+        runId: run.attempts[1].runId,
+        message: "second",
+      });
+
+      await expect(run.result).rejects.toBeInstanceOf(WorkflowRunError);
+      await expect(run.result).rejects.toThrow("second");
+      expect(run.attempts).toHaveLength(2);
+      expect(runError).toHaveBeenCalledTimes(1);
+      expect(runError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "second" })
+      );
+    });
+
+    it("should retry runs that lose their socket", async () => {
+      const run = startRun();
+
+      mockSocket.emit("disconnect", "io server disconnect");
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(run.attempts[0].error).toBeInstanceOf(WorkflowDisconnectedError);
+      expect(runRequests()).toHaveLength(2);
+    });
+
+    it("should only retry the errors the predicate accepts", async () => {
+      const retryOn = jest.fn(() => false);
+      const run = startRun({ retry: { retryOn } });
+
+      mockSocket.emit("run_error", { runId: run.runId, message: "boom" });
+
+      await expect(run.result).rejects.toThrow("boom");
+      expect(retryOn).toHaveBeenCalledWith(expect.any(WorkflowRunError), 1);
+      expect(run.attempts).toHaveLength(1);
+    });
+
+    it("should not start another attempt once the run is cancelled", async () => {
+      const run = startRun();
+
+      mockSocket.emit("run_error", { runId: run.runId, message: "boom" });
+      await jest.advanceTimersByTimeAsync(0);
+      await run.cancel({ reason: "Not needed" });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      await expect(run.result).rejects.toBeInstanceOf(WorkflowCancelledError);
+      expect(runRequests()).toHaveLength(1);
+    });
+
+    it("should enforce the watchdog deadline across all attempts", async () => {
+      const run = startRun({ watchdog: { deadline: 1500 } });
+
+      mockSocket.emit("run_error", { runId: run.runId, message: "boom" });
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(run.attempts).toHaveLength(2);
+
+      await jest.advanceTimersByTimeAsync(500);
+
+      await expect(run.result).rejects.toMatchObject({ limit: "deadline" });
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "cancel_workflow",
+        expect.objectContaining({ runId: run.attempts[1].runId }),
+        expect.any(Function)
+      );
+      expect(runRequests()).toHaveLength(2);
+    });
+
+    it("should cancel the current attempt when the run is aborted", async () => {
+      const controller = new AbortController();
+      const run = startRun({ signal: controller.signal });
+
+      controller.abort();
+
+      await expect(run.result).rejects.toThrow();
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "cancel_workflow",
+        expect.objectContaining({ runId: run.attempts[0].runId }),
+        expect.any(Function)
+      );
+    });
+  });
+});
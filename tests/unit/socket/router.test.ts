@@ -0,0 +1,146 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { RunRouter } from "../../../src/socket/router";
+import { WorkflowDisconnectedError } from "../../../src/socket/errors";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("RunRouter", () => {
+  let mockSocket: MockSocket;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+  });
+
+  const startRun = (workflowId = "test-workflow-id") =>
+    runWorkflow(mockSocket as unknown as Socket, workflowId, "test-token", {});
+
+  const streamOutput = (runId: string, seq: number, node: string) => ({
+    runId,
+    seq,
+    type: "node_update",
+    node,
+    state: {},
+    action: "default",
+    isError: false,
+  });
+
+  const reconnect = () => {
+    mockSocket.emit("disconnect", "transport close");
+    mockSocket.emit("connect");
+  };
+
+  it("should be shared by all runs on a socket", () => {
+    const router = RunRouter.for(mockSocket as unknown as Socket);
+    startRun();
+    startRun();
+
+    expect(RunRouter.for(mockSocket as unknown as Socket)).toBe(router);
+    expect(router.activeRuns).toBe(2);
+  });
+
+  describe("resume after reconnect", () => {
+    beforeEach(() => {
+      mockSocket.on("resume_run", (_payload: any, ack: () => void) => ack());
+    });
+
+    it("should ask the server to replay events after the last seen sequence", () => {
+      const run = startRun();
+      mockSocket.emit("stream_output", streamOutput(run.runId, 1, "search"));
+      mockSocket.emit("stream_output", streamOutput(run.runId, 2, "rank"));
+
+      reconnect();
+
+      expect(run.lastSeq).toBe(2);
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "resume_run",
+        { runId: run.runId, flowId: "test-workflow-id", lastSeq: 2 },
+        expect.any(Function)
+      );
+    });
+
+    it("should resume every active run", () => {
+      const first = startRun("wf-a");
+      const second = startRun("wf-b");
+
+      reconnect();
+
+      const resumed = mockSocket.emit.mock.calls
+        .filter(([event]) => event === "resume_run")
+        .map(([, payload]) => payload.runId);
+      expect(resumed).toEqual([first.runId, second.runId]);
+    });
+
+    it("should not resume on the first connect of the socket", () => {
+      startRun();
+
+      mockSocket.emit("connect");
+
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        "resume_run",
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it("should drop replayed events the run has already seen", async () => {
+      const run = startRun();
+      const listener = jest.fn();
+      run.on("stream_output", listener);
+
+      mockSocket.emit("stream_output", streamOutput(run.runId, 1, "search"));
+      reconnect();
+      mockSocket.emit("stream_output", streamOutput(run.runId, 1, "search"));
+      mockSocket.emit("stream_output", streamOutput(run.runId, 2, "rank"));
+      mockSocket.emit("run_complete", {
+        runId: run.runId,
+        seq: 3,
+        message: "done",
+        state: {},
+        warning: false,
+      });
+
+      await expect(run.result).resolves.toMatchObject({ message: "done" });
+      expect(listener.mock.calls.map(([event]) => event.node)).toEqual([
+        "search",
+        "rank",
+      ]);
+    });
+
+    it("should fail the run when the server cannot resume it", async () => {
+      const run = startRun();
+      mockSocket.off("resume_run");
+      mockSocket.on("resume_run", (_payload: any, ack: (ack: any) => void) =>
+        ack({ error: "unknown run" })
+      );
+
+      reconnect();
+
+      await expect(run.result).rejects.toThrow(
+        "Could not resume the workflow run after reconnecting: unknown run"
+      );
+      await expect(run.result).rejects.toBeInstanceOf(
+        WorkflowDisconnectedError
+      );
+    });
+
+    it("should warn when the server does not acknowledge the resume", () => {
+      jest.useFakeTimers();
+      try {
+        const run = startRun();
+        mockSocket.off("resume_run");
+
+        reconnect();
+        jest.advanceTimersByTime(10000);
+
+        expect(console.warn).toHaveBeenCalledWith(
+          expect.stringContaining(`resuming run ${run.runId}`),
+          expect.objectContaining({ runId: run.runId })
+        );
+        expect(run.status).toBe("pending");
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { WorkflowRun } from "../../../src/socket/run";
+import {
+  WorkflowCancelledError,
+  WorkflowError,
+  WorkflowRunError,
+} from "../../../src/socket/errors";
+import { AbortError } from "../../../src/abort";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("WorkflowRun", () => {
+  let mockSocket: MockSocket;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+  });
+
+  const startRun = (): WorkflowRun =>
+    runWorkflow(
+      mockSocket as unknown as Socket,
+      "test-workflow-id",
+      "test-token",
+      { testParam: "test-value" }
+    );
+
+  it("should be returned by runWorkflow in the pending state", () => {
+    const run = startRun();
+
+    expect(run).toBeInstanceOf(WorkflowRun);
+    expect(run.workflowId).toBe("test-workflow-id");
+    expect(run.status).toBe("pending");
+    expect(run.startedAt).toBeInstanceOf(Date);
+  });
+
+  it("should resolve the result with the run_complete state and output", async () => {
+    const run = startRun();
+
+    mockSocket.emit("run_start", { message: "started" });
+    expect(run.status).toBe("running");
+
+    mockSocket.emit("run_complete", {
+      message: "done",
+      state: { count: 2 },
+      warning: false,
+      output: { tweets: ["a", "b"] },
+    });
+
+    await expect(run.result).resolves.toEqual({
+      message: "done",
+      state: { count: 2 },
+      output: { tweets: ["a", "b"] },
+      warning: false,
+      errors: [],
+    });
+    expect(run.status).toBe("completed");
+    expect(run.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it("should resolve with a warning flag on run_warning", async () => {
+    const run = startRun();
+
+    mockSocket.emit("run_warning", {
+      message: "partial",
+      errors: [{ node: "a" }],
+      state: { partial: true },
+      warning: true,
+    });
+
+    const result = await run.result;
+    expect(result.warning).toBe(true);
+    expect(result.errors).toEqual([{ node: "a" }]);
+    expect(result.state).toEqual({ partial: true });
+  });
+
+  it("should reject with a WorkflowRunError on run_error", async () => {
+    const run = startRun();
+
+    mockSocket.emit("run_error", { message: "boom", stack: "server stack" });
+
+    await expect(run.result).rejects.toBeInstanceOf(WorkflowRunError);
+    await expect(run.result).rejects.toMatchObject({
+      message: "boom",
+      event: "run_error",
+      serverStack: "server stack",
+    });
+    expect(run.status).toBe("failed");
+    expect(run.error).toBeInstanceOf(WorkflowError);
+  });
+
+  it("should reject with a WorkflowRunError on workflow_error", async () => {
+    const run = startRun();
+
+    mockSocket.emit("workflow_error", { message: "invalid workflow" });
+
+    await expect(run.result).rejects.toMatchObject({
+      name: "WorkflowRunError",
+      event: "workflow_error",
+    });
+  });
+
+  it("should notify subscribed listeners and track the last node", () => {
+    const run = startRun();
+    const listener = jest.fn();
+    const unsubscribe = run.on("stream_output", listener);
+
+    const event = {
+      type: "node_update",
+      node: "search",
+      state: {},
+      action: "default",
+      isError: false,
+    };
+    mockSocket.emit("stream_output", event);
+
+    expect(listener).toHaveBeenCalledWith(event);
+    expect(run.lastNode).toBe("search");
+
+    unsubscribe();
+    mockSocket.emit("stream_output", { ...event, node: "rank" });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(run.lastNode).toBe("rank");
+  });
+
+  it("should ignore events after the run has settled", async () => {
+    const run = startRun();
+    const listener = jest.fn();
+    run.on("run_error", listener);
+
+    mockSocket.emit("run_complete", { message: "done", state: {}, warning: false });
+    run.handleEvent("run_error", { message: "late" });
+
+    await expect(run.result).resolves.toMatchObject({ message: "done" });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the socket is disconnected before completion", async () => {
+    const run = startRun();
+
+    mockSocket.emit("disconnect", "io server disconnect");
+
+    await expect(run.result).rejects.toThrow(
+      "Socket disconnected before the workflow completed"
+    );
+  });
+
+  it("should not fail on disconnects that socket.io recovers from", () => {
+    const run = startRun();
+
+    mockSocket.emit("disconnect", "transport close");
+
+    expect(run.status).toBe("pending");
+  });
+
+  it("should not surface an unhandled rejection when the result is unused", async () => {
+    const run = new WorkflowRun("unused");
+    run.fail(new Error("ignored"));
+
+    expect(run.status).toBe("failed");
+    expect(run.error).toBeInstanceOf(WorkflowError);
+  });
+
+  describe("state", () => {
+    const streamOutput = (node: string, state: any, seq?: number) => ({
+      ...(seq !== undefined ? { seq } : {}),
+      type: "node_update",
+      node,
+      state,
+      action: "default",
+      isError: false,
+    });
+
+    it("should keep the latest state of the run", () => {
+      const run = startRun();
+      expect(run.state).toEqual({});
+
+      mockSocket.emit("stream_output", streamOutput("search", { tweets: [] }));
+
+      expect(run.state).toEqual({ tweets: [] });
+    });
+
+    it("should emit the changes of every node event", () => {
+      const run = startRun();
+      const diffs: any[] = [];
+      run.on("state_diff", (diff) => diffs.push(diff));
+
+      mockSocket.emit("stream_output", {
+        ...streamOutput("search", { query: "ai", tweets: [] }, 1),
+        runId: run.runId,
+      });
+      mockSocket.emit("stream_output", {
+        ...streamOutput("rank", { tweets: [{ id: 1 }], ranked: true }, 2),
+        runId: run.runId,
+      });
+
+      expect(diffs).toEqual([
+        {
+          runId: run.runId,
+          seq: 1,
+          event: "stream_output",
+          node: "search",
+          patch: [
+            { op: "add", path: "/query", value: "ai" },
+            { op: "add", path: "/tweets", value: [] },
+          ],
+        },
+        {
+          runId: run.runId,
+          seq: 2,
+          event: "stream_output",
+          node: "rank",
+          patch: [
+            { op: "remove", path: "/query" },
+            { op: "add", path: "/tweets/0", value: { id: 1 } },
+            { op: "add", path: "/ranked", value: true },
+          ],
+        },
+      ]);
+    });
+
+    it("should not emit a diff when the state did not change", () => {
+      const run = startRun();
+      const listener = jest.fn();
+      run.on("state_diff", listener);
+
+      mockSocket.emit("stream_output", streamOutput("search", { done: true }));
+      mockSocket.emit("stream_output", streamOutput("rank", { done: true }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should be up to date in the node event listeners", () => {
+      const run = startRun();
+      const states: any[] = [];
+      run.on("stream_output", () => states.push(run.state));
+
+      mockSocket.emit("stream_output", streamOutput("search", { step: 1 }));
+
+      expect(states).toEqual([{ step: 1 }]);
+    });
+
+    it("should take the final state from run_complete", async () => {
+      const run = startRun();
+      const events: string[] = [];
+      run.onEvent((event) => events.push(event));
+
+      mockSocket.emit("stream_output", streamOutput("search", { step: 1 }));
+      mockSocket.emit("run_complete", {
+        message: "done",
+        state: { step: 2 },
+        warning: false,
+      });
+      await run.result;
+
+      expect(run.state).toEqual({ step: 2 });
+      expect(events).toEqual([
+        "state_diff",
+        "stream_output",
+        "state_diff",
+        "run_complete",
+      ]);
+    });
+  });
+
+  describe("cancel", () => {
+    const acknowledgeCancel = (ack?: any) => {
+      mockSocket.on(
+        "cancel_workflow",
+        (_payload: any, callback: (ack?: any) => void) => callback(ack)
+      );
+    };
+
+    it("should emit cancel_workflow and settle with a WorkflowCancelledError", async () => {
+      acknowledgeCancel({ ok: true });
+      const run = startRun();
+
+      await run.cancel({ reason: "user request" });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "cancel_workflow",
+        {
+          runId: run.runId,
+          flowId: "test-workflow-id",
+          reason: "user request",
+        },
+        expect.any(Function)
+      );
+      expect(run.status).toBe("cancelled");
+      await expect(run.result).rejects.toBeInstanceOf(WorkflowCancelledError);
+      await expect(run.result).rejects.toMatchObject({
+        reason: "user request",
+      });
+    });
+
+    it("should reuse the pending cancellation for repeated calls", async () => {
+      acknowledgeCancel();
+      const run = startRun();
+
+      const first = run.cancel();
+      const second = run.cancel();
+
+      expect(second).toBe(first);
+      await first;
+      expect(
+        mockSocket.emit.mock.calls.filter(([event]) => event === "cancel_workflow")
+      ).toHaveLength(1);
+    });
+
+    it("should resolve immediately for a run that has already ended", async () => {
+      const run = startRun();
+      mockSocket.emit("run_complete", { message: "done", state: {}, warning: false });
+
+      await run.cancel();
+
+      expect(run.status).toBe("completed");
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        "cancel_workflow",
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it("should keep the run going when the server refuses the cancellation", async () => {
+      acknowledgeCancel({ error: "too late" });
+      const run = startRun();
+      mockSocket.emit("run_start", { message: "started" });
+
+      await expect(run.cancel()).rejects.toThrow(
+        "Server refused to cancel the workflow: too late"
+      );
+      expect(run.status).toBe("running");
+    });
+
+    it("should mark the run cancelled when the acknowledgment times out", async () => {
+      jest.useFakeTimers();
+      try {
+        const run = startRun();
+
+        const cancellation = run.cancel({ timeout: 500 });
+        expect(run.status).toBe("cancelling");
+
+        jest.advanceTimersByTime(500);
+
+        await expect(cancellation).rejects.toThrow(
+          "Server did not acknowledge the cancellation within 500ms"
+        );
+        expect(run.status).toBe("cancelled");
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should settle as cancelled when the server emits run_cancelled", async () => {
+      const run = startRun();
+
+      mockSocket.emit("run_cancelled", { message: "stopped by admin" });
+
+      await expect(run.result).rejects.toThrow(
+        "Workflow run was cancelled: stopped by admin"
+      );
+      expect(run.status).toBe("cancelled");
+    });
+
+    it("should reject for runs created without a canceller", async () => {
+      const run = new WorkflowRun("detached");
+
+      await expect(run.cancel()).rejects.toThrow(WorkflowError);
+    });
+  });
+
+  describe("abort signal", () => {
+    it("should not emit run_workflow when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        "test-workflow-id",
+        "test-token",
+        {},
+        { signal: controller.signal }
+      );
+
+      expect(run.status).toBe("cancelled");
+      await expect(run.result).rejects.toBeInstanceOf(AbortError);
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+
+    it("should cancel the run on the server and reject with an AbortError", async () => {
+      const controller = new AbortController();
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        "test-workflow-id",
+        "test-token",
+        {},
+        { signal: controller.signal }
+      );
+
+      controller.abort();
+
+      await expect(run.result).rejects.toBeInstanceOf(AbortError);
+      expect(run.status).toBe("cancelled");
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "cancel_workflow",
+        expect.objectContaining({ flowId: "test-workflow-id" }),
+        expect.any(Function)
+      );
+    });
+
+    it("should ignore the signal once the run has completed", async () => {
+      const controller = new AbortController();
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        "test-workflow-id",
+        "test-token",
+        {},
+        { signal: controller.signal }
+      );
+      mockSocket.emit("run_complete", { message: "done", state: {}, warning: false });
+      await run.result;
+
+      controller.abort();
+
+      expect(run.status).toBe("completed");
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { diffState } from "../../../src/socket/state";
+
+describe("diffState", () => {
+  it("should report added, changed and removed paths", () => {
+    expect(
+      diffState(
+        { title: "Draft", stale: true, meta: { words: 10 } },
+        { title: "Final", meta: { words: 12, lang: "en" } }
+      )
+    ).toEqual([
+      { op: "remove", path: "/stale" },
+      { op: "replace", path: "/title", value: "Final" },
+      { op: "replace", path: "/meta/words", value: 12 },
+      { op: "add", path: "/meta/lang", value: "en" },
+    ]);
+  });
+
+  it("should report list items one by one", () => {
+    expect(
+      diffState(
+        { tweets: ["a", "b", "c"], ideas: ["x"] },
+        { tweets: ["a", "B"], ideas: ["x", "y", "z"] }
+      )
+    ).toEqual([
+      { op: "replace", path: "/tweets/1", value: "B" },
+      { op: "remove", path: "/tweets/2" },
+      { op: "add", path: "/ideas/1", value: "y" },
+      { op: "add", path: "/ideas/2", value: "z" },
+    ]);
+  });
+
+  it("should replace values whose type changed", () => {
+    expect(diffState({ result: [1] }, { result: { count: 1 } })).toEqual([
+      { op: "replace", path: "/result", value: { count: 1 } },
+    ]);
+  });
+
+  it("should escape keys in paths", () => {
+    expect(diffState({}, { "a/b": 1, "c~d": 2 })).toEqual([
+      { op: "add", path: "/a~1b", value: 1 },
+      { op: "add", path: "/c~0d", value: 2 },
+    ]);
+  });
+
+  it("should report nothing for equal states", () => {
+    expect(
+      diffState(
+        { list: [{ id: 1 }], flag: null },
+        { list: [{ id: 1 }], flag: null }
+      )
+    ).toEqual([]);
+  });
+});
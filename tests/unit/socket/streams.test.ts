@@ -0,0 +1,146 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import {
+  createRunReadableStream,
+  encodeNdjson,
+  encodeServerSentEvent,
+} from "../../../src/socket/streams";
+import { WorkflowEvent } from "../../../src/socket/events";
+import { WorkflowError, WorkflowRunError } from "../../../src/socket/errors";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("Workflow streams", () => {
+  let mockSocket: MockSocket;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+  });
+
+  const startRun = () =>
+    runWorkflow(mockSocket as unknown as Socket, "test-workflow-id", "test-token", {});
+
+  const streamOutput = (node: string, seq?: number) => ({
+    seq,
+    type: "node_update",
+    node,
+    state: {},
+    action: "default",
+    isError: false,
+  });
+
+  const complete = { message: "done", state: {}, warning: false };
+
+  const readAll = async <T>(stream: { getReader(): any }): Promise<T[]> => {
+    const reader = stream.getReader();
+    const chunks: T[] = [];
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return chunks;
+      chunks.push(value);
+    }
+  };
+
+  describe("encoders", () => {
+    const event: WorkflowEvent = {
+      type: "stream_output",
+      data: streamOutput("search", 4),
+    };
+
+    it("should encode an event as a JSON line", () => {
+      expect(encodeNdjson(event)).toBe(`${JSON.stringify(event)}\n`);
+    });
+
+    it("should encode an event as a Server-Sent Event with its sequence as ID", () => {
+      expect(encodeServerSentEvent(event)).toBe(
+        `event: stream_output\nid: 4\ndata: ${JSON.stringify(event.data)}\n\n`
+      );
+    });
+
+    it("should leave out the ID of unsequenced events", () => {
+      expect(
+        encodeServerSentEvent({ type: "workflow_log", data: { message: "hi" } })
+      ).toBe(`event: workflow_log\ndata: {"message":"hi"}\n\n`);
+    });
+  });
+
+  describe("createRunReadableStream", () => {
+    it("should stream node output and logs, and close when the run completes", async () => {
+      const run = startRun();
+      const stream = createRunReadableStream(run);
+
+      mockSocket.emit("run_start", { message: "started" });
+      mockSocket.emit("stream_output", streamOutput("search"));
+      mockSocket.emit("workflow_log", { message: "searching" });
+      mockSocket.emit("run_complete", complete);
+
+      const events = await readAll<WorkflowEvent>(stream);
+      expect(events.map((event) => event.type)).toEqual([
+        "stream_output",
+        "workflow_log",
+      ]);
+    });
+
+    it("should only include the requested event types", async () => {
+      const run = startRun();
+      const stream = createRunReadableStream(run, {
+        events: ["stream_output", "run_complete"],
+      });
+
+      mockSocket.emit("workflow_log", { message: "searching" });
+      mockSocket.emit("stream_output", streamOutput("search"));
+      mockSocket.emit("run_complete", complete);
+
+      const events = await readAll<WorkflowEvent>(stream);
+      expect(events.map((event) => event.type)).toEqual([
+        "stream_output",
+        "run_complete",
+      ]);
+    });
+
+    it("should encode the events as NDJSON bytes", async () => {
+      const run = startRun();
+      const stream = createRunReadableStream(run, { format: "ndjson" });
+
+      mockSocket.emit("stream_output", streamOutput("search"));
+      mockSocket.emit("run_complete", complete);
+
+      const chunks = await readAll<Uint8Array>(stream);
+      const text = chunks.map((chunk) => new TextDecoder().decode(chunk)).join("");
+      expect(text).toBe(
+        encodeNdjson({ type: "stream_output", data: streamOutput("search") })
+      );
+    });
+
+    it("should error with the run error when the run fails", async () => {
+      const run = startRun();
+      const stream = createRunReadableStream(run);
+
+      mockSocket.emit("run_error", { message: "boom" });
+
+      await expect(readAll(stream)).rejects.toBeInstanceOf(WorkflowRunError);
+    });
+
+    it("should stop reading the run when the stream is cancelled", async () => {
+      const run = startRun();
+      const stream = createRunReadableStream(run);
+
+      await stream.cancel();
+      mockSocket.emit("stream_output", streamOutput("search"));
+
+      expect(run.status).toBe("running");
+    });
+
+    it("should throw when the runtime has no ReadableStream", () => {
+      const { ReadableStream } = globalThis;
+      delete (globalThis as Partial<typeof globalThis>).ReadableStream;
+      try {
+        expect(() => createRunReadableStream(startRun())).toThrow(
+          new WorkflowError("ReadableStream is not available in this runtime")
+        );
+      } finally {
+        globalThis.ReadableStream = ReadableStream;
+      }
+    });
+  });
+});
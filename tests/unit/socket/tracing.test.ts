@@ -0,0 +1,203 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow } from "../../../src/socket/workflow";
+import { createInMemorySpanExporter, createTracer } from "../../../src/tracing";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("Workflow run tracing", () => {
+  let mockSocket: MockSocket;
+  const exporter = createInMemorySpanExporter();
+  const tracer = createTracer(exporter);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSocket = new MockSocket();
+    exporter.reset();
+  });
+
+  const startRun = (options = {}) =>
+    runWorkflow(
+      mockSocket as unknown as Socket,
+      "test-workflow-id",
+      "test-token",
+      {},
+      { tracer, ...options }
+    );
+
+  const streamOutput = (node: string, isError = false) => ({
+    type: "node_update",
+    node,
+    state: {},
+    action: isError ? "failed" : "default",
+    isError,
+  });
+
+  const complete = { message: "done", state: {}, warning: false };
+
+  const spanNamed = (name: string) =>
+    exporter.spans.find((span) => span.name === name)!;
+
+  it("should trace a completed run with a span for every node", async () => {
+    const run = startRun();
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("stream_output", streamOutput("rank"));
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(exporter.spans.map(({ name }) => name)).toEqual([
+      "node search",
+      "node rank",
+      "run test-workflow-id",
+    ]);
+    const runSpan = spanNamed("run test-workflow-id");
+    expect(runSpan).toMatchObject({
+      startTime: run.startedAt.getTime(),
+      endTime: run.finishedAt!.getTime(),
+      status: "ok",
+      attributes: {
+        "workflow.id": "test-workflow-id",
+        "run.id": run.runId,
+        "run.status": "completed",
+      },
+    });
+    expect(runSpan.parentSpanId).toBeUndefined();
+    expect(spanNamed("node search")).toMatchObject({
+      traceId: runSpan.traceId,
+      parentSpanId: runSpan.spanId,
+      attributes: { "node.name": "search", "run.id": run.runId },
+    });
+    expect(spanNamed("node rank").endTime).toBe(runSpan.endTime);
+  });
+
+  it("should record logs on the active node's span and earlier ones on the run's", async () => {
+    const run = startRun();
+
+    mockSocket.emit("workflow_log", { message: "starting", level: "info" });
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("workflow_log", { message: "searching" });
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(spanNamed("run test-workflow-id").events).toEqual([
+      {
+        name: "workflow_log",
+        time: expect.any(Number),
+        attributes: { message: "starting", level: "info" },
+      },
+    ]);
+    expect(spanNamed("node search").events).toEqual([
+      {
+        name: "workflow_log",
+        time: expect.any(Number),
+        attributes: { message: "searching" },
+      },
+    ]);
+  });
+
+  it("should record feedback requests", async () => {
+    const run = startRun();
+
+    mockSocket.emit("stream_output", streamOutput("review"));
+    mockSocket.emit("feedback_request", {
+      requestId: "req_1",
+      kind: "approval",
+      prompt: "Publish the draft?",
+    });
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(spanNamed("node review").events).toEqual([
+      {
+        name: "feedback_request",
+        time: expect.any(Number),
+        attributes: {
+          "feedback.kind": "approval",
+          "feedback.request_id": "req_1",
+          "feedback.prompt": "Publish the draft?",
+        },
+      },
+    ]);
+  });
+
+  it("should mark the failing node and the failed run as errors", async () => {
+    const run = startRun();
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    mockSocket.emit("node_error", {
+      node: "search",
+      error: "Search API returned 500",
+    });
+    mockSocket.emit("run_error", { message: "boom" });
+    await expect(run.result).rejects.toThrow();
+
+    expect(spanNamed("node search")).toMatchObject({
+      status: "error",
+      statusMessage: "Search API returned 500",
+      events: [
+        {
+          name: "node_error",
+          attributes: {
+            "node.name": "search",
+            message: "Search API returned 500",
+          },
+        },
+      ],
+    });
+    expect(spanNamed("run test-workflow-id")).toMatchObject({
+      status: "error",
+      statusMessage: run.error!.message,
+      attributes: { "run.status": "failed" },
+    });
+  });
+
+  it("should mark nodes whose output is an error", async () => {
+    const run = startRun();
+
+    mockSocket.emit("stream_output", streamOutput("search", true));
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(spanNamed("node search")).toMatchObject({
+      status: "error",
+      statusMessage: "failed",
+    });
+  });
+
+  it("should leave the status of a cancelled run unset", async () => {
+    const run = startRun();
+
+    mockSocket.emit("run_cancelled", { message: "stopped by admin" });
+    await expect(run.result).rejects.toThrow();
+
+    expect(spanNamed("run test-workflow-id")).toMatchObject({
+      status: "unset",
+      attributes: { "run.status": "cancelled" },
+    });
+  });
+
+  it("should redact the recorded events", async () => {
+    const run = startRun({ redact: { secrets: ["acme-corp"] } });
+
+    mockSocket.emit("workflow_log", { message: "Logged in to acme-corp" });
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(spanNamed("run test-workflow-id").events[0].attributes).toEqual({
+      message: "Logged in to [REDACTED]",
+    });
+  });
+
+  it("should make the run's span a child of the given parent", async () => {
+    const parent = tracer.startSpan("job");
+    const run = startRun({ traceParent: parent });
+
+    mockSocket.emit("run_complete", complete);
+    await run.result;
+
+    expect(spanNamed("run test-workflow-id")).toMatchObject({
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+    });
+  });
+});
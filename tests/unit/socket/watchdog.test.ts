@@ -0,0 +1,174 @@
+import { Socket } from "socket.io-client";
+import { runWorkflow, WorkflowRunnerOptions } from "../../../src/socket/workflow";
+import { WorkflowStalledError } from "../../../src/socket/errors";
+import { RunRouter } from "../../../src/socket/router";
+import { MockSocket } from "../../mocks/socket.mock";
+
+describe("Workflow run watchdog", () => {
+  let mockSocket: MockSocket;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockSocket = new MockSocket();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const startRun = (watchdog: WorkflowRunnerOptions["watchdog"]) =>
+    runWorkflow(
+      mockSocket as unknown as Socket,
+      "test-workflow-id",
+      "test-token",
+      {},
+      { watchdog }
+    );
+
+  const streamOutput = (node: string, state: any = {}) => ({
+    type: "node_update",
+    node,
+    state,
+    action: "default",
+    isError: false,
+  });
+
+  it("should fail a run that exceeds its deadline", async () => {
+    const run = startRun({ deadline: 1000 });
+
+    mockSocket.emit("stream_output", streamOutput("search", { query: "ai" }));
+    jest.advanceTimersByTime(1000);
+
+    await expect(run.result).rejects.toBeInstanceOf(WorkflowStalledError);
+    await expect(run.result).rejects.toMatchObject({
+      limit: "deadline",
+      lastNode: "search",
+      lastState: { query: "ai" },
+      message:
+        "Workflow run did not complete within 1000ms (last active node: 'search')",
+    });
+    expect(run.status).toBe("failed");
+  });
+
+  it("should fail a run without output for longer than the idle timeout", async () => {
+    const run = startRun({ idleTimeout: 500 });
+
+    jest.advanceTimersByTime(400);
+    mockSocket.emit("stream_output", streamOutput("search"));
+    jest.advanceTimersByTime(400);
+    expect(run.status).toBe("running");
+
+    jest.advanceTimersByTime(100);
+    await expect(run.result).rejects.toMatchObject({ limit: "idle" });
+  });
+
+  it("should fail a run whose node stays active for too long", async () => {
+    const run = startRun({ nodeTimeout: 1000, nodeTimeouts: { rank: 300 } });
+
+    mockSocket.emit("stream_output", streamOutput("search"));
+    jest.advanceTimersByTime(900);
+    mockSocket.emit("stream_output", streamOutput("rank"));
+    jest.advanceTimersByTime(300);
+
+    await expect(run.result).rejects.toMatchObject({
+      limit: "node",
+      lastNode: "rank",
+      message:
+        "Node 'rank' has been active for more than 300ms (last active node: 'rank')",
+    });
+  });
+
+  it("should ask the server to cancel a stalled run", async () => {
+    const run = startRun({ deadline: 1000 });
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(run.result).rejects.toBeInstanceOf(WorkflowStalledError);
+    expect(mockSocket.emit).toHaveBeenCalledWith(
+      "cancel_workflow",
+      expect.objectContaining({ runId: run.runId }),
+      expect.any(Function)
+    );
+  });
+
+  describe("feedback requests", () => {
+    const requestFeedback = (runId: string) =>
+      mockSocket.emit("feedback_request", { runId, prompt: "Publish?" });
+
+    const answerFeedback = (runId: string) =>
+      RunRouter.for(mockSocket as unknown as Socket).dispatchFeedbackResponse({
+        runId,
+        kind: "text",
+        input: "yes",
+      });
+
+    it("should not count the time a feedback request waits for its answer", async () => {
+      const run = startRun({ idleTimeout: 500, nodeTimeout: 800 });
+
+      mockSocket.emit("stream_output", {
+        ...streamOutput("review"),
+        runId: run.runId,
+      });
+      jest.advanceTimersByTime(300);
+      requestFeedback(run.runId);
+      jest.advanceTimersByTime(5000);
+      expect(run.status).toBe("running");
+
+      answerFeedback(run.runId);
+      jest.advanceTimersByTime(499);
+      expect(run.status).toBe("running");
+      jest.advanceTimersByTime(1);
+
+      await expect(run.result).rejects.toMatchObject({
+        limit: "idle",
+        lastNode: "review",
+      });
+    });
+
+    it("should restart the node timer once the answer is sent", async () => {
+      const run = startRun({ nodeTimeout: 800 });
+
+      mockSocket.emit("stream_output", {
+        ...streamOutput("review"),
+        runId: run.runId,
+      });
+      requestFeedback(run.runId);
+      jest.advanceTimersByTime(5000);
+      answerFeedback(run.runId);
+      jest.advanceTimersByTime(800);
+
+      await expect(run.result).rejects.toMatchObject({ limit: "node" });
+    });
+
+    it("should keep enforcing the deadline while waiting for feedback", async () => {
+      const run = startRun({ deadline: 1000, idleTimeout: 500 });
+
+      requestFeedback(run.runId);
+      jest.advanceTimersByTime(1000);
+
+      await expect(run.result).rejects.toMatchObject({ limit: "deadline" });
+    });
+
+    it("should not pause for a request that was answered before the run saw it", async () => {
+      const run = startRun({ idleTimeout: 500 });
+
+      answerFeedback(run.runId);
+      requestFeedback(run.runId);
+      jest.advanceTimersByTime(500);
+
+      await expect(run.result).rejects.toMatchObject({ limit: "idle" });
+    });
+  });
+
+  it("should stop once the run has completed", async () => {
+    const run = startRun({ deadline: 1000, idleTimeout: 500 });
+
+    mockSocket.emit("run_complete", { message: "done", state: {}, warning: false });
+    await run.result;
+    jest.advanceTimersByTime(1000);
+
+    expect(run.status).toBe("completed");
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
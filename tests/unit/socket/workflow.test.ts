@@ -6,6 +6,7 @@ import {
   WorkflowError,
 } from "../../../src/socket/workflow";
 import { MockSocket } from "../../mocks/socket.mock";
+import { createSilentLogger } from "../../../src/logger";
 
 // Mock console methods
 const originalConsoleLog = console.log;
@@ -81,24 +82,23 @@ describe("Workflow Module", () => {
       const customRunCompleteHandler = jest.fn();
       const customRunErrorHandler = jest.fn();
 
-      // Spy on the socket.on and removeAllListeners methods
-      const onSpy = jest.spyOn(mockSocket, "on");
+      // Spy on the removeAllListeners method
       const removeAllListenersSpy = jest.spyOn(
         mockSocket,
         "removeAllListeners"
       );
 
       // Call the runWorkflow function with custom handlers
-      runWorkflow(mockSocket as unknown as Socket, workflowId, token, input, {
+      const options = {
         handlers: {
           run_complete: customRunCompleteHandler,
           run_error: customRunErrorHandler,
         },
-      });
+      };
+      runWorkflow(mockSocket as unknown as Socket, workflowId, token, input, options);
 
-      // Check that removeAllListeners was called for the events
-      expect(removeAllListenersSpy).toHaveBeenCalledWith("run_complete");
-      expect(removeAllListenersSpy).toHaveBeenCalledWith("run_error");
+      // Listeners registered by other runs or the caller must survive
+      expect(removeAllListenersSpy).not.toHaveBeenCalled();
 
       // Verify that the custom handlers were registered
       // We need to check if the handler was registered by manually triggering the event
@@ -109,6 +109,8 @@ describe("Workflow Module", () => {
       }
       expect(customRunCompleteHandler).toHaveBeenCalled();
 
+      // The first run has ended, so start another one to receive the error
+      runWorkflow(mockSocket as unknown as Socket, workflowId, token, input, options);
       if (mockSocket.eventHandlers["run_error"]) {
         mockSocket.eventHandlers["run_error"].forEach((handler) => {
           handler({ message: "test error" });
@@ -122,11 +124,12 @@ describe("Workflow Module", () => {
       const customRunCompleteHandler = jest.fn();
 
       // Call the runWorkflow function with a custom handler for only one event
-      runWorkflow(mockSocket as unknown as Socket, workflowId, token, input, {
+      const options = {
         handlers: {
           run_complete: customRunCompleteHandler,
         },
-      });
+      };
+      runWorkflow(mockSocket as unknown as Socket, workflowId, token, input, options);
 
       // Verify that the custom handler was used for run_complete
       if (mockSocket.eventHandlers["run_complete"]) {
@@ -137,7 +140,8 @@ describe("Workflow Module", () => {
       expect(customRunCompleteHandler).toHaveBeenCalled();
 
       // And that default handlers were used for other events
-      // Trigger the run_error event to verify default handler is registered
+      // Trigger the run_error event on a new run to verify default handler is registered
+      runWorkflow(mockSocket as unknown as Socket, workflowId, token, input, options);
       if (mockSocket.eventHandlers["run_error"]) {
         mockSocket.eventHandlers["run_error"].forEach((handler) => {
           handler({ message: "test error" });
@@ -174,18 +178,47 @@ describe("Workflow Module", () => {
       }).toThrow("Authentication token is required");
     });
 
-    it("should throw WorkflowError when socket.emit throws", () => {
+    it("should return a failed run when socket.emit throws", async () => {
       // Make the emit method throw an error
       mockSocket.emit = jest.fn().mockImplementation(() => {
         throw new Error("Emit error");
       });
 
-      expect(() => {
-        runWorkflow(mockSocket as unknown as Socket, workflowId, token, input);
-      }).toThrow(WorkflowError);
-      expect(() => {
-        runWorkflow(mockSocket as unknown as Socket, workflowId, token, input);
-      }).toThrow("Failed to start workflow execution");
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        workflowId,
+        token,
+        input
+      );
+
+      await expect(run.result).rejects.toThrow(WorkflowError);
+      await expect(run.result).rejects.toThrow(
+        "Failed to start workflow execution"
+      );
+      expect(run.status).toBe("failed");
+    });
+
+    it("should pass a failed start to the run_error handler", async () => {
+      const runError = jest.fn();
+      mockSocket.emit = jest.fn().mockImplementation(() => {
+        throw new Error("Emit error");
+      });
+
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        workflowId,
+        token,
+        input,
+        { handlers: { run_error: runError } }
+      );
+
+      await expect(run.result).rejects.toThrow(
+        "Failed to start workflow execution"
+      );
+      expect(runError).toHaveBeenCalledTimes(1);
+      expect(runError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Emit error" })
+      );
     });
 
     it("should catch errors in event handlers", () => {
@@ -216,13 +249,13 @@ describe("Workflow Module", () => {
       expect(errorHandler).toHaveBeenCalled();
       expect(console.error).toHaveBeenCalledWith(
         expect.stringContaining("Error in run_error handler"),
-        expect.any(Error)
+        expect.objectContaining({ error: expect.any(Error) })
       );
     });
 
     it("should handle registration errors gracefully", () => {
-      // Make removeAllListeners throw an error
-      mockSocket.removeAllListeners = jest.fn().mockImplementation(() => {
+      // Make socket.on throw an error
+      mockSocket.on = jest.fn().mockImplementation(() => {
         throw new Error("Registration error");
       });
 
@@ -234,7 +267,7 @@ describe("Workflow Module", () => {
       // Verify the error was caught and logged
       expect(console.error).toHaveBeenCalledWith(
         expect.stringContaining("Failed to register handler"),
-        expect.any(Error)
+        expect.objectContaining({ error: expect.any(Error) })
       );
     });
 
@@ -259,6 +292,241 @@ describe("Workflow Module", () => {
     });
   });
 
+  describe("concurrent runs", () => {
+    const complete = (runId?: string) => ({
+      runId,
+      message: "done",
+      state: { runId },
+      warning: false,
+    });
+
+    it("should send a unique run ID with every run request", () => {
+      const first = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {});
+      const second = runWorkflow(mockSocket as unknown as Socket, "wf-b", "t", {});
+
+      expect(first.runId).not.toBe(second.runId);
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "run_workflow",
+        expect.objectContaining({ runId: first.runId, flowId: "wf-a" }),
+        expect.any(Function)
+      );
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "run_workflow",
+        expect.objectContaining({ runId: second.runId, flowId: "wf-b" }),
+        expect.any(Function)
+      );
+    });
+
+    it("should route events to the run whose runId they carry", async () => {
+      const firstHandler = jest.fn();
+      const secondHandler = jest.fn();
+      const first = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {}, {
+        handlers: { run_complete: firstHandler },
+      });
+      const second = runWorkflow(mockSocket as unknown as Socket, "wf-b", "t", {}, {
+        handlers: { run_complete: secondHandler },
+      });
+
+      mockSocket.emit("run_complete", complete(second.runId));
+
+      await expect(second.result).resolves.toMatchObject({
+        state: { runId: second.runId },
+      });
+      expect(secondHandler).toHaveBeenCalledTimes(1);
+      expect(firstHandler).not.toHaveBeenCalled();
+      expect(first.status).toBe("pending");
+
+      mockSocket.emit("run_complete", complete(first.runId));
+      await expect(first.result).resolves.toMatchObject({
+        state: { runId: first.runId },
+      });
+    });
+
+    it("should register one socket listener per event for all runs", () => {
+      runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {});
+      runWorkflow(mockSocket as unknown as Socket, "wf-b", "t", {});
+
+      expect(mockSocket.eventHandlers["run_complete"]).toHaveLength(1);
+      expect(mockSocket.eventHandlers["stream_output"]).toHaveLength(1);
+    });
+
+    it("should keep the socket connected after a run completes", async () => {
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {});
+
+      mockSocket.emit("run_complete", complete(run.runId));
+      await run.result;
+
+      expect(mockSocket.disconnect).not.toHaveBeenCalled();
+      expect(mockSocket.connected).toBe(true);
+    });
+
+    it("should remove its socket listeners once the last run has ended", async () => {
+      const callerListener = jest.fn();
+      mockSocket.on("run_complete", callerListener);
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {});
+
+      mockSocket.emit("run_complete", complete(run.runId));
+      await run.result;
+
+      expect(mockSocket.eventHandlers["run_complete"]).toEqual([callerListener]);
+      expect(mockSocket.eventHandlers["stream_output"]).toEqual([]);
+    });
+
+    it("should deliver events without a runId to every active run", async () => {
+      const first = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {});
+      const second = runWorkflow(mockSocket as unknown as Socket, "wf-b", "t", {});
+
+      mockSocket.emit("run_error", { message: "legacy server error" });
+
+      await expect(first.result).rejects.toThrow("legacy server error");
+      await expect(second.result).rejects.toThrow("legacy server error");
+    });
+
+    it("should include the runId in cancel requests", async () => {
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t", {});
+      mockSocket.on("cancel_workflow", (_payload: any, ack: () => void) => ack());
+
+      await run.cancel();
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "cancel_workflow",
+        expect.objectContaining({ runId: run.runId }),
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe("credentials provider", () => {
+    it("should request the run once the provider has returned a token", async () => {
+      const credentials = jest.fn().mockResolvedValue("fresh-token");
+
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", credentials, {});
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        "run_workflow",
+        expect.anything(),
+        expect.anything()
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(credentials).toHaveBeenCalledWith({ reason: "run", forceRefresh: false });
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        "run_workflow",
+        expect.objectContaining({ runId: run.runId, token: "fresh-token" }),
+        expect.any(Function)
+      );
+    });
+
+    it("should mask the provider's token in run errors", async () => {
+      const credentials = jest.fn().mockResolvedValue("tok_live_42");
+
+      const run = runWorkflow(
+        mockSocket as unknown as Socket,
+        "wf-a",
+        credentials,
+        {}
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      mockSocket.emit("run_error", {
+        runId: run.runId,
+        message: "Token tok_live_42 has expired",
+      });
+
+      await expect(run.result).rejects.toThrow(
+        "Token [REDACTED] has expired"
+      );
+    });
+
+    it("should fail the run when the provider fails", async () => {
+      const credentials = jest.fn().mockRejectedValue(new Error("vault down"));
+
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", credentials, {});
+
+      await expect(run.result).rejects.toThrow("Failed to start workflow execution");
+      expect(run.status).toBe("failed");
+    });
+  });
+
+  describe("built-in handlers", () => {
+    it("should write nothing to the console with a silent logger", () => {
+      const options = { logger: createSilentLogger() };
+      [options, { ...options, verbose: true }].forEach((runOptions) => {
+        const run = runWorkflow(
+          mockSocket as unknown as Socket,
+          "wf-a",
+          "t0ken-123",
+          {},
+          runOptions
+        );
+        mockSocket.emit("run_start", { runId: run.runId, message: "started" });
+        mockSocket.emit("stream_output", {
+          runId: run.runId,
+          node: "search",
+          isError: true,
+        });
+        mockSocket.emit("run_error", { runId: run.runId, message: "boom" });
+      });
+
+      expect(console.log).not.toHaveBeenCalled();
+      expect(console.warn).not.toHaveBeenCalled();
+      expect(console.error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("redaction", () => {
+    it("should mask secrets in the events printed by the built-in handlers", () => {
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t0ken-123", {});
+
+      mockSocket.emit("run_complete", {
+        runId: run.runId,
+        message: "done",
+        state: {},
+        output: { summary: "ok", api_key: "sk-123", note: "used t0ken-123" },
+      });
+
+      expect(console.log).toHaveBeenCalledWith(
+        "Workflow completed",
+        expect.objectContaining({
+          output: {
+            summary: "ok",
+            api_key: "[REDACTED]",
+            note: "used [REDACTED]",
+          },
+        })
+      );
+    });
+
+    it("should pass unredacted events to custom handlers", () => {
+      const runComplete = jest.fn();
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t0ken-123", {}, {
+        handlers: { run_complete: runComplete },
+      });
+      const data = {
+        runId: run.runId,
+        message: "done",
+        state: { password: "hunter2" },
+      };
+
+      mockSocket.emit("run_complete", data);
+
+      expect(runComplete).toHaveBeenCalledWith(data);
+    });
+
+    it("should mask the auth token and configured secrets in run errors", async () => {
+      const run = runWorkflow(mockSocket as unknown as Socket, "wf-a", "t0ken-123", {}, {
+        redact: { secrets: ["acme-corp"] },
+      });
+
+      mockSocket.emit("run_error", {
+        runId: run.runId,
+        message: "Token t0ken-123 is not valid for acme-corp",
+      });
+
+      await expect(run.result).rejects.toThrow(
+        "Token [REDACTED] is not valid for [REDACTED]"
+      );
+    });
+  });
+
   describe("WorkflowError", () => {
     it("should create a WorkflowError with the correct name and message", () => {
       const error = new WorkflowError("Test error message");
@@ -283,6 +551,7 @@ describe("Workflow Module", () => {
         "run_warning",
         "run_complete",
         "run_start",
+        "run_cancelled",
         "stream_output",
         "node_error",
       ];
@@ -294,4 +563,4 @@ describe("Workflow Module", () => {
       });
     });
   });
-});
+});
\ No newline at end of file
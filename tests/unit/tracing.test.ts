@@ -0,0 +1,138 @@
+import {
+  createInMemorySpanExporter,
+  createJsonlSpanExporter,
+  createTracer,
+} from "../../src/tracing";
+
+describe("Tracer", () => {
+  const logger: any = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(() => logger),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should start a new trace for spans without a parent", () => {
+    const tracer = createTracer(createInMemorySpanExporter());
+
+    const span = tracer.startSpan("run");
+
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(span.parentSpanId).toBeUndefined();
+  });
+
+  it("should put child spans in the trace of their parent", () => {
+    const tracer = createTracer(createInMemorySpanExporter());
+    const parent = tracer.startSpan("run");
+
+    const child = tracer.startSpan("node", { parent });
+
+    expect(child.traceId).toBe(parent.traceId);
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(child.spanId).not.toBe(parent.spanId);
+  });
+
+  it("should export a span with its attributes, events and status when it ends", () => {
+    const exporter = createInMemorySpanExporter();
+    const tracer = createTracer(exporter);
+    const span = tracer.startSpan("run", {
+      startTime: 1000,
+      attributes: { "workflow.id": "wf_1", "run.id": undefined },
+    });
+
+    span
+      .setAttributes({ "run.status": "failed" })
+      .addEvent("workflow_log", { message: "hello", level: undefined }, 1500)
+      .setStatus("error", "boom");
+    expect(exporter.spans).toEqual([]);
+    span.end(2000);
+
+    expect(span.isEnded).toBe(true);
+    expect(exporter.spans).toEqual([
+      {
+        traceId: span.traceId,
+        spanId: span.spanId,
+        name: "run",
+        startTime: 1000,
+        endTime: 2000,
+        attributes: { "workflow.id": "wf_1", "run.status": "failed" },
+        events: [
+          { name: "workflow_log", time: 1500, attributes: { message: "hello" } },
+        ],
+        status: "error",
+        statusMessage: "boom",
+      },
+    ]);
+  });
+
+  it("should only keep the status message of failed spans", () => {
+    const exporter = createInMemorySpanExporter();
+    const span = createTracer(exporter).startSpan("run");
+
+    span.setStatus("ok", "fine");
+    span.end();
+
+    expect(exporter.spans[0].status).toBe("ok");
+    expect(exporter.spans[0]).not.toHaveProperty("statusMessage");
+  });
+
+  it("should export a span only once and ignore later changes", () => {
+    const exporter = createInMemorySpanExporter();
+    const span = createTracer(exporter).startSpan("run");
+
+    span.end(2000);
+    span.setAttributes({ late: true }).addEvent("late").setStatus("error");
+    span.end(3000);
+
+    expect(exporter.spans).toHaveLength(1);
+    expect(exporter.spans[0]).toMatchObject({
+      endTime: 2000,
+      attributes: {},
+      events: [],
+      status: "unset",
+    });
+  });
+
+  it("should log export failures without throwing", () => {
+    const tracer = createTracer(
+      {
+        export: () => {
+          throw new Error("disk full");
+        },
+      },
+      { logger }
+    );
+
+    expect(() => tracer.startSpan("run").end()).not.toThrow();
+    expect(logger.error).toHaveBeenCalledWith("Failed to export span 'run'", {
+      error: expect.any(Error),
+    });
+  });
+
+  it("should forget the spans of an in-memory exporter on reset", () => {
+    const exporter = createInMemorySpanExporter();
+    createTracer(exporter).startSpan("run").end();
+
+    exporter.reset();
+
+    expect(exporter.spans).toEqual([]);
+  });
+
+  it("should write every span as one line of JSON", () => {
+    const write = jest.fn();
+    const span = createTracer(createJsonlSpanExporter(write)).startSpan("run");
+
+    span.end();
+
+    expect(write).toHaveBeenCalledTimes(1);
+    const line: string = write.mock.calls[0][0];
+    expect(line.endsWith("\n")).toBe(true);
+    expect(JSON.parse(line)).toMatchObject({ name: "run", spanId: span.spanId });
+  });
+});